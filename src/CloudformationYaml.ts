@@ -1,300 +1,193 @@
 import * as vscode from 'vscode';
-import clone from 'lodash.clonedeep';
-import fs from 'fs';
 import path from 'path';
-import YAML from 'yaml';
-
-import { createDiagnostic, createDiagnosticsFromSubStackNode, createDiagnosticsFromReferencingNode, addDiagnostic } from './common/Diagnostics';
-import { getYamlNodeKeys, getNodeValueIfPair, getNodeItemByStringKey, EmptyNode } from './Yaml';
-import { Node } from './Yaml/Node';
-import { NodeTypes } from './Yaml/NodeTypes';
-import { revealAllProperties, hasValue } from './common';
-import { getRowColumnPosition } from './common/RowColumnPosition';
-import { References } from './Yaml/References';
-import { NodeTraversal } from './Yaml/NodeTraversal';
-import { SubStack } from './common/SubStack';
-
-export const diagnosticCollectionName = 'CloudFormation Yaml Validator';
-
+import {
+  ExecuteCommandRequest,
+  LanguageClient,
+  LanguageClientOptions,
+  ServerOptions,
+  TransportKind,
+} from 'vscode-languageclient';
+
+import { Commands } from './common/Commands';
+import { unnecessaryCodes, DiagnosticCodes } from './common/Diagnostics';
+import { ParameterFiles } from './common/ParameterFiles';
+import { Settings } from './common/Settings';
+import { DiagramFormat } from './features/Diagrams';
+import { Workspace } from './features/Workspace';
+import { validatorName } from './Validator';
+
+export const diagnosticCollectionName = validatorName;
+
+// A thin client, all of the validation happens in the language server
 export class CloudformationYaml implements vscode.Disposable {
-  private diagnosticCollection: vscode.DiagnosticCollection;
-  public urisCurrentlyBeingProcessed: vscode.Uri[] = [];
-  private subscriptions: vscode.Disposable[] = [];
-  private allowEventTriggers: boolean = true;
-
-  constructor() {
-    this.diagnosticCollection = vscode.languages.createDiagnosticCollection(diagnosticCollectionName);
-  }
-
-  // Used to make integration testing possible
-  // LOTS of interference from events, and just `dispose`ing subscriptions doesn't seem to help
-  public async eventTrigger() {
-    // console.log(`Event triggered, allow: ${this.allowEventTriggers}`);
-    if (this.allowEventTriggers) {
-      await this.checkActiveFile(false, true);
-    }
-  }
-
-  // Used in integration testing
-  public async disableEventTriggers() {
-    this.allowEventTriggers = false;
-    for (const subscription of this.subscriptions) {
-      if (subscription !== this) {
-        await subscription.dispose();
-      }
-    }
-  }
+  private client: LanguageClient | undefined;
+  private watchers: vscode.FileSystemWatcher[] = [];
+  private configurationListener: vscode.Disposable | undefined;
 
   // Used in integration testing
   public async resetDiagnostics() {
-    await this.diagnosticCollection.clear();
+    const client = this.client;
+    if (client) {
+      await client.onReady();
+      if (client.diagnostics) client.diagnostics.clear();
+    }
   }
 
   // Required to implement vscode.Disposable
   public dispose() {
-    if (this.diagnosticCollection) {
-      this.diagnosticCollection.clear();
-      this.diagnosticCollection.dispose();
+    this.stopClient();
+    if (this.configurationListener) {
+      this.configurationListener.dispose();
+      this.configurationListener = undefined;
     }
   }
 
   // The extension index calls this to enable the extension
   public activate(context: vscode.ExtensionContext) {
-    this.diagnosticCollection = this.diagnosticCollection
-      ? this.diagnosticCollection
-      : vscode.languages.createDiagnosticCollection(diagnosticCollectionName);
-    this.subscriptions = context.subscriptions;
-    if (this.subscriptions.indexOf(this) < 0) {
-      this.subscriptions.push(this);
+    this.startClient(context);
+    // The document selector and the watchers are built from the parameterFiles setting, so the client starts over when it changes
+    if (!this.configurationListener) {
+      this.configurationListener = vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration(`${Settings.SECTION}.parameterFiles`)) this.restartClient(context);
+      });
+    }
+    if (context.subscriptions.indexOf(this) < 0) {
+      context.subscriptions.push(this);
     }
-    this.allowEventTriggers = true;
-    vscode.window.onDidChangeActiveTextEditor(this.eventTrigger, this, this.subscriptions);
-    vscode.workspace.onDidOpenTextDocument(this.eventTrigger, this, this.subscriptions);
-    vscode.workspace.onDidSaveTextDocument(this.eventTrigger, this, this.subscriptions);
-    vscode.workspace.onDidChangeTextDocument(this.eventTrigger, this, this.subscriptions);
   }
 
-  public async checkActiveFile(recurse: boolean, isRoot: boolean) {
+  public async checkActiveFile(recurse: boolean) {
     const editor: vscode.TextEditor = vscode.window.activeTextEditor as vscode.TextEditor;
-    if (editor) {
-      const documentUri = editor.document.uri;
-      this.diagnosticCollection.delete(documentUri);
-      const fullText = editor.document.getText();
-      const document = YAML.parseDocument(fullText, { keepCstNodes: true });
-      const filePath = editor.document.fileName;
-      await this.checkYaml(fullText, documentUri, filePath, document, recurse, isRoot);
+    if (editor && this.client) {
+      await this.client.onReady();
+      const urisWithDiagnostics: string[] = await this.client.sendRequest(ExecuteCommandRequest.type, {
+        command: recurse ? Commands.VALIDATE_RECURSIVE : Commands.VALIDATE,
+        arguments: [editor.document.uri.toString()],
+      });
+
+      // If diagnostics for sub stack files were generated, open them.
+      if (recurse) {
+        const subStackUris = (urisWithDiagnostics || []).filter(uri => uri !== editor.document.uri.toString());
+        for (const uri of subStackUris) {
+          const textDocument = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+          await vscode.window.showTextDocument(textDocument);
+        }
+      }
     }
-    if (recurse && isRoot) {
+    if (recurse) {
       vscode.window.showInformationMessage('Done recursing through sub stack YAMLs');
     }
   }
 
-  public async checkYaml(
-    fullText: string,
-    documentUri: vscode.Uri,
-    filePath: string,
-    document: YAML.ast.Document,
-    recurse: boolean,
-    isRoot: boolean,
-  ): Promise<vscode.Diagnostic[]> {
-    const isCurrentlyBeingProcessed = this.urisCurrentlyBeingProcessed.indexOf(documentUri) > -1;
-    if (isCurrentlyBeingProcessed) {
-      return [];
-    }
-
-    this.diagnosticCollection.delete(documentUri);
-    try {
-      this.urisCurrentlyBeingProcessed.push(documentUri);
-      const fullTraversal = await this.traverse((document.contents as Node), fullText, filePath, documentUri, isRoot, recurse);
-      this.buildDiagnostics(fullTraversal);
-    } catch (error) {
-      console.error(`${diagnosticCollectionName} encountered an error: ${JSON.stringify(revealAllProperties(error))}`);
-    } finally {
-      this.urisCurrentlyBeingProcessed.splice(this.urisCurrentlyBeingProcessed.indexOf(documentUri), 1);
-    }
-
-    return documentUri
-      ? this.diagnosticCollection.get(documentUri) || []
-      : [];
+  public async showDependencyDiagram() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) return;
+    const svg = await this.getDependencyDiagram(editor.document.uri, DiagramFormat.SVG);
+    if (!svg) return;
+    const panel = vscode.window.createWebviewPanel(
+      'cloudFormationYamlValidatorDependencyDiagram',
+      `Dependencies: ${path.basename(editor.document.fileName)}`,
+      vscode.ViewColumn.Beside,
+      {},
+    );
+    // No scripts, the diagram is drawn entirely by the language server
+    panel.webview.html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+  <style>body { background: #fff; color: #000; }</style>
+</head>
+<body>${svg}</body>
+</html>`;
   }
 
-  private async traverse(
-    injectedNode: Node,
-    fullText: string,
-    filePath: string,
-    documentUri: vscode.Uri,
-    isRootNode: boolean,
-    recurseSubStacks: boolean,
-  ): Promise<NodeTraversal> {
-    const node = getNodeValueIfPair(injectedNode);
-    let resultantTraversal = clone(NodeTraversal.EMPTY_TRAVERSAL);
-    resultantTraversal.fullText = fullText;
-    resultantTraversal.documentUri = documentUri;
-
-    if (!node || node === EmptyNode.EMPTY_NODE) {
-      return resultantTraversal;
-    }
-
-    if (isRootNode) {
-      resultantTraversal.localReferenceables = [
-        ...getYamlNodeKeys(getNodeValueIfPair(getNodeItemByStringKey(node, 'Parameters'))),
-        ...getYamlNodeKeys(getNodeValueIfPair(getNodeItemByStringKey(node, 'Conditions'))),
-        ...getYamlNodeKeys(getNodeValueIfPair(getNodeItemByStringKey(node, 'Mappings'))),
-        ...getYamlNodeKeys(getNodeValueIfPair(getNodeItemByStringKey(node, 'Resources'))),
-      ];
-    }
-
-    // If this node is a sub stack, collect info about it
-    if (node.get && node.get('Type') === 'AWS::CloudFormation::Stack') {
-      const parentPath = `${filePath.substring(0, filePath.lastIndexOf(path.sep))}`;
-      const newReferenceables = await this.getSubStackReferenceables(fullText, documentUri, node, parentPath, recurseSubStacks);
-      resultantTraversal.subStackReferenceables = SubStack.flattenReferenceables([resultantTraversal.subStackReferenceables, newReferenceables]);
-      resultantTraversal.nodesWhichReference.push(node);
-    }
-
-    // If it's a node which can contain references, note them
-    if (node.type === NodeTypes.PLAIN || node.type === NodeTypes.QUOTE_DOUBLE || node.type === NodeTypes.QUOTE_SINGLE) {
-      // Handle nodes without a tag, these are probably first members of an !If or !FindInMap
-      const nodeTag = node.tag || node.stringKey;
-      if (nodeTag === '!If' || nodeTag === '!FindInMap' || nodeTag === 'DependsOn') {
-        resultantTraversal.nodesWhichReference = [
-          ...resultantTraversal.nodesWhichReference,
-          ...References.addToIfFindInMapDependsOn(node, nodeTag),
-        ];
-      }
-
-      if (nodeTag === '!GetAtt') {
-        resultantTraversal.nodesWhichReference = [
-          ...resultantTraversal.nodesWhichReference,
-          ...References.addToGetAtt(node),
-        ];
-      }
-
-      if (nodeTag === '!Ref') {
-        resultantTraversal.nodesWhichReference = [
-          ...resultantTraversal.nodesWhichReference,
-          ...References.addToRef(node),
-        ];
-      }
-
-      if (nodeTag === '!Sub') {
-        resultantTraversal.nodesWhichReference = [
-          ...resultantTraversal.nodesWhichReference,
-          ...References.addToSub(node),
-        ];
-      }
-    }
-
-    // If this is a map, we just need to go deeper.
-    if (node.type === NodeTypes.MAP && node.items) {
-      const traversalPromises = node.items.map((item) => {
-        item.tag = !item.tag ? node.tag : item.tag;
-        return this.traverse(item, fullText, filePath, documentUri, false, recurseSubStacks);
-      });
-      const traversals = await Promise.all(traversalPromises);
-      resultantTraversal = NodeTraversal.flatten([resultantTraversal, ...traversals]);
-    }
-
-    // If it's an array, there are some edge cases to handle
-    if (node.type === NodeTypes.FLOW_SEQ) {
-      // Clone the array (we're going to modify it) and grab the first node.
-      const items = clone(node.items);
-      const firstSubNode = items.shift();
-      if (firstSubNode) {
-        // The first node is always (?) a reference to a Map or Conditional
-        // But this first node has nothing to distinguish it as such, so propagate the parent node's tag to it
-        if (node.items[0] && !node.items[0].tag) node.items[0].tag = node.tag;
-
-        // Then, handle the nodes recursively
-        const traversalPromises = node.items.map((item) => {
-          return this.traverse(item, fullText, filePath, documentUri, false, recurseSubStacks);
-        });
-        const traversals = await Promise.all(traversalPromises);
-        resultantTraversal = NodeTraversal.flatten([resultantTraversal, ...traversals]);
-      }
-    }
-    return resultantTraversal;
+  // Opens the diagram as a new, unsaved document
+  public async exportDependencyDiagram() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) return;
+    const formats = [
+      { label: 'Graphviz DOT', format: DiagramFormat.DOT },
+      { label: 'Mermaid', format: DiagramFormat.MERMAID },
+    ];
+    const picked = await vscode.window.showQuickPick(formats, { placeHolder: 'Export the dependency diagram as' });
+    if (!picked) return;
+    const content = await this.getDependencyDiagram(editor.document.uri, picked.format);
+    if (!content) return;
+    const document = await vscode.workspace.openTextDocument({ content, language: 'plaintext' });
+    await vscode.window.showTextDocument(document);
   }
 
-  private buildDiagnostics(traversal: NodeTraversal) {
-    traversal.nodesWhichReference.forEach((node) => {
-      // If the node creates a sub stack from template...
-      if (node.get && node.get('Type') === 'AWS::CloudFormation::Stack') {
-        createDiagnosticsFromSubStackNode(node, traversal, this.diagnosticCollection);
-      } else {
-        createDiagnosticsFromReferencingNode(node, traversal, this.diagnosticCollection);
-      }
-    });
+  private async restartClient(context: vscode.ExtensionContext) {
+    await this.stopClient();
+    this.startClient(context);
   }
 
-  private async getSubStackReferenceables(
-    fullText: string,
-    documentUri: vscode.Uri,
-    subStackNode: Node,
-    parentPath: string,
-    recurse: boolean,
-  ): Promise<SubStack.Referenceables> {
-    const referenceableOutputs: string[] = [];
-    const referenceableParameters: SubStack.ParameterReferenceablesMap = {};
-    const properties = subStackNode.get('Properties') as Node;
-    const templateUrl = (properties as Node).get('TemplateURL');
-    if (typeof templateUrl === 'string') {
-      const filePath = `${parentPath}${path.sep}${templateUrl}`;
-      try {
-        referenceableParameters[templateUrl] = [];
-        const fileText = fs.readFileSync(filePath, 'utf8');
-        const document: any = YAML.parseDocument(fileText, { keepCstNodes: true });
-
-        // Build the list of referenceable Outputs
-        const outputs = document.contents.get('Outputs');
-        const outputKeys = getYamlNodeKeys(outputs);
-        outputKeys.forEach((key) => {
-          referenceableOutputs.push(`${subStackNode.stringKey}.Outputs.${key}`);
-        });
+  private async stopClient() {
+    const client = this.client;
+    this.client = undefined;
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.watchers = [];
+    if (client) await client.stop();
+  }
 
-        // Build the list of referenceable parameters
-        const parameters: Node = document.contents.get('Parameters');
-        if (parameters && parameters.items) {
-          parameters.items.forEach((item) => {
-            if (item.type === NodeTypes.PAIR && item.value && !(typeof item.value === 'string')) {
-              const defaultValue = item.value.get('Default');
-              referenceableParameters[templateUrl].push({
-                parameterName: item.stringKey as string,
-                hasDefault: hasValue(defaultValue),
-              });
+  private startClient(context: vscode.ExtensionContext) {
+    const serverModule = context.asAbsolutePath(path.join('out', 'src', 'server', 'index.js'));
+    const serverOptions: ServerOptions = {
+      run: { module: serverModule, transport: TransportKind.ipc },
+      debug: { module: serverModule, transport: TransportKind.ipc, options: { execArgv: ['--nolazy', '--inspect=6009'] } },
+    };
+    // Parameter files are JSON or Key=Value text, so they are picked out by name or by the parameterFiles setting
+    const settings: Settings = vscode.workspace.getConfiguration().get(Settings.SECTION) || {};
+    const workspaceFolder = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0];
+    const associatedParameterFilePaths = workspaceFolder
+      ? Object.keys(settings.parameterFiles || {}).map(parameterFilePath => path.resolve(workspaceFolder.uri.fsPath, parameterFilePath))
+      : [];
+    const associatedParameterFiles = associatedParameterFilePaths.map(parameterFilePath => ({ scheme: 'file', pattern: parameterFilePath }));
+    // Templates which aren't open can still export values the open ones import, and parameter files are checked against them
+    this.watchers = [
+      vscode.workspace.createFileSystemWatcher(Workspace.TEMPLATE_GLOB),
+      vscode.workspace.createFileSystemWatcher(ParameterFiles.GLOB),
+      ...associatedParameterFilePaths.map(parameterFilePath => vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(path.dirname(parameterFilePath), path.basename(parameterFilePath)),
+      )),
+    ];
+    const clientOptions: LanguageClientOptions = {
+      diagnosticCollectionName,
+      documentSelector: [
+        { scheme: 'file', language: 'yaml' },
+        // JSON documents which aren't templates are ignored by the server
+        { scheme: 'file', language: 'json' },
+        { scheme: 'file', pattern: '**/*.template' },
+        { scheme: 'file', pattern: ParameterFiles.GLOB },
+        ...associatedParameterFiles,
+      ],
+      initializationOptions: vscode.workspace.getConfiguration().get(Settings.SECTION),
+      synchronize: {
+        configurationSection: Settings.SECTION,
+        fileEvents: this.watchers,
+      },
+      middleware: {
+        // This version of the protocol can't carry diagnostic tags, so unused declarations are recognized by their code
+        handleDiagnostics: (uri, diagnostics, next) => {
+          diagnostics.forEach((diagnostic) => {
+            if (unnecessaryCodes.indexOf(diagnostic.code as DiagnosticCodes) > -1) {
+              diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
             }
           });
-        }
-
-        if (recurse) {
-          // Gather information necessary to check the file
-          const uriString = `file://${filePath}`;
-          const documentUri = vscode.Uri.parse(uriString);
-          const diagnostics = await this.checkYaml(fileText, documentUri, filePath, document, recurse, true);
-          // If diagnostics for that file were generated, open it.
-          if (diagnostics.length > 0) {
-            const textDocument = await vscode.workspace.openTextDocument(filePath);
-            await vscode.window.showTextDocument(textDocument);
-          }
-        }
-      } catch (error) {
-        // This error was almost certainly because the file couldn't be read or does not exist.
-        const templateUrlNodePair = getNodeItemByStringKey(properties, 'TemplateURL');
-        const templateUrlNodeValue = templateUrlNodePair.value as Node;
-        const templateUrl = templateUrlNodeValue.value as string;
-        const position = getRowColumnPosition(fullText, templateUrlNodeValue.range[0]);
-        const diagnostic = createDiagnostic(
-          position,
-          templateUrl.length,
-          vscode.DiagnosticSeverity.Error,
-          `Unable to load or parse template file, '${filePath}'. Error encountered: ${JSON.stringify(revealAllProperties(error))}`,
-        );
-        addDiagnostic(documentUri, diagnostic, this.diagnosticCollection);
-      }
-    }
-    return {
-      outputs: referenceableOutputs,
-      parameters: referenceableParameters,
+          next(uri, diagnostics);
+        },
+      },
     };
+    this.client = new LanguageClient('cloudFormationYamlValidator', validatorName, serverOptions, clientOptions);
+    this.client.start();
+  }
+
+  private async getDependencyDiagram(uri: vscode.Uri, format: DiagramFormat): Promise<string | undefined> {
+    if (!this.client) return undefined;
+    await this.client.onReady();
+    return this.client.sendRequest(ExecuteCommandRequest.type, {
+      command: Commands.DEPENDENCY_DIAGRAM,
+      arguments: [uri.toString(), format],
+    });
   }
 }
@@ -0,0 +1,389 @@
+import clone from 'lodash.clonedeep';
+import fs from 'fs';
+import YAML from 'yaml';
+
+import {
+  createDiagnostic,
+  createDiagnosticsFromSubStackNode,
+  createDiagnosticsFromReferencingNode,
+  createDiagnosticsFromUnusedDeclarations,
+  createDiagnosticsFromUnusedOutputs,
+  createDiagnosticsFromExportsAndImports,
+  createDiagnosticsFromCircularDependencies,
+  createDiagnosticsFromPseudoParameters,
+  createDiagnosticsFromMappings,
+  createDiagnosticsFromConditions,
+  createDiagnosticsFromConditionalReferences,
+  createDiagnosticsFromParameters,
+  createDiagnosticsFromParameterFile,
+  createDiagnosticsFromServerless,
+  addDiagnostic,
+  Diagnostic,
+  DiagnosticCodes,
+  DiagnosticCollection,
+  DiagnosticSeverity,
+} from './common/Diagnostics';
+import { getYamlNodeKeys, getNodeValueIfPair, getNodeItemByStringKey, getNodeTag, getResourceTypes, getValueStart, EmptyNode } from './Yaml';
+import { Node } from './Yaml/Node';
+import { NodeTypes } from './Yaml/NodeTypes';
+import { revealAllProperties } from './common';
+import { getRowColumnPosition } from './common/RowColumnPosition';
+import { References } from './Yaml/References';
+import { NodeTraversal } from './Yaml/NodeTraversal';
+import { SubStack } from './common/SubStack';
+import { ResourceSpecification } from './common/ResourceSpecification';
+import { ExportIndex } from './common/Exports';
+import { ParameterFiles } from './common/ParameterFiles';
+import { Serverless } from './common/Serverless';
+
+export const validatorName = 'CloudFormation Yaml Validator';
+
+// Everything in here must stay free of the vscode API, it is shared by the extension and the command line
+export class Validator {
+  public readonly diagnosticCollection: DiagnosticCollection = new DiagnosticCollection();
+  public filesCurrentlyBeingProcessed: string[] = [];
+
+  // The outputs which parent stacks use, keyed by the sub stack template's path
+  private readonly consumedSubStackOutputs: { [filePath: string]: string[] } = {};
+  private readonly validatedTemplates: { [filePath: string]: { fullText: string, rootNode: Node } } = {};
+
+  // Without an export index, Fn::ImportValue and Export names aren't checked
+  constructor(
+    private readonly resourceSpecification: ResourceSpecification = ResourceSpecification.load(),
+    private readonly exportIndex?: ExportIndex,
+    private readonly templateUrlMappings: SubStack.TemplateUrlMappings = {},
+  ) { }
+
+  public async checkFile(filePath: string, recurse: boolean): Promise<Diagnostic[]> {
+    const fullText = fs.readFileSync(filePath, 'utf8');
+    const document = YAML.parseDocument(fullText, { keepCstNodes: true });
+    return this.checkYaml(fullText, filePath, document, recurse, true);
+  }
+
+  public async checkYaml(
+    fullText: string,
+    filePath: string,
+    document: YAML.ast.Document,
+    recurse: boolean,
+    isRoot: boolean,
+  ): Promise<Diagnostic[]> {
+    const isCurrentlyBeingProcessed = this.filesCurrentlyBeingProcessed.indexOf(filePath) > -1;
+    if (isCurrentlyBeingProcessed) {
+      return [];
+    }
+
+    // Keep an empty entry so that files which validate cleanly are still reported
+    this.diagnosticCollection.set(filePath, []);
+    this.validatedTemplates[filePath] = { fullText, rootNode: document.contents as Node };
+    try {
+      this.filesCurrentlyBeingProcessed.push(filePath);
+      const fullTraversal = await this.traverse((document.contents as Node), document.contents as Node, fullText, filePath, isRoot, recurse);
+      this.buildDiagnostics(fullTraversal, document.contents as Node);
+    } catch (error) {
+      console.error(`${validatorName} encountered an error: ${JSON.stringify(revealAllProperties(error))}`);
+    } finally {
+      this.filesCurrentlyBeingProcessed.splice(this.filesCurrentlyBeingProcessed.indexOf(filePath), 1);
+    }
+
+    // Sub stack templates are checked before their parents are done, so wait for everything to finish
+    if (this.filesCurrentlyBeingProcessed.length === 0) {
+      this.buildUnusedOutputDiagnostics();
+    }
+
+    return this.diagnosticCollection.get(filePath) || [];
+  }
+
+  public checkParameterFile(filePath: string, templatePath: string): Diagnostic[] {
+    return this.checkParameterText(fs.readFileSync(filePath, 'utf8'), filePath, fs.readFileSync(templatePath, 'utf8'));
+  }
+
+  // Checks the values a parameter file gives the template it is deployed with, the diagnostics are for the parameter file
+  public checkParameterText(fullText: string, filePath: string, templateFullText: string): Diagnostic[] {
+    this.diagnosticCollection.set(filePath, []);
+    const parameterFile = ParameterFiles.parse(fullText);
+    if (!parameterFile) {
+      const firstLine = fullText.split('\n')[0];
+      const message = 'Unable to parse parameter file, expected a list of ParameterKey and ParameterValue, {"Parameters": {...}} or Key=Value lines';
+      const diagnostic = createDiagnostic(getRowColumnPosition(fullText, 0), firstLine.length, DiagnosticSeverity.Error, message, DiagnosticCodes.UNPARSEABLE_PARAMETER_FILE);
+      addDiagnostic(filePath, diagnostic, this.diagnosticCollection);
+      return this.diagnosticCollection.get(filePath) || [];
+    }
+    const templateRootNode = YAML.parseDocument(templateFullText, { keepCstNodes: true }).contents as Node;
+    const referenceableParameters = SubStack.getParameterReferenceables(templateRootNode);
+    createDiagnosticsFromParameterFile(parameterFile, fullText, filePath, referenceableParameters, this.diagnosticCollection);
+    return this.diagnosticCollection.get(filePath) || [];
+  }
+
+  // Notes which sub stack outputs a template uses, without validating it
+  public async addParentTemplate(fullText: string, filePath: string, document: YAML.ast.Document) {
+    // A separate validator, so that the parent's own problems are not reported
+    const traversal = await new Validator(this.resourceSpecification, undefined, this.templateUrlMappings).getTraversal(fullText, filePath, document);
+    this.recordConsumedOutputs(traversal);
+  }
+
+  // Collects references and referenceables without building diagnostics, used by the language features
+  public async getTraversal(fullText: string, filePath: string, document: YAML.ast.Document): Promise<NodeTraversal> {
+    return this.traverse((document.contents as Node), document.contents as Node, fullText, filePath, true, false);
+  }
+
+  // The root is passed down for looking up parameter defaults, which keep their tags as written, since only the items of
+  // tagged maps and sequences are retagged and the Parameters section is under the untagged root
+  private async traverse(
+    injectedNode: Node,
+    rootNode: Node,
+    fullText: string,
+    filePath: string,
+    isRootNode: boolean,
+    recurseSubStacks: boolean,
+  ): Promise<NodeTraversal> {
+    const node = getNodeValueIfPair(injectedNode);
+    let resultantTraversal = clone(NodeTraversal.EMPTY_TRAVERSAL);
+    resultantTraversal.fullText = fullText;
+    resultantTraversal.filePath = filePath;
+
+    if (!node || node === EmptyNode.EMPTY_NODE) {
+      return resultantTraversal;
+    }
+
+    if (isRootNode) {
+      // The serverless transform adds resources which can be referenced without being declared
+      const implicitResources = Serverless.getImplicitResources(node);
+      resultantTraversal.localReferenceables = [
+        ...getYamlNodeKeys(getNodeValueIfPair(getNodeItemByStringKey(node, 'Parameters'))),
+        ...getYamlNodeKeys(getNodeValueIfPair(getNodeItemByStringKey(node, 'Conditions'))),
+        ...getYamlNodeKeys(getNodeValueIfPair(getNodeItemByStringKey(node, 'Mappings'))),
+        ...getYamlNodeKeys(getNodeValueIfPair(getNodeItemByStringKey(node, 'Resources'))),
+        ...Object.keys(implicitResources),
+      ];
+      resultantTraversal.resourceTypes = { ...implicitResources, ...getResourceTypes(node) };
+    }
+
+    // If this node is a sub stack, collect info about it
+    const templateUrlProperty = SubStack.getTemplateUrlProperty(node);
+    if (templateUrlProperty) {
+      const templateUrlNode = getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(getNodeItemByStringKey(node, 'Properties')), templateUrlProperty));
+      const location = templateUrlNode.type === NodeTypes.EMPTY
+        ? {}
+        : SubStack.locateTemplate(rootNode, filePath, templateUrlNode, this.templateUrlMappings);
+      resultantTraversal.subStackTemplates[node.stringKey as string] = location;
+      const newReferenceables = await this.getSubStackReferenceables(fullText, filePath, node, location, recurseSubStacks);
+      resultantTraversal.subStackReferenceables = SubStack.flattenReferenceables([resultantTraversal.subStackReferenceables, newReferenceables]);
+      resultantTraversal.nodesWhichReference.push(node);
+    }
+
+    // If it's a node which can contain references, note them
+    if (node.type === NodeTypes.PLAIN || node.type === NodeTypes.QUOTE_DOUBLE || node.type === NodeTypes.QUOTE_SINGLE) {
+      // Handle nodes without a tag, these are probably first members of an !If or !FindInMap
+      // Long forms, like 'Ref: X' or 'Fn::Sub: ...', are handled the same as their short form tags
+      const nodeTag = getNodeTag(node);
+      if (nodeTag === '!If' || nodeTag === '!FindInMap' || nodeTag === 'DependsOn' || nodeTag === 'Condition' || nodeTag === '!Condition') {
+        resultantTraversal.nodesWhichReference = [
+          ...resultantTraversal.nodesWhichReference,
+          ...References.addToIfFindInMapDependsOn(node, nodeTag),
+        ];
+      }
+
+      if (nodeTag === '!GetAtt') {
+        resultantTraversal.nodesWhichReference = [
+          ...resultantTraversal.nodesWhichReference,
+          ...References.addToGetAtt(node),
+        ];
+      }
+
+      if (nodeTag === '!Ref') {
+        resultantTraversal.nodesWhichReference = [
+          ...resultantTraversal.nodesWhichReference,
+          ...References.addToRef(node),
+        ];
+      }
+
+      if (nodeTag === '!Sub') {
+        resultantTraversal.nodesWhichReference = [
+          ...resultantTraversal.nodesWhichReference,
+          ...References.addToSub(node),
+        ];
+      }
+    }
+
+    // If this is a map, we just need to go deeper.
+    if ((node.type === NodeTypes.MAP || node.type === NodeTypes.FLOW_MAP) && node.items) {
+      const traversalPromises = node.items.map((item) => {
+        item.tag = !item.tag ? node.tag : item.tag;
+        return this.traverse(item, rootNode, fullText, filePath, false, recurseSubStacks);
+      });
+      const traversals = await Promise.all(traversalPromises);
+      resultantTraversal = NodeTraversal.flatten([resultantTraversal, ...traversals]);
+    }
+
+    // If it's an array, there are some edge cases to handle
+    if ((node.type === NodeTypes.FLOW_SEQ || node.type === NodeTypes.SEQ) && node.items) {
+      // Clone the array (we're going to modify it) and grab the first node.
+      const items = clone(node.items);
+      const firstSubNode = items.shift();
+      if (firstSubNode) {
+        const sequenceTag = getNodeTag(node);
+        const firstTag = node.items[0] && node.items[0].tag;
+        if (sequenceTag === '!Sub') {
+          // The list form, !Sub [template, variables]
+          resultantTraversal.nodesWhichReference = [
+            ...resultantTraversal.nodesWhichReference,
+            ...References.addToSubWithVariables(node),
+          ];
+        } else if (sequenceTag === '!GetAtt') {
+          // The list form, !GetAtt [Resource, Attribute]
+          resultantTraversal.nodesWhichReference = [
+            ...resultantTraversal.nodesWhichReference,
+            ...References.addToGetAttList(node),
+          ];
+        } else if (sequenceTag === 'DependsOn') {
+          resultantTraversal.nodesWhichReference = [
+            ...resultantTraversal.nodesWhichReference,
+            ...References.addToDependsOnList(node),
+          ];
+        } else if (sequenceTag && sequenceTag.startsWith('!') && !(firstTag && firstTag.startsWith('!'))) {
+          // The first node is always (?) a reference to a Map or Conditional
+          // But this first node has nothing to distinguish it as such, so propagate the parent node's tag to it
+          node.items[0].tag = sequenceTag;
+        }
+
+        // Then, handle the nodes recursively
+        const traversalPromises = node.items.map((item) => {
+          return this.traverse(item, rootNode, fullText, filePath, false, recurseSubStacks);
+        });
+        const traversals = await Promise.all(traversalPromises);
+        resultantTraversal = NodeTraversal.flatten([resultantTraversal, ...traversals]);
+      }
+    }
+    return resultantTraversal;
+  }
+
+  private buildDiagnostics(traversal: NodeTraversal, rootNode: Node) {
+    traversal.nodesWhichReference.forEach((node) => {
+      // If the node creates a sub stack from template...
+      if (SubStack.isSubStack(node)) {
+        createDiagnosticsFromSubStackNode(node, rootNode, traversal, this.diagnosticCollection);
+      } else {
+        createDiagnosticsFromReferencingNode(node, traversal, this.resourceSpecification, this.diagnosticCollection);
+      }
+    });
+    createDiagnosticsFromUnusedDeclarations(rootNode, traversal, this.diagnosticCollection);
+    createDiagnosticsFromCircularDependencies(rootNode, traversal, this.diagnosticCollection);
+    createDiagnosticsFromParameters(rootNode, traversal, this.diagnosticCollection);
+    createDiagnosticsFromPseudoParameters(rootNode, traversal, this.diagnosticCollection);
+    createDiagnosticsFromMappings(rootNode, traversal, this.diagnosticCollection);
+    createDiagnosticsFromConditions(rootNode, traversal, this.diagnosticCollection);
+    createDiagnosticsFromConditionalReferences(rootNode, traversal, this.diagnosticCollection);
+    createDiagnosticsFromServerless(rootNode, traversal, this.diagnosticCollection);
+    if (this.exportIndex) {
+      createDiagnosticsFromExportsAndImports(rootNode, traversal.fullText, traversal.filePath, this.exportIndex, this.diagnosticCollection);
+    }
+    this.recordConsumedOutputs(traversal);
+  }
+
+  private recordConsumedOutputs(traversal: NodeTraversal) {
+    traversal.nodesWhichReference.forEach((node) => {
+      if (!SubStack.isSubStack(node)) return;
+      const location = traversal.subStackTemplates[node.stringKey as string];
+      if (!location || !location.filePath) return;
+      const subStackFilePath = location.filePath;
+      const consumedOutputs = this.consumedSubStackOutputs[subStackFilePath] || [];
+      traversal.nodesWhichReference.forEach((referencingNode) => {
+        (referencingNode.references || []).forEach((reference) => {
+          const keyPieces = reference.referencedKey.split('.');
+          if (keyPieces[0] === node.stringKey && keyPieces[1] === 'Outputs' && consumedOutputs.indexOf(keyPieces[2]) < 0) {
+            consumedOutputs.push(keyPieces[2]);
+          }
+        });
+      });
+      this.consumedSubStackOutputs[subStackFilePath] = consumedOutputs;
+    });
+  }
+
+  // Only for sub stack templates which were validated and have a known parent
+  private buildUnusedOutputDiagnostics() {
+    Object.keys(this.consumedSubStackOutputs).forEach((filePath) => {
+      const diagnostics = this.diagnosticCollection.get(filePath);
+      const template = this.validatedTemplates[filePath];
+      if (!diagnostics || !template) return;
+      // Replace the ones from any earlier run, more parents may be known now
+      this.diagnosticCollection.set(filePath, diagnostics.filter(diagnostic => diagnostic.code !== DiagnosticCodes.UNUSED_SUB_STACK_OUTPUT));
+      createDiagnosticsFromUnusedOutputs(
+        template.rootNode,
+        template.fullText,
+        filePath,
+        this.consumedSubStackOutputs[filePath],
+        this.diagnosticCollection,
+      );
+    });
+  }
+
+  private async getSubStackReferenceables(
+    fullText: string,
+    parentFilePath: string,
+    subStackNode: Node,
+    location: SubStack.TemplateLocation,
+    recurse: boolean,
+  ): Promise<SubStack.Referenceables> {
+    const referenceableOutputs: string[] = [];
+    const referenceableParameters: SubStack.ParameterReferenceablesMap = {};
+    const properties = subStackNode.get('Properties') as Node;
+    const templateUrlProperty = SubStack.getTemplateUrlProperty(subStackNode) as string;
+    const templateUrlPosition = getTemplateUrlPosition(properties, templateUrlProperty);
+    if (location.problem) {
+      // Nothing can be checked against the sub stack template, which is only a problem when the URL is wrong
+      const position = getRowColumnPosition(fullText, templateUrlPosition.absolutePosition);
+      const message = `Sub stack template is not checked, unable to resolve ${templateUrlProperty}: ${location.problem}`;
+      const diagnostic = createDiagnostic(position, templateUrlPosition.length, DiagnosticSeverity.Information, message, DiagnosticCodes.UNRESOLVED_TEMPLATE_URL);
+      addDiagnostic(parentFilePath, diagnostic, this.diagnosticCollection);
+    }
+    if (location.url !== undefined && location.filePath !== undefined) {
+      const templateUrl = location.url;
+      const filePath = location.filePath;
+      try {
+        referenceableParameters[templateUrl] = [];
+        const fileText = fs.readFileSync(filePath, 'utf8');
+        const document: any = YAML.parseDocument(fileText, { keepCstNodes: true });
+
+        // Build the list of referenceable Outputs
+        const outputs = document.contents.get('Outputs');
+        const outputKeys = getYamlNodeKeys(outputs);
+        outputKeys.forEach((key) => {
+          referenceableOutputs.push(`${subStackNode.stringKey}.Outputs.${key}`);
+        });
+
+        // Build the list of referenceable parameters
+        referenceableParameters[templateUrl] = SubStack.getParameterReferenceables(document.contents);
+
+        if (recurse) {
+          await this.checkYaml(fileText, filePath, document, recurse, true);
+        }
+      } catch (error) {
+        // This error was almost certainly because the file couldn't be read or does not exist.
+        const position = getRowColumnPosition(fullText, templateUrlPosition.absolutePosition);
+        const diagnostic = createDiagnostic(
+          position,
+          templateUrlPosition.length,
+          DiagnosticSeverity.Error,
+          `Unable to load or parse template file, '${filePath}'. Error encountered: ${JSON.stringify(revealAllProperties(error))}`,
+          DiagnosticCodes.UNLOADABLE_TEMPLATE,
+        );
+        addDiagnostic(parentFilePath, diagnostic, this.diagnosticCollection);
+      }
+    }
+    return {
+      outputs: referenceableOutputs,
+      parameters: referenceableParameters,
+    };
+  }
+}
+
+// The TemplateURL's text when it is a literal or a !Sub, otherwise its key
+function getTemplateUrlPosition(properties: Node, templateUrlProperty: string): { absolutePosition: number, length: number } {
+  const pair = getNodeItemByStringKey(properties, templateUrlProperty);
+  const value = getNodeValueIfPair(pair);
+  const longFormValue = value.items && value.items.length === 1 && value.items[0].stringKey === 'Fn::Sub' ? getNodeValueIfPair(value.items[0]) : value;
+  if (typeof longFormValue.value === 'string' && longFormValue.range) {
+    return { absolutePosition: getValueStart(longFormValue), length: longFormValue.value.length };
+  }
+  return { absolutePosition: pair.key.range[0], length: templateUrlProperty.length };
+}
@@ -1,23 +1,28 @@
-import vscode from 'vscode';
 import { Node } from './Node';
 import { SubStack } from '../common/SubStack';
 import clone from 'lodash.clonedeep';
 
 export interface NodeTraversal {
   fullText: string;
-  documentUri: vscode.Uri;
+  filePath: string;
   nodesWhichReference: Node[];
   localReferenceables: string[];
+  // The Type of each resource, keyed by logical ID
+  resourceTypes: { [logicalId: string]: string };
   subStackReferenceables: SubStack.Referenceables;
+  // Where each sub stack's TemplateURL points, keyed by the sub stack's logical ID
+  subStackTemplates: { [logicalId: string]: SubStack.TemplateLocation };
 }
 
 export namespace NodeTraversal {
   export const EMPTY_TRAVERSAL: NodeTraversal = {
     nodesWhichReference: [],
     localReferenceables: [],
+    resourceTypes: {},
     subStackReferenceables: { outputs: [], parameters: {} },
+    subStackTemplates: {},
     fullText: '',
-    documentUri: undefined as any,
+    filePath: '',
   };
   export function flatten(nodeTraversal: NodeTraversal[]) {
     const flattenedTraversal = clone(NodeTraversal.EMPTY_TRAVERSAL);
@@ -26,13 +31,21 @@ export namespace NodeTraversal {
         ...flattenedTraversal.localReferenceables,
         ...nodeTraversal.localReferenceables,
       ];
+      flattenedTraversal.resourceTypes = {
+        ...flattenedTraversal.resourceTypes,
+        ...nodeTraversal.resourceTypes,
+      };
       flattenedTraversal.nodesWhichReference = [
         ...flattenedTraversal.nodesWhichReference,
         ...nodeTraversal.nodesWhichReference,
       ];
+      flattenedTraversal.subStackTemplates = {
+        ...flattenedTraversal.subStackTemplates,
+        ...nodeTraversal.subStackTemplates,
+      };
       flattenedTraversal.subStackReferenceables = SubStack.flattenReferenceables([flattenedTraversal.subStackReferenceables, nodeTraversal.subStackReferenceables]);
       flattenedTraversal.fullText = nodeTraversal.fullText;
-      flattenedTraversal.documentUri = nodeTraversal.documentUri;
+      flattenedTraversal.filePath = nodeTraversal.filePath;
     });
 
     return flattenedTraversal;
@@ -1,8 +1,10 @@
 export enum NodeTypes {
   MAP = 'MAP',
+  FLOW_MAP = 'FLOW_MAP',
   PAIR = 'PAIR',
   PLAIN = 'PLAIN',
   FLOW_SEQ = 'FLOW_SEQ',
+  SEQ = 'SEQ',
   QUOTE_DOUBLE = 'QUOTE_DOUBLE',
   QUOTE_SINGLE = 'QUOTE_SINGLE',
   EMPTY = 'EMPTY',
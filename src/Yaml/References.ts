@@ -1,4 +1,6 @@
 import { Node } from './Node';
+import { NodeTypes } from './NodeTypes';
+import { getSourcePosition, getValueStart, getYamlNodeKeys } from '.';
 import { Maps } from '../common/Maps';
 import { ReferenceTypes } from '../common/ReferenceTypes';
 
@@ -11,56 +13,79 @@ export namespace References {
     while ((match = (regEx.exec(nodeValue.value as string) as RegExpExecArray)) != null) {
       // Trim the ${} off of the match
       const referencedKey = match[0].substring(2, match[0].length - 1);
-      if (!referencedKey.startsWith('AWS::')) {
-        const quotesOffset = Maps.nodeTypeToSubOffset[nodeValue.type];
-        const reference = {
-          referencedKey,
-          type: ReferenceTypes.SUB,
-          // Add 5 because '!Sub ' is 5 and the range begins at the beginning of the field
-          // Add 2 because we've trimmed off '${'
-          // Add an offset for quotes (or not)
-          absoluteKeyPosition: nodeValue.range[0] + 5 + quotesOffset + 2 + match.index,
-        };
-        nodeValue.references.push(reference);
-      }
+      const reference = {
+        referencedKey,
+        type: ReferenceTypes.SUB,
+        // Add 2 because we've trimmed off '${'
+        absoluteKeyPosition: getSourcePosition(nodeValue, match.index + 2),
+      };
+      nodeValue.references.push(reference);
     }
     return [nodeValue];
   }
 
   export function addToRef(nodeValue: Node): Node[] {
-    const referencedKey = nodeValue.value as string;
-    if (!referencedKey.startsWith('AWS::')) {
-      nodeValue.references = [{
-        referencedKey,
-        type: ReferenceTypes.REF,
-        // Add 5 because '!Ref ' is 5 and the range begins at the beginning of the field
-        absoluteKeyPosition: nodeValue.range[0] + 5,
-      }];
-      return [nodeValue];
-    }
-    return [];
+    // Pseudo parameters, like AWS::Region, are kept too so that they can be checked
+    nodeValue.references = [{
+      type: ReferenceTypes.REF,
+      referencedKey: nodeValue.value as string,
+      absoluteKeyPosition: getValueStart(nodeValue),
+    }];
+    return [nodeValue];
   }
 
   export function addToGetAtt(nodeValue: Node): Node[] {
     nodeValue.references = [{
       type: ReferenceTypes.GET_ATT,
       referencedKey: nodeValue.value as string,
-      // Add 8 because '!GetAtt ' is 8 and the range begins at the beginning of the field
-      absoluteKeyPosition: nodeValue.range[0] + 8,
+      absoluteKeyPosition: getValueStart(nodeValue),
     }];
     return [nodeValue];
   }
 
   export function addToIfFindInMapDependsOn(nodeValue: Node, nodeTag: string): Node[] {
-    const referencedKey = nodeValue.value as string;
-    if (!referencedKey.startsWith('AWS::')) {
-      nodeValue.references = [{
-        referencedKey,
-        type: Maps.nodeTagToReferenceType[nodeTag],
-        absoluteKeyPosition: nodeValue.range[0],
-      }];
-      return [nodeValue];
-    }
-    return [];
+    nodeValue.references = [{
+      type: Maps.nodeTagToReferenceType[nodeTag],
+      referencedKey: nodeValue.value as string,
+      absoluteKeyPosition: getValueStart(nodeValue),
+    }];
+    return [nodeValue];
+  }
+
+  // !Sub [template, { Variable: value }], where the variables are only referenceable in that template
+  export function addToSubWithVariables(sequenceNode: Node): Node[] {
+    const [template, variables] = sequenceNode.items;
+    if (!isStringScalar(template)) return [];
+    addToSub(template);
+    const variableNames = getYamlNodeKeys(variables);
+    template.references = template.references.filter(reference => variableNames.indexOf(reference.referencedKey) < 0);
+    return [template];
+  }
+
+  // !GetAtt [Resource, Attribute], which is checked like !GetAtt Resource.Attribute
+  export function addToGetAttList(sequenceNode: Node): Node[] {
+    const [resource, attribute] = sequenceNode.items;
+    if (!isStringScalar(resource) || !isStringScalar(attribute)) return [];
+    resource.references = [{
+      type: ReferenceTypes.GET_ATT,
+      referencedKey: `${resource.value}.${attribute.value}`,
+      absoluteKeyPosition: getValueStart(resource),
+      attributePosition: getValueStart(attribute),
+    }];
+    return [resource];
+  }
+
+  // DependsOn: [First, Second], where every item is a resource
+  export function addToDependsOnList(sequenceNode: Node): Node[] {
+    const resources: Node[] = [];
+    sequenceNode.items.forEach((item) => {
+      if (isStringScalar(item)) resources.push(...addToIfFindInMapDependsOn(item, 'DependsOn'));
+    });
+    return resources;
+  }
+
+  function isStringScalar(node: Node | undefined): node is Node {
+    if (!node || typeof node.value !== 'string') return false;
+    return node.type === NodeTypes.PLAIN || node.type === NodeTypes.QUOTE_DOUBLE || node.type === NodeTypes.QUOTE_SINGLE;
   }
 }
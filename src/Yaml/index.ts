@@ -2,6 +2,7 @@ import get from 'lodash.get';
 
 import { Node } from './Node';
 import { NodeTypes } from './NodeTypes';
+import { Maps } from '../common/Maps';
 
 export class EmptyNode {
   public static readonly EMPTY_NODE: Node = {
@@ -32,6 +33,8 @@ export function getNodeValueIfPair(node: Node): Node {
   if (!node || node.type === NodeTypes.EMPTY) return EmptyNode.EMPTY_NODE;
   // If it's a pair, get the value, otherwise just keep the node
   const nodeValue = (node.type === NodeTypes.PAIR ? get(node, 'value') : node) as Node;
+  // Pairs without a value, like 'Key:', have a null value
+  if (!nodeValue) return EmptyNode.EMPTY_NODE;
   // If the pair value doesn't have its own key, set it to the key of the pair
   nodeValue.stringKey = nodeValue.stringKey ? nodeValue.stringKey : node.stringKey;
   return nodeValue;
@@ -46,3 +49,95 @@ export function getNodeItemByStringKey(node: Node, stringKey: string): Node {
   });
   return item ? item : EmptyNode.EMPTY_NODE;
 }
+
+// An explicit tag like '!Ref', the short form of a long form intrinsic function like 'Ref: X', or failing those the node's key
+export function getNodeTag(node: Node): string | undefined {
+  if (node.tag && node.tag.startsWith('!')) return node.tag;
+  if (node.stringKey && Maps.longFormToShortForm[node.stringKey]) return Maps.longFormToShortForm[node.stringKey];
+  return node.stringKey;
+}
+
+// The tag as it is written in the template, validating copies tags onto the items of tagged maps and sequences
+export function getWrittenTag(node: Node): string | undefined {
+  const cstNode = node.cstNode as any;
+  if (!cstNode) return node.tag || undefined;
+  const tag = cstNode.tag;
+  if (!tag) return undefined;
+  return tag.verbatim !== undefined ? tag.verbatim : `${tag.handle}${tag.suffix}`;
+}
+
+// Where a scalar's value begins, after any tag and opening quote
+export function getValueStart(node: Node): number {
+  const cstNode = node.cstNode as any;
+  const start = cstNode && cstNode.valueRange ? cstNode.valueRange.start : node.range[0];
+  return start + (Maps.nodeTypeToSubOffset[node.type] || 0);
+}
+
+// Where a character of a scalar's value is written, escapes like '\n' in JSON strings or '' in single quotes take up more than one
+export function getSourcePosition(node: Node, valueIndex: number): number {
+  const cstNode = node.cstNode as any;
+  const start = getValueStart(node);
+  const isQuoted = node.type === NodeTypes.QUOTE_DOUBLE || node.type === NodeTypes.QUOTE_SINGLE;
+  if (!isQuoted || !cstNode || !cstNode.context) return start + valueIndex;
+  const source: string = cstNode.context.src;
+  let position = start;
+  for (let index = 0; index < valueIndex; index += 1) {
+    position += getEscapedLength(source, position, node.type);
+  }
+  return position;
+}
+
+// How much of the source one character of the value takes up, line folding in multi-line quoted scalars isn't accounted for
+function getEscapedLength(source: string, position: number, type: NodeTypes): number {
+  if (type === NodeTypes.QUOTE_SINGLE) return source.substr(position, 2) === '\'\'' ? 2 : 1;
+  if (source[position] !== '\\') return 1;
+  const hexadecimalEscapeLengths = { x: 4, u: 6, U: 10 };
+  return hexadecimalEscapeLengths[source[position + 1]] || 2;
+}
+
+// Strings, numbers and booleans which aren't an intrinsic function
+export function isLiteral(node: Node): boolean {
+  const isScalar = node.type === NodeTypes.PLAIN || node.type === NodeTypes.QUOTE_DOUBLE || node.type === NodeTypes.QUOTE_SINGLE;
+  const isFunction = !!node.tag && node.tag.startsWith('!');
+  return isScalar && !isFunction && node.value !== null && typeof node.value !== 'object';
+}
+
+// Each resource's Type, keyed by its logical ID, resources without a plain Type are left out
+export function getResourceTypes(rootNode: Node): { [logicalId: string]: string } {
+  const resourceTypes = {};
+  const resources = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Resources'));
+  (resources.items || []).forEach((item) => {
+    const resource = getNodeValueIfPair(item);
+    const resourceType = resource.get ? resource.get('Type') : undefined;
+    if (item.stringKey && typeof resourceType === 'string') resourceTypes[item.stringKey] = resourceType;
+  });
+  return resourceTypes;
+}
+
+// The argument lists of every call of an intrinsic function in or under the node, in either form, like '!If [...]' and 'Fn::If: [...]'
+export function getFunctionArguments(node: Node, longForm: string): Node[][] {
+  if (!node || node.type === NodeTypes.EMPTY) return [];
+  if (node.type === NodeTypes.PAIR) {
+    const value = getNodeValueIfPair(node);
+    const calls = node.stringKey === longForm && isSequence(value) ? [value.items] : [];
+    return [...calls, ...getFunctionArguments(value, longForm)];
+  }
+  const calls = node.tag === Maps.longFormToShortForm[longForm] && isSequence(node) ? [node.items] : [];
+  (node.items || []).forEach((item) => {
+    calls.push(...getFunctionArguments(item, longForm));
+  });
+  return calls;
+}
+
+// The value if true and value if false of every Fn::If in or under the node
+export function getIfBranches(node: Node): Node[] {
+  const branches: Node[] = [];
+  getFunctionArguments(node, 'Fn::If').forEach((items) => {
+    branches.push(...items.slice(1, 3));
+  });
+  return branches;
+}
+
+function isSequence(node: Node): boolean {
+  return node.type === NodeTypes.SEQ || node.type === NodeTypes.FLOW_SEQ;
+}
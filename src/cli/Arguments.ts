@@ -0,0 +1,118 @@
+import { SubStack } from '../common/SubStack';
+
+export enum OutputFormat {
+  TEXT = 'text',
+  JSON = 'json',
+  SARIF = 'sarif',
+}
+
+export interface CliArguments {
+  patterns: string[];
+  recurse: boolean;
+  format: OutputFormat;
+  // A resource specification file to use instead of the bundled one
+  resourceSpecificationPath?: string;
+  // Parameter files to check against their template, besides those among the patterns
+  parameterFilePaths: string[];
+  // Local directories for TemplateURL prefixes
+  templateUrlMappings: SubStack.TemplateUrlMappings;
+  help: boolean;
+}
+
+export const usage = `Usage: cloudformation-yaml-validator [options] <file or glob>...
+
+Options:
+  -r, --recurse          Also validate sub stack templates referenced by AWS::CloudFormation::Stack and AWS::Serverless::Application resources
+  -f, --format <format>  Output format: text (default), json or sarif
+  -s, --resource-specification <file>
+                         A CloudFormation resource specification JSON file to check !GetAtt attributes against,
+                         instead of the bundled copy
+  -p, --parameters <file>
+                         A parameter file to check against its template, which is found from the parameter file's
+                         name (app.dev.parameters.json goes with app.dev.yml or app.yml), or is the only template given.
+                         Files named like this among the patterns are checked without this option
+  -m, --template-url-mapping <url prefix>=<directory>
+                         Look for sub stack templates whose TemplateURL starts with the prefix in the directory,
+                         '*' in the prefix matches anything but '/'
+  -h, --help             Show this message`;
+
+export function parseArguments(argv: string[]): CliArguments {
+  const cliArguments: CliArguments = {
+    patterns: [],
+    recurse: false,
+    format: OutputFormat.TEXT,
+    parameterFilePaths: [],
+    templateUrlMappings: {},
+    help: false,
+  };
+  const remaining = [...argv];
+  while (remaining.length > 0) {
+    const argument = remaining.shift() as string;
+    switch (argument) {
+      case '-r':
+      case '--recurse':
+        cliArguments.recurse = true;
+        break;
+      case '-f':
+      case '--format':
+        cliArguments.format = toOutputFormat(remaining.shift());
+        break;
+      case '-s':
+      case '--resource-specification':
+        cliArguments.resourceSpecificationPath = toFilePath(argument, remaining.shift());
+        break;
+      case '-p':
+      case '--parameters':
+        cliArguments.parameterFilePaths.push(toFilePath(argument, remaining.shift()));
+        break;
+      case '-m':
+      case '--template-url-mapping':
+        addTemplateUrlMapping(cliArguments, remaining.shift());
+        break;
+      case '-h':
+      case '--help':
+        cliArguments.help = true;
+        break;
+      default:
+        if (argument.startsWith('--format=')) {
+          cliArguments.format = toOutputFormat(argument.substring('--format='.length));
+        } else if (argument.startsWith('--resource-specification=')) {
+          cliArguments.resourceSpecificationPath = toFilePath('--resource-specification', argument.substring('--resource-specification='.length));
+        } else if (argument.startsWith('--parameters=')) {
+          cliArguments.parameterFilePaths.push(toFilePath('--parameters', argument.substring('--parameters='.length)));
+        } else if (argument.startsWith('--template-url-mapping=')) {
+          addTemplateUrlMapping(cliArguments, argument.substring('--template-url-mapping='.length));
+        } else if (argument.startsWith('-')) {
+          throw new Error(`Unknown option, '${argument}'`);
+        } else {
+          cliArguments.patterns.push(argument);
+        }
+        break;
+    }
+  }
+  return cliArguments;
+}
+
+function toOutputFormat(format: string | undefined): OutputFormat {
+  const outputFormats = Object.keys(OutputFormat).map(key => OutputFormat[key]);
+  if (!format || outputFormats.indexOf(format) < 0) {
+    throw new Error(`Unknown output format, '${format}'. Expected one of: ${outputFormats.join(', ')}`);
+  }
+  return format as OutputFormat;
+}
+
+// The directory follows the last '=', URL prefixes may contain '=' but directories rarely do
+function addTemplateUrlMapping(cliArguments: CliArguments, mapping: string | undefined) {
+  const separator = mapping ? mapping.lastIndexOf('=') : -1;
+  if (!mapping || separator < 1 || separator === mapping.length - 1) {
+    throw new Error(`Expected <url prefix>=<directory> for option '--template-url-mapping', but found '${mapping}'`);
+  }
+  cliArguments.templateUrlMappings[mapping.substring(0, separator)] = mapping.substring(separator + 1);
+}
+
+function toFilePath(option: string, filePath: string | undefined): string {
+  if (!filePath) {
+    throw new Error(`Missing file for option, '${option}'`);
+  }
+  return filePath;
+}
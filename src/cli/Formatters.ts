@@ -0,0 +1,115 @@
+import path from 'path';
+
+import { Diagnostic, DiagnosticSeverity } from '../common/Diagnostics';
+import { validatorName } from '../Validator';
+
+export interface FileDiagnostics {
+  filePath: string;
+  diagnostics: Diagnostic[];
+}
+
+// The parts of a SARIF 2.1.0 result which are filled in
+interface SarifResult {
+  ruleId?: string;
+  level: string;
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region: { startLine: number, startColumn: number, endLine: number, endColumn: number };
+    };
+  }[];
+}
+
+export namespace Formatters {
+  export const severityToName = {
+    [DiagnosticSeverity.Error]: 'error',
+    [DiagnosticSeverity.Warning]: 'warning',
+    [DiagnosticSeverity.Information]: 'info',
+    [DiagnosticSeverity.Hint]: 'hint',
+  };
+
+  export const severityToSarifLevel = {
+    [DiagnosticSeverity.Error]: 'error',
+    [DiagnosticSeverity.Warning]: 'warning',
+    [DiagnosticSeverity.Information]: 'note',
+    [DiagnosticSeverity.Hint]: 'note',
+  };
+
+  // Lines and columns are 1-based in every format, the way editors and CI systems display them
+  export function text(results: FileDiagnostics[], workingDirectory: string): string {
+    const lines: string[] = [];
+    let errorCount = 0;
+    let warningCount = 0;
+    results.forEach((result) => {
+      const relativePath = path.relative(workingDirectory, result.filePath);
+      result.diagnostics.forEach((diagnostic) => {
+        if (diagnostic.severity === DiagnosticSeverity.Error) errorCount += 1;
+        if (diagnostic.severity === DiagnosticSeverity.Warning) warningCount += 1;
+        const location = `${relativePath}:${diagnostic.range.start.line + 1}:${diagnostic.range.start.character + 1}`;
+        lines.push(`${location} - ${severityToName[diagnostic.severity]}: ${diagnostic.message}`);
+      });
+    });
+    lines.push(`${results.length} file(s) checked, ${errorCount} error(s), ${warningCount} warning(s)`);
+    return lines.join('\n');
+  }
+
+  export function json(results: FileDiagnostics[]): string {
+    const output = results.map((result) => {
+      return {
+        filePath: result.filePath,
+        diagnostics: result.diagnostics.map((diagnostic) => {
+          return {
+            severity: severityToName[diagnostic.severity],
+            code: diagnostic.code,
+            message: diagnostic.message,
+            line: diagnostic.range.start.line + 1,
+            column: diagnostic.range.start.character + 1,
+            endLine: diagnostic.range.end.line + 1,
+            endColumn: diagnostic.range.end.character + 1,
+          };
+        }),
+      };
+    });
+    return JSON.stringify(output, null, 2);
+  }
+
+  export function sarif(results: FileDiagnostics[], workingDirectory: string): string {
+    const sarifResults: SarifResult[] = [];
+    results.forEach((result) => {
+      const uri = path.relative(workingDirectory, result.filePath).split(path.sep).join('/');
+      result.diagnostics.forEach((diagnostic) => {
+        sarifResults.push({
+          ruleId: diagnostic.code,
+          level: severityToSarifLevel[diagnostic.severity],
+          message: { text: diagnostic.message },
+          locations: [{
+            physicalLocation: {
+              artifactLocation: { uri },
+              region: {
+                startLine: diagnostic.range.start.line + 1,
+                startColumn: diagnostic.range.start.character + 1,
+                endLine: diagnostic.range.end.line + 1,
+                endColumn: diagnostic.range.end.character + 1,
+              },
+            },
+          }],
+        });
+      });
+    });
+    const log = {
+      $schema: 'https://raw.githubusercontent.com/oasis-tcs/sarif-spec/master/Schemata/sarif-schema-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: validatorName,
+            informationUri: 'https://github.com/champgm/cloudformation-yaml-validator',
+          },
+        },
+        results: sarifResults,
+      }],
+    };
+    return JSON.stringify(log, null, 2);
+  }
+}
@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import glob from 'glob';
+import path from 'path';
+
+import { DiagnosticSeverity } from '../common/Diagnostics';
+import { ExportIndex } from '../common/Exports';
+import { ParameterFiles } from '../common/ParameterFiles';
+import { ResourceSpecification } from '../common/ResourceSpecification';
+import { SubStack } from '../common/SubStack';
+import { Workspace } from '../features/Workspace';
+import { Validator } from '../Validator';
+import { parseArguments, usage, OutputFormat, CliArguments } from './Arguments';
+import { Formatters, FileDiagnostics } from './Formatters';
+
+export async function run(argv: string[], workingDirectory: string): Promise<number> {
+  let cliArguments: CliArguments;
+  try {
+    cliArguments = parseArguments(argv);
+  } catch (error) {
+    console.error(`${error.message}\n\n${usage}`);
+    return 2;
+  }
+  if (cliArguments.help || cliArguments.patterns.length + cliArguments.parameterFilePaths.length < 1) {
+    console.log(usage);
+    return cliArguments.help ? 0 : 2;
+  }
+
+  // Expand globs, but keep plain file names even if they do not exist so that an error can be reported for them
+  // JSON files a glob matches are only kept if they look like a template, or are parameter files
+  const filePaths: string[] = [];
+  cliArguments.patterns.forEach((pattern) => {
+    const matches = glob.hasMagic(pattern)
+      ? glob.sync(pattern, { cwd: workingDirectory, nodir: true, absolute: true })
+        .filter(match => ParameterFiles.isParameterFile(match) || Workspace.isTemplateFile(match))
+      : [path.resolve(workingDirectory, pattern)];
+    matches.forEach((match) => {
+      const filePath = path.normalize(match);
+      if (filePaths.indexOf(filePath) < 0) filePaths.push(filePath);
+    });
+  });
+
+  // Parameter files are checked against their template instead of being validated as templates
+  const parameterFilePaths = filePaths.filter(filePath => ParameterFiles.isParameterFile(filePath));
+  cliArguments.parameterFilePaths.forEach((parameterFilePath) => {
+    const filePath = path.resolve(workingDirectory, parameterFilePath);
+    if (parameterFilePaths.indexOf(filePath) < 0) parameterFilePaths.push(filePath);
+  });
+  const templatePaths = filePaths.filter(filePath => parameterFilePaths.indexOf(filePath) < 0);
+
+  let resourceSpecification: ResourceSpecification;
+  try {
+    resourceSpecification = cliArguments.resourceSpecificationPath
+      ? ResourceSpecification.load(path.resolve(workingDirectory, cliArguments.resourceSpecificationPath))
+      : ResourceSpecification.load();
+  } catch (error) {
+    console.error(`Unable to read resource specification file, '${cliArguments.resourceSpecificationPath}': ${error.message}`);
+    return 2;
+  }
+
+  // Imports are looked up among the templates under the working directory, like the workspace's in the editor,
+  // and the ones being validated, which can be outside of it
+  const exportIndex = new ExportIndex();
+  const indexedPaths = Workspace.findTemplateFiles([workingDirectory]);
+  templatePaths.forEach((filePath) => {
+    if (indexedPaths.indexOf(filePath) < 0) indexedPaths.push(filePath);
+  });
+  indexedPaths.forEach((filePath) => {
+    if (fs.existsSync(filePath)) exportIndex.update(filePath, fs.readFileSync(filePath, 'utf8'));
+  });
+
+  const templateUrlMappings: SubStack.TemplateUrlMappings = {};
+  Object.keys(cliArguments.templateUrlMappings).forEach((urlPrefix) => {
+    templateUrlMappings[urlPrefix] = path.resolve(workingDirectory, cliArguments.templateUrlMappings[urlPrefix]);
+  });
+  const validator = new Validator(resourceSpecification, exportIndex, templateUrlMappings);
+  for (const filePath of templatePaths) {
+    try {
+      await validator.checkFile(filePath, cliArguments.recurse);
+    } catch (error) {
+      console.error(`Unable to read template file, '${filePath}': ${error.message}`);
+      return 2;
+    }
+  }
+  for (const filePath of parameterFilePaths) {
+    const templatePath = ParameterFiles.findTemplatePath(filePath) || (templatePaths.length === 1 ? templatePaths[0] : undefined);
+    if (!templatePath) {
+      console.error(`Unable to find the template for parameter file, '${filePath}'`);
+      return 2;
+    }
+    try {
+      validator.checkParameterFile(filePath, templatePath);
+    } catch (error) {
+      console.error(`Unable to read parameter file, '${filePath}': ${error.message}`);
+      return 2;
+    }
+  }
+
+  const results: FileDiagnostics[] = [];
+  validator.diagnosticCollection.forEach((filePath, diagnostics) => {
+    results.push({ filePath, diagnostics });
+  });
+
+  switch (cliArguments.format) {
+    case OutputFormat.JSON:
+      console.log(Formatters.json(results));
+      break;
+    case OutputFormat.SARIF:
+      console.log(Formatters.sarif(results, workingDirectory));
+      break;
+    default:
+      console.log(Formatters.text(results, workingDirectory));
+      break;
+  }
+
+  const hasErrors = results.some((result) => {
+    return result.diagnostics.some(diagnostic => diagnostic.severity === DiagnosticSeverity.Error);
+  });
+  return hasErrors ? 1 : 0;
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2), process.cwd())
+    .then((exitCode) => {
+      process.exitCode = exitCode;
+    })
+    .catch((error) => {
+      console.error(error);
+      process.exitCode = 2;
+    });
+}
@@ -0,0 +1,7 @@
+// Commands the language server executes, these are sent by the extension's own commands
+export namespace Commands {
+  export const VALIDATE = 'cloudFormationYamlValidator.server.validate';
+  export const VALIDATE_RECURSIVE = 'cloudFormationYamlValidator.server.validateRecursive';
+  // Takes the template's URI and a DiagramFormat, returns the rendered diagram
+  export const DEPENDENCY_DIAGRAM = 'cloudFormationYamlValidator.server.dependencyDiagram';
+}
@@ -0,0 +1,84 @@
+import { getFunctionArguments, getNodeItemByStringKey, getNodeValueIfPair } from '../Yaml';
+import { Node } from '../Yaml/Node';
+import { NodeTraversal } from '../Yaml/NodeTraversal';
+import { Conditions } from './Conditions';
+import { Declaration, Declarations } from './Declarations';
+import { DependencyGraph } from './DependencyGraph';
+import { Reference } from './Reference';
+import { ReferenceTypes } from './ReferenceTypes';
+
+// A reference to a resource which is only created under a condition, from somewhere which doesn't share it
+export interface UnguardedReference {
+  reference: Reference;
+  from: Declaration;
+  to: string;
+  condition: string;
+}
+
+// The value if true of an Fn::If, where the condition is known to hold
+interface ConditionGuard {
+  condition: string;
+  range: number[];
+}
+
+export namespace ConditionalReferences {
+  // Anything which makes the referencing resource or output depend on the referenced resource existing
+  const referenceTypes = [ReferenceTypes.REF, ReferenceTypes.GET_ATT, ReferenceTypes.SUB, ReferenceTypes.DEPENDS_ON];
+
+  export function findUnguarded(rootNode: Node, traversal: NodeTraversal): UnguardedReference[] {
+    const declarations = Declarations.getDeclarations(rootNode).filter((declaration) => {
+      return declaration.section === 'Resources' || declaration.section === 'Outputs';
+    });
+    const resourceConditions = getConditions(declarations.filter(declaration => declaration.section === 'Resources'));
+    const guards = getGuards(rootNode);
+    const unguardedReferences: UnguardedReference[] = [];
+    traversal.nodesWhichReference.forEach((node) => {
+      (node.references || []).forEach((reference) => {
+        const to = reference.referencedKey.split('.')[0];
+        const condition = resourceConditions[to];
+        if (!condition || referenceTypes.indexOf(reference.type) < 0) return;
+        const from = DependencyGraph.findContainingDeclaration(declarations, reference.absoluteKeyPosition);
+        if (!from || (from.section === 'Resources' && from.name === to)) return;
+
+        // Guarded by the declaration's own Condition, or by the value if true of an Fn::If, on the condition or one implying it
+        const guardingConditions = guards
+          .filter(guard => reference.absoluteKeyPosition >= guard.range[0] && reference.absoluteKeyPosition < guard.range[1])
+          .map(guard => guard.condition);
+        const ownCondition = getCondition(from);
+        if (ownCondition) guardingConditions.push(ownCondition);
+        const isGuarded = guardingConditions.some(guardingCondition => Conditions.getImpliedConditions(rootNode, guardingCondition).indexOf(condition) > -1);
+        if (!isGuarded) unguardedReferences.push({ reference, from, to, condition });
+      });
+    });
+    return unguardedReferences;
+  }
+
+  // Like 'Topic → Queue', or 'Outputs.QueueUrl → Queue' since outputs can share their names with resources
+  export function getPath(unguardedReference: UnguardedReference): string {
+    const from = unguardedReference.from;
+    return `${from.section === 'Outputs' ? `Outputs.${from.name}` : from.name} → ${unguardedReference.to}`;
+  }
+
+  function getConditions(declarations: Declaration[]): { [name: string]: string } {
+    const conditions = {};
+    declarations.forEach((declaration) => {
+      const condition = getCondition(declaration);
+      if (condition) conditions[declaration.name] = condition;
+    });
+    return conditions;
+  }
+
+  function getCondition(declaration: Declaration): string | undefined {
+    const condition = getNodeValueIfPair(getNodeItemByStringKey(declaration.node, 'Condition')).value;
+    return typeof condition === 'string' ? condition : undefined;
+  }
+
+  function getGuards(rootNode: Node): ConditionGuard[] {
+    const guards: ConditionGuard[] = [];
+    getFunctionArguments(rootNode, 'Fn::If').forEach(([condition, valueIfTrue]) => {
+      if (!condition || typeof condition.value !== 'string' || !valueIfTrue || !valueIfTrue.range) return;
+      guards.push({ condition: condition.value, range: valueIfTrue.range });
+    });
+    return guards;
+  }
+}
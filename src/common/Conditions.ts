@@ -0,0 +1,161 @@
+import { getNodeItemByStringKey, getNodeValueIfPair, getValueStart, getWrittenTag } from '../Yaml';
+import { Node } from '../Yaml/Node';
+import { NodeTypes } from '../Yaml/NodeTypes';
+
+// Something in the Conditions section which CloudFormation won't accept
+export interface ConditionProblem {
+  message: string;
+  absolutePosition: number;
+  // What the problem is about, as it is written in the template
+  name: string;
+}
+
+// A call of Fn::And, Fn::Equals, Fn::Not or Fn::Or, in either form
+interface ConditionFunction {
+  name: string;
+  writtenAs: string;
+  absolutePosition: number;
+  arguments: Node;
+}
+
+export namespace Conditions {
+  export const FUNCTIONS = ['Fn::And', 'Fn::Equals', 'Fn::Not', 'Fn::Or'];
+
+  const shortFormToLongForm = {
+    '!And': 'Fn::And',
+    '!Equals': 'Fn::Equals',
+    '!Not': 'Fn::Not',
+    '!Or': 'Fn::Or',
+  };
+
+  // The smallest and largest number of arguments each function takes
+  const argumentCounts = {
+    'Fn::And': [2, 10],
+    'Fn::Equals': [2, 2],
+    'Fn::Not': [1, 1],
+    'Fn::Or': [2, 10],
+  };
+
+  // Tags are read as they are written, validating moves them around
+  export function findProblems(rootNode: Node): ConditionProblem[] {
+    const problems: ConditionProblem[] = [];
+    const conditions = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Conditions'));
+    (conditions.items || []).forEach((condition) => {
+      if (!condition.stringKey || !condition.key || !condition.key.range) return;
+      const conditionFunction = getFunction(getNodeValueIfPair(condition));
+      if (conditionFunction) {
+        problems.push(...checkFunction(conditionFunction));
+      } else {
+        problems.push({
+          message: 'Condition must be Fn::And, Fn::Equals, Fn::Not or Fn::Or',
+          absolutePosition: condition.key.range[0],
+          name: condition.stringKey,
+        });
+      }
+    });
+    return problems;
+  }
+
+  // The conditions which are certainly true whenever the named one is, itself and whatever its Fn::And requires
+  export function getImpliedConditions(rootNode: Node, name: string): string[] {
+    const implied = [name];
+    const conditions = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Conditions'));
+    for (let index = 0; index < implied.length; index += 1) {
+      const conditionFunction = getFunction(getNodeValueIfPair(getNodeItemByStringKey(conditions, implied[index])));
+      const isAnd = conditionFunction && conditionFunction.name === 'Fn::And';
+      ((isAnd && conditionFunction && conditionFunction.arguments.items) || []).forEach((operand) => {
+        const operandName = getConditionReferenceName(operand);
+        if (operandName && implied.indexOf(operandName) < 0) implied.push(operandName);
+      });
+    }
+    return implied;
+  }
+
+  function checkFunction(conditionFunction: ConditionFunction): ConditionProblem[] {
+    const [minimum, maximum] = argumentCounts[conditionFunction.name];
+    const expected = minimum === maximum ? `${minimum}` : `${minimum} to ${maximum}`;
+    const noun = conditionFunction.name === 'Fn::Equals' ? 'values' : maximum === 1 ? 'condition' : 'conditions';
+    const toProblem = (message: string) => {
+      return { message, absolutePosition: conditionFunction.absolutePosition, name: conditionFunction.writtenAs };
+    };
+
+    const argumentList = conditionFunction.arguments;
+    if (argumentList.type !== NodeTypes.SEQ && argumentList.type !== NodeTypes.FLOW_SEQ) {
+      return [toProblem(`Expected a list of ${expected} ${noun}`)];
+    }
+    const problems: ConditionProblem[] = [];
+    if (argumentList.items.length < minimum || argumentList.items.length > maximum) {
+      problems.push(toProblem(`Expected ${expected} ${noun} but found ${argumentList.items.length}`));
+    }
+
+    // Fn::Equals compares values, everything else combines conditions
+    if (conditionFunction.name === 'Fn::Equals') return problems;
+    argumentList.items.forEach((operand) => {
+      if (isConditionReference(operand)) return;
+      const operandFunction = getFunction(operand);
+      if (operandFunction) {
+        problems.push(...checkFunction(operandFunction));
+      } else {
+        problems.push(getOperandProblem(operand));
+      }
+    });
+    return problems;
+  }
+
+  function getFunction(node: Node): ConditionFunction | undefined {
+    const pair = getSinglePair(node);
+    if (pair && FUNCTIONS.indexOf(pair.stringKey as string) > -1) {
+      return {
+        name: pair.stringKey as string,
+        writtenAs: pair.stringKey as string,
+        absolutePosition: pair.key.range[0],
+        arguments: getNodeValueIfPair(pair),
+      };
+    }
+    const tag = getWrittenTag(node);
+    if (tag && shortFormToLongForm[tag]) {
+      return {
+        name: shortFormToLongForm[tag],
+        writtenAs: tag,
+        absolutePosition: node.range[0],
+        arguments: node,
+      };
+    }
+    return undefined;
+  }
+
+  // 'Condition: Name', or the short form '!Condition Name'
+  function isConditionReference(node: Node): boolean {
+    const pair = getSinglePair(node);
+    return getWrittenTag(node) === '!Condition' || (!!pair && pair.stringKey === 'Condition');
+  }
+
+  function getConditionReferenceName(node: Node): string | undefined {
+    if (!isConditionReference(node)) return undefined;
+    const pair = getSinglePair(node);
+    const value = pair ? getNodeValueIfPair(pair).value : node.value;
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  function getOperandProblem(operand: Node): ConditionProblem {
+    const message = 'Expected a condition function or a Condition reference';
+    const pair = getSinglePair(operand);
+    if (pair && pair.key && pair.key.range) {
+      return { message, absolutePosition: pair.key.range[0], name: pair.stringKey as string };
+    }
+    const tag = getWrittenTag(operand);
+    if (tag && tag.startsWith('!')) {
+      return { message, absolutePosition: operand.range[0], name: tag };
+    }
+    const isScalar = operand.type === NodeTypes.PLAIN || operand.type === NodeTypes.QUOTE_DOUBLE || operand.type === NodeTypes.QUOTE_SINGLE;
+    const name = isScalar ? String(operand.value) : '';
+    return { message, name, absolutePosition: isScalar ? getValueStart(operand) : operand.range[0] };
+  }
+
+  // Maps with a single key, and the pairs which flow sequences allow without braces, like '[Condition: Name]'
+  function getSinglePair(node: Node): Node | undefined {
+    if (node.type === NodeTypes.PAIR) return node;
+    const isMap = node.type === NodeTypes.MAP || node.type === NodeTypes.FLOW_MAP;
+    return isMap && node.items.length === 1 ? node.items[0] : undefined;
+  }
+}
@@ -0,0 +1,39 @@
+import { Node } from '../Yaml/Node';
+import { getNodeItemByStringKey, getNodeValueIfPair } from '../Yaml';
+
+export interface Declaration {
+  name: string;
+  section: string;
+  absoluteKeyPosition: number;
+  // The declaration's value, for example a parameter's Type, Default, etc.
+  node: Node;
+}
+
+export namespace Declarations {
+  export const SECTIONS = ['Parameters', 'Conditions', 'Mappings', 'Resources', 'Outputs'];
+
+  // Collects every top level key declared in the template's sections
+  export function getDeclarations(rootNode: Node): Declaration[] {
+    const declarations: Declaration[] = [];
+    SECTIONS.forEach((section) => {
+      const sectionNode = getNodeValueIfPair(getNodeItemByStringKey(rootNode, section));
+      (sectionNode.items || []).forEach((item) => {
+        if (item.stringKey && item.key && item.key.range) {
+          declarations.push({
+            section,
+            name: item.stringKey,
+            absoluteKeyPosition: item.key.range[0],
+            node: item.value as Node,
+          });
+        }
+      });
+    });
+    return declarations;
+  }
+
+  export function findDeclaration(declarations: Declaration[], name: string, sections: string[] = SECTIONS): Declaration | undefined {
+    return declarations.find((declaration) => {
+      return declaration.name === name && sections.indexOf(declaration.section) > -1;
+    });
+  }
+}
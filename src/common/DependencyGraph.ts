@@ -0,0 +1,67 @@
+import { Declaration, Declarations } from './Declarations';
+import { Reference } from './Reference';
+import { ReferenceTypes } from './ReferenceTypes';
+import { Node } from '../Yaml/Node';
+import { NodeTraversal } from '../Yaml/NodeTraversal';
+
+// One declaration depending on another, because of the reference
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  reference: Reference;
+}
+
+export namespace DependencyGraph {
+  // Conditions only depend on each other through 'Condition: Name' inside Fn::And, Fn::Or and Fn::Not
+  const sectionToReferenceTypes: { [section: string]: ReferenceTypes[] } = {
+    Resources: [ReferenceTypes.REF, ReferenceTypes.SUB, ReferenceTypes.GET_ATT, ReferenceTypes.DEPENDS_ON],
+    Conditions: [ReferenceTypes.CONDITION],
+  };
+
+  // The edges between the declarations of one section, from the declaration each reference is written in
+  export function getEdges(rootNode: Node, traversal: NodeTraversal, section: string): DependencyEdge[] {
+    const declarations = Declarations.getDeclarations(rootNode).filter(declaration => declaration.section === section);
+    const referenceTypes = sectionToReferenceTypes[section] || [];
+    const edges: DependencyEdge[] = [];
+    traversal.nodesWhichReference.forEach((node) => {
+      (node.references || []).forEach((reference) => {
+        if (referenceTypes.indexOf(reference.type) < 0) return;
+        const from = findContainingDeclaration(declarations, reference.absoluteKeyPosition);
+        const to = reference.referencedKey.split('.')[0];
+        if (from && declarations.some(declaration => declaration.name === to)) {
+          edges.push({ reference, to, from: from.name });
+        }
+      });
+    });
+    return edges;
+  }
+
+  // The shortest way back to where the edge starts, like ['A', 'B', 'C', 'A'] for an edge from A to B, if there is one
+  export function findCycle(edges: DependencyEdge[], edge: DependencyEdge): string[] | undefined {
+    const previous: { [name: string]: string } = {};
+    const queue = [edge.to];
+    const visited = [edge.to];
+    while (queue.length > 0) {
+      const name = queue.shift() as string;
+      if (name === edge.from) {
+        const path = [name];
+        while (path[0] !== edge.to) path.unshift(previous[path[0]]);
+        return [edge.from, ...path];
+      }
+      edges.filter(next => next.from === name && visited.indexOf(next.to) < 0).forEach((next) => {
+        visited.push(next.to);
+        previous[next.to] = name;
+        queue.push(next.to);
+      });
+    }
+    return undefined;
+  }
+
+  // The declaration whose value the position is inside of
+  export function findContainingDeclaration(declarations: Declaration[], absolutePosition: number): Declaration | undefined {
+    return declarations.find((declaration) => {
+      const range = declaration.node && declaration.node.range;
+      return !!range && absolutePosition >= range[0] && absolutePosition < range[1];
+    });
+  }
+}
@@ -1,39 +1,172 @@
-import vscode from 'vscode';
 import clone from 'lodash.clonedeep';
+import path from 'path';
 
 import { RowColumnPosition, getRowColumnPosition } from './RowColumnPosition';
-import { getNodeValueIfPair, getNodeItemByStringKey } from '../Yaml';
+import { getNodeValueIfPair, getNodeItemByStringKey, getNodeTag, getIfBranches, getValueStart, isLiteral } from '../Yaml';
 import { Node } from '../Yaml/Node';
+import { NodeTypes } from '../Yaml/NodeTypes';
 import { NodeTraversal } from '../Yaml/NodeTraversal';
+import { DependencyGraph } from './DependencyGraph';
+import { Exports, ExportIndex, ExportName } from './Exports';
+import { Reference } from './Reference';
+import { ResourceSpecification } from './ResourceSpecification';
 import { ReferenceTypes } from './ReferenceTypes';
 import { Maps } from './Maps';
+import { Conditions } from './Conditions';
+import { ConditionalReferences } from './ConditionalReferences';
+import { Declarations } from './Declarations';
+import { MapKey, Mappings } from './Mappings';
+import { ParameterDefinition, ParameterProblem, Parameters } from './Parameters';
+import { ParameterFile } from './ParameterFiles';
+import { Serverless } from './Serverless';
+import { SubStack } from './SubStack';
+import { getSimilarNames } from '.';
 
-export function createDiagnostic(position: RowColumnPosition, length: number, severity: vscode.DiagnosticSeverity, message: string) {
-  const range = createVsCodeRange(position, length);
-  return new vscode.Diagnostic(range, message, severity);
+// These mirror the values of vscode.DiagnosticSeverity so that the validator can run without the vscode API
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3,
 }
 
-export function createVsCodeRange(rowColumnPosition: RowColumnPosition, length: number): vscode.Range {
-  return new vscode.Range(
-    rowColumnPosition.line,
-    rowColumnPosition.column,
-    rowColumnPosition.line,
-    rowColumnPosition.column + length,
-  );
+// Stable identifiers for each kind of diagnostic, used by the quick fixes and reported by the CLI
+export enum DiagnosticCodes {
+  UNKNOWN_REFERENCE = 'unknown-reference',
+  UNKNOWN_SUB_STACK_OUTPUT = 'unknown-sub-stack-output',
+  UNKNOWN_ATTRIBUTE = 'unknown-attribute',
+  UNKNOWN_SUB_STACK_PARAMETER = 'unknown-sub-stack-parameter',
+  MISSING_REQUIRED_PARAMETER = 'missing-required-parameter',
+  MISSING_PARAMETER_WITH_DEFAULT = 'missing-parameter-with-default',
+  UNLOADABLE_TEMPLATE = 'unloadable-template',
+  UNUSED_DECLARATION = 'unused-declaration',
+  UNUSED_SUB_STACK_OUTPUT = 'unused-sub-stack-output',
+  UNKNOWN_EXPORT = 'unknown-export',
+  DUPLICATE_EXPORT = 'duplicate-export',
+  CIRCULAR_DEPENDENCY = 'circular-dependency',
+  UNKNOWN_PSEUDO_PARAMETER = 'unknown-pseudo-parameter',
+  MISUSED_PSEUDO_PARAMETER = 'misused-pseudo-parameter',
+  UNKNOWN_MAP_KEY = 'unknown-map-key',
+  INVALID_MAPPING = 'invalid-mapping',
+  INVALID_CONDITION = 'invalid-condition',
+  UNGUARDED_CONDITIONAL_REFERENCE = 'unguarded-conditional-reference',
+  INVALID_PARAMETER_DEFINITION = 'invalid-parameter-definition',
+  INVALID_PARAMETER_VALUE = 'invalid-parameter-value',
+  UNKNOWN_PARAMETER_OVERRIDE = 'unknown-parameter-override',
+  UNPARSEABLE_PARAMETER_FILE = 'unparseable-parameter-file',
+  UNRESOLVED_TEMPLATE_URL = 'unresolved-template-url',
+  INVALID_GLOBALS = 'invalid-globals',
+  LIST_PARAMETER_VALUE = 'list-parameter-value',
+  INCOMPATIBLE_PARAMETER_VALUE = 'incompatible-parameter-value',
 }
 
-export function addDiagnostic(uri: vscode.Uri, newDiagnostic: vscode.Diagnostic, diagnosticCollection: vscode.DiagnosticCollection) {
-  const existingDiagnostics = diagnosticCollection.get(uri) || [];
-  diagnosticCollection.set(uri, [...existingDiagnostics, newDiagnostic]);
+// These mirror the values of vscode.DiagnosticTag, the protocol only carries them from version 3.15
+export enum DiagnosticTag {
+  Unnecessary = 1,
+}
+
+// Diagnostics with these codes point at something which could be deleted, editors render them faded
+export const unnecessaryCodes = [DiagnosticCodes.UNUSED_DECLARATION, DiagnosticCodes.UNUSED_SUB_STACK_OUTPUT];
+
+// The sections which can be declared without being used, and what to call their members
+const unusedSectionToName = {
+  Parameters: 'parameter',
+  Conditions: 'condition',
+  Mappings: 'map',
+};
+
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Diagnostic {
+  range: Range;
+  message: string;
+  severity: DiagnosticSeverity;
+  code?: DiagnosticCodes;
+  tags?: DiagnosticTag[];
+}
+
+// A minimal stand-in for DiagnosticCollection, keyed by file path
+export class DiagnosticCollection {
+  private diagnostics: { [filePath: string]: Diagnostic[] } = {};
+
+  public get(filePath: string): Diagnostic[] | undefined {
+    return this.diagnostics[filePath];
+  }
+
+  public set(filePath: string, diagnostics: Diagnostic[]) {
+    this.diagnostics[filePath] = diagnostics;
+  }
+
+  public delete(filePath: string) {
+    delete this.diagnostics[filePath];
+  }
+
+  public clear() {
+    this.diagnostics = {};
+  }
+
+  public forEach(callback: (filePath: string, diagnostics: Diagnostic[]) => void) {
+    Object.keys(this.diagnostics).forEach((filePath) => {
+      callback(filePath, this.diagnostics[filePath]);
+    });
+  }
+}
+
+export function createDiagnostic(
+  position: RowColumnPosition,
+  length: number,
+  severity: DiagnosticSeverity,
+  message: string,
+  code?: DiagnosticCodes,
+): Diagnostic {
+  const range = createRange(position, length);
+  if (!code) return { range, message, severity };
+  return unnecessaryCodes.indexOf(code) > -1
+    ? { range, message, severity, code, tags: [DiagnosticTag.Unnecessary] }
+    : { range, message, severity, code };
+}
+
+export function createRange(rowColumnPosition: RowColumnPosition, length: number): Range {
+  return {
+    start: { line: rowColumnPosition.line, character: rowColumnPosition.column },
+    end: { line: rowColumnPosition.line, character: rowColumnPosition.column + length },
+  };
+}
+
+// For ranges which may span lines
+export function createRangeBetween(fullText: string, startPosition: number, endPosition: number): Range {
+  const start = getRowColumnPosition(fullText, startPosition);
+  const end = getRowColumnPosition(fullText, endPosition);
+  return {
+    start: { line: start.line, character: start.column },
+    end: { line: end.line, character: end.column },
+  };
+}
+
+export function addDiagnostic(filePath: string, newDiagnostic: Diagnostic, diagnosticCollection: DiagnosticCollection) {
+  const existingDiagnostics = diagnosticCollection.get(filePath) || [];
+  diagnosticCollection.set(filePath, [...existingDiagnostics, newDiagnostic]);
 }
 
 export function createDiagnosticsFromReferencingNode(
   node: Node,
   traversal: NodeTraversal,
-  diagnosticCollection: vscode.DiagnosticCollection,
+  resourceSpecification: ResourceSpecification,
+  diagnosticCollection: DiagnosticCollection,
 ) {
   // If the node has explicit references listed, check those references and create diagnostics as necessary
   node.references.forEach((reference) => {
+    // Pseudo parameters are checked separately, see createDiagnosticsFromPseudoParameters
+    if (isPseudoParameterReference(reference)) return;
+
     // This might reference a stack output. If so, save that tidbit for later.
     const referencesAnOutput = reference.referencedKey.indexOf('.Outputs') > -1;
 
@@ -46,8 +179,20 @@ export function createDiagnosticsFromReferencingNode(
         if (traversal.localReferenceables.indexOf(referencedResource) < 0) {
           const message = Maps.referenceTypeToDiagnosticMessage[ReferenceTypes.REF](referencedResource);
           const position = getRowColumnPosition(traversal.fullText, reference.absoluteKeyPosition);
-          const diagnostic = createDiagnostic(position, referencedResource.length, vscode.DiagnosticSeverity.Error, message);
-          addDiagnostic(traversal.documentUri, diagnostic, diagnosticCollection);
+          const diagnostic = createDiagnostic(position, referencedResource.length, DiagnosticSeverity.Error, message, DiagnosticCodes.UNKNOWN_REFERENCE);
+          addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
+          return;
+        }
+
+        // Then check the attribute against the resource type's, when the type is in the specification
+        const resourceType = traversal.resourceTypes[referencedResource];
+        const attributeNames = resourceType ? ResourceSpecification.getAttributeNames(resourceSpecification, resourceType) : undefined;
+        const attributeName = keyPieces.slice(1).join('.');
+        if (attributeNames && attributeNames.indexOf(attributeName) < 0) {
+          const message = `Unable to find ${resourceType} attribute, '${attributeName}'`;
+          const position = getRowColumnPosition(traversal.fullText, Reference.getAttributePosition(reference));
+          const diagnostic = createDiagnostic(position, attributeName.length, DiagnosticSeverity.Error, message, DiagnosticCodes.UNKNOWN_ATTRIBUTE);
+          addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
         }
         return;
       }
@@ -57,11 +202,25 @@ export function createDiagnosticsFromReferencingNode(
     if (reference.type === ReferenceTypes.GET_ATT) {
       // Check sub stack outputs if it's an outputs reference
       const noMatchingSubStackOutput = traversal.subStackReferenceables.outputs.indexOf(reference.referencedKey) < 0;
-      if (referencesAnOutput && noMatchingSubStackOutput) {
+      // Outputs of a sub stack whose template couldn't be found, or of an application from the Serverless Application Repository, aren't known
+      const subStackName = reference.referencedKey.split('.')[0];
+      const subStackLocation = traversal.subStackTemplates[subStackName];
+      const isPublishedApplication = !subStackLocation && traversal.resourceTypes[subStackName] === 'AWS::Serverless::Application';
+      const isUnresolvedSubStack = (!!subStackLocation && subStackLocation.filePath === undefined) || isPublishedApplication;
+      if (referencesAnOutput && noMatchingSubStackOutput && !isUnresolvedSubStack) {
         const message = Maps.referenceTypeToDiagnosticMessage[reference.type](reference.referencedKey);
-        const position = getRowColumnPosition(traversal.fullText, reference.absoluteKeyPosition);
-        const diagnostic = createDiagnostic(position, reference.referencedKey.length, vscode.DiagnosticSeverity.Error, message);
-        addDiagnostic(traversal.documentUri, diagnostic, diagnosticCollection);
+        // In the list form the sub stack and its output are separate, point at the output
+        const isListForm = reference.attributePosition !== undefined;
+        const start = isListForm ? Reference.getAttributePosition(reference) : reference.absoluteKeyPosition;
+        const position = getRowColumnPosition(traversal.fullText, start);
+        const diagnostic = createDiagnostic(
+          position,
+          Reference.getEnd(reference) - start,
+          DiagnosticSeverity.Error,
+          message,
+          DiagnosticCodes.UNKNOWN_SUB_STACK_OUTPUT,
+        );
+        addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
       }
       return;
     }
@@ -70,25 +229,29 @@ export function createDiagnosticsFromReferencingNode(
     if (traversal.localReferenceables.indexOf(reference.referencedKey) < 0) {
       const message = Maps.referenceTypeToDiagnosticMessage[reference.type](reference.referencedKey);
       const position = getRowColumnPosition(traversal.fullText, reference.absoluteKeyPosition);
-      const diagnostic = createDiagnostic(position, reference.referencedKey.length, vscode.DiagnosticSeverity.Error, message);
-      addDiagnostic(traversal.documentUri, diagnostic, diagnosticCollection);
+      const diagnostic = createDiagnostic(position, reference.referencedKey.length, DiagnosticSeverity.Error, message, DiagnosticCodes.UNKNOWN_REFERENCE);
+      addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
     }
   });
 }
 
 export function createDiagnosticsFromSubStackNode(
   node: Node,
+  rootNode: Node,
   traversal: NodeTraversal,
-  diagnosticCollection: vscode.DiagnosticCollection) {
+  diagnosticCollection: DiagnosticCollection) {
   const properties = getNodeValueIfPair(getNodeItemByStringKey(node, 'Properties'));
 
-  // Get the template URL and matching parameters for the sub stack
-  const templateUrl = properties.get('TemplateURL');
+  // Get the template URL and matching parameters for the sub stack, unless the URL couldn't be resolved
+  const location = traversal.subStackTemplates[node.stringKey as string];
+  const templateUrl = location && location.filePath !== undefined ? location.url : undefined;
   if (typeof templateUrl === 'string') {
     // Get the parameters used and the referenceable parameters (make a clone, we wil edit this list)
     const parameters = getNodeValueIfPair(getNodeItemByStringKey(properties, 'Parameters'));
 
     const referenceableParameters = clone(traversal.subStackReferenceables.parameters[templateUrl]) || [];
+    // Only parsed again when something other than a literal is passed
+    let passedValues: { [parameterName: string]: SubStack.PassedValue } | undefined;
 
     // Iterate over each of the current file's parameter references and create diagnostics if necessary
     parameters.items.forEach((parameterPair) => {
@@ -98,6 +261,21 @@ export function createDiagnosticsFromSubStackNode(
       if (matchingParameter) {
         // If there's a matching parameter in the file, awesome, take it out of the list so we can inspect remainders
         referenceableParameters.splice(referenceableParameters.indexOf(matchingParameter), 1);
+
+        // Literal values can be checked against the sub stack template's declaration of the parameter
+        const valueNode = getNodeValueIfPair(parameterPair);
+        if (matchingParameter.definition && isLiteral(valueNode)) {
+          const value = String(valueNode.value);
+          const position = getRowColumnPosition(traversal.fullText, getValueStart(valueNode));
+          Parameters.checkValue(matchingParameter.definition, value).forEach((reason) => {
+            const diagnostic = createDiagnostic(position, value.length, DiagnosticSeverity.Error, `Value ${reason}, '${value}'`, DiagnosticCodes.INVALID_PARAMETER_VALUE);
+            addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
+          });
+        } else if (matchingParameter.definition) {
+          passedValues = passedValues || SubStack.getPassedValues(rootNode, node.stringKey as string);
+          const passedValue = passedValues[matchingParameter.parameterName];
+          if (passedValue) createDiagnosticsFromPassedValue(passedValue, matchingParameter.definition, traversal, diagnosticCollection);
+        }
       } else {
         // Otherwise, there's a reference to a parameter which does not exist, let's make a diagnostic.
         const keyNode = parameterPair.key;
@@ -106,10 +284,11 @@ export function createDiagnosticsFromSubStackNode(
         const diagnostic = createDiagnostic(
           position,
           stringKey.length,
-          vscode.DiagnosticSeverity.Error,
+          DiagnosticSeverity.Error,
           `Referenced file does not have parameter, '${parameterPair.stringKey}'`,
+          DiagnosticCodes.UNKNOWN_SUB_STACK_PARAMETER,
         );
-        addDiagnostic(traversal.documentUri, diagnostic, diagnosticCollection);
+        addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
       }
     });
 
@@ -124,11 +303,394 @@ export function createDiagnosticsFromSubStackNode(
           ? `Properties missing value for parameter with default value, '${referenceableParameter.parameterName}'`
           : `Properties missing value for required parameter, '${referenceableParameter.parameterName}'`;
         const severity = referenceableParameter.hasDefault
-          ? vscode.DiagnosticSeverity.Warning
-          : vscode.DiagnosticSeverity.Error;
-        const diagnostic = createDiagnostic(propertiesPosition, 'Properties'.length, severity, message);
-        addDiagnostic(traversal.documentUri, diagnostic, diagnosticCollection);
+          ? DiagnosticSeverity.Warning
+          : DiagnosticSeverity.Error;
+        const code = referenceableParameter.hasDefault
+          ? DiagnosticCodes.MISSING_PARAMETER_WITH_DEFAULT
+          : DiagnosticCodes.MISSING_REQUIRED_PARAMETER;
+        const diagnostic = createDiagnostic(propertiesPosition, 'Properties'.length, severity, message, code);
+        addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
       });
     }
   }
 }
+
+// Sub stack parameters are strings, so lists have to be joined, and the value has to suit the Type and constraints of the parameter
+function createDiagnosticsFromPassedValue(
+  passedValue: SubStack.PassedValue,
+  definition: ParameterDefinition,
+  traversal: NodeTraversal,
+  diagnosticCollection: DiagnosticCollection,
+) {
+  const position = getRowColumnPosition(traversal.fullText, passedValue.absolutePosition);
+  const addPassedValueDiagnostic = (severity: DiagnosticSeverity, message: string, code: DiagnosticCodes) => {
+    const diagnostic = createDiagnostic(position, passedValue.name.length, severity, `${message}, '${passedValue.name}'`, code);
+    addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
+  };
+  const type = definition.type || 'String';
+  if (Parameters.isListType(passedValue.type)) {
+    const message = `Sub stack parameters must be strings, ${passedValue.type} has to be joined with !Join`;
+    addPassedValueDiagnostic(DiagnosticSeverity.Warning, message, DiagnosticCodes.LIST_PARAMETER_VALUE);
+  } else if (!Parameters.acceptsType(type, passedValue.type)) {
+    const message = `${passedValue.type} value passed to ${type} parameter`;
+    addPassedValueDiagnostic(DiagnosticSeverity.Warning, message, DiagnosticCodes.INCOMPATIBLE_PARAMETER_VALUE);
+  } else if (passedValue.definition) {
+    Parameters.findRejectedValues(passedValue.definition, definition).forEach((rejected) => {
+      const message = `Parameter can be '${rejected.value}', which the sub stack parameter rejects as it ${rejected.reason}`;
+      addPassedValueDiagnostic(DiagnosticSeverity.Warning, message, DiagnosticCodes.INCOMPATIBLE_PARAMETER_VALUE);
+    });
+  }
+}
+
+// A parameter file has to give every required parameter of its template, and nothing the template doesn't declare
+export function createDiagnosticsFromParameterFile(
+  parameterFile: ParameterFile,
+  fullText: string,
+  filePath: string,
+  referenceableParameters: SubStack.ParameterReferenceable[],
+  diagnosticCollection: DiagnosticCollection,
+) {
+  const parameterNames = referenceableParameters.map(referenceableParameter => referenceableParameter.parameterName);
+  parameterFile.overrides.forEach((override) => {
+    const matchingParameter = referenceableParameters.find(referenceableParameter => referenceableParameter.parameterName === override.key);
+    if (!matchingParameter) {
+      const suggestion = getSimilarNames(override.key, parameterNames, 1)[0];
+      const message = suggestion
+        ? `Template does not have parameter '${override.key}', did you mean '${suggestion}'?`
+        : `Template does not have parameter, '${override.key}'`;
+      const position = getRowColumnPosition(fullText, override.keyPosition);
+      const diagnostic = createDiagnostic(position, override.key.length, DiagnosticSeverity.Error, message, DiagnosticCodes.UNKNOWN_PARAMETER_OVERRIDE);
+      addDiagnostic(filePath, diagnostic, diagnosticCollection);
+      return;
+    }
+    if (!matchingParameter.definition || override.value === undefined || override.valuePosition === undefined) return;
+    const value = override.value;
+    const position = getRowColumnPosition(fullText, override.valuePosition);
+    Parameters.checkValue(matchingParameter.definition, value).forEach((reason) => {
+      const diagnostic = createDiagnostic(position, value.length, DiagnosticSeverity.Error, `Value ${reason}, '${value}'`, DiagnosticCodes.INVALID_PARAMETER_VALUE);
+      addDiagnostic(filePath, diagnostic, diagnosticCollection);
+    });
+  });
+
+  // Unlike a sub stack's Parameters, leaving out a parameter with a default value is the usual way to keep it
+  const overriddenKeys = parameterFile.overrides.map(override => override.key);
+  const position = getRowColumnPosition(fullText, parameterFile.absolutePosition);
+  referenceableParameters.forEach((referenceableParameter) => {
+    if (referenceableParameter.hasDefault || overriddenKeys.indexOf(referenceableParameter.parameterName) > -1) return;
+    const message = `Parameter file missing value for required parameter, '${referenceableParameter.parameterName}'`;
+    const diagnostic = createDiagnostic(position, parameterFile.length, DiagnosticSeverity.Error, message, DiagnosticCodes.MISSING_REQUIRED_PARAMETER);
+    addDiagnostic(filePath, diagnostic, diagnosticCollection);
+  });
+}
+
+// The names of everything the template's references point at, without any attribute
+export function getReferencedNames(traversal: NodeTraversal): string[] {
+  const referencedNames: string[] = [];
+  traversal.nodesWhichReference.forEach((node) => {
+    (node.references || []).forEach((reference) => {
+      const referencedName = reference.referencedKey.split('.')[0];
+      if (referencedNames.indexOf(referencedName) < 0) referencedNames.push(referencedName);
+    });
+  });
+  return referencedNames;
+}
+
+export function createDiagnosticsFromUnusedDeclarations(
+  rootNode: Node,
+  traversal: NodeTraversal,
+  diagnosticCollection: DiagnosticCollection,
+) {
+  const referencedNames = getReferencedNames(traversal);
+  Object.keys(unusedSectionToName).forEach((section) => {
+    const sectionNode = getNodeValueIfPair(getNodeItemByStringKey(rootNode, section));
+    (sectionNode.items || []).forEach((item) => {
+      const name = item.stringKey;
+      if (!name || !item.key || !item.key.range || referencedNames.indexOf(name) > -1) return;
+      const position = getRowColumnPosition(traversal.fullText, item.key.range[0]);
+      const message = `Unused ${unusedSectionToName[section]}, '${name}'`;
+      const diagnostic = createDiagnostic(position, name.length, DiagnosticSeverity.Warning, message, DiagnosticCodes.UNUSED_DECLARATION);
+      addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
+    });
+  });
+}
+
+// CloudFormation rejects resources, or conditions, which depend on each other in a loop
+export function createDiagnosticsFromCircularDependencies(
+  rootNode: Node,
+  traversal: NodeTraversal,
+  diagnosticCollection: DiagnosticCollection,
+) {
+  ['Resources', 'Conditions'].forEach((section) => {
+    const edges = DependencyGraph.getEdges(rootNode, traversal, section);
+    edges.forEach((edge) => {
+      const cycle = DependencyGraph.findCycle(edges, edge);
+      if (!cycle) return;
+      const position = getRowColumnPosition(traversal.fullText, edge.reference.absoluteKeyPosition);
+      const message = `Circular dependency between ${section.toLowerCase()}, '${cycle.join(' → ')}'`;
+      const diagnostic = createDiagnostic(position, edge.to.length, DiagnosticSeverity.Error, message, DiagnosticCodes.CIRCULAR_DEPENDENCY);
+      addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
+    });
+  });
+}
+
+// Parameter declarations need a known Type, constraints which suit it, and a Default which meets them
+export function createDiagnosticsFromParameters(
+  rootNode: Node,
+  traversal: NodeTraversal,
+  diagnosticCollection: DiagnosticCollection,
+) {
+  const addParameterDiagnostic = (problem: ParameterProblem, severity: DiagnosticSeverity, code: DiagnosticCodes) => {
+    const message = problem.suggestion
+      ? `${problem.message} '${problem.name}', did you mean '${problem.suggestion}'?`
+      : `${problem.message}, '${problem.name}'`;
+    const position = getRowColumnPosition(traversal.fullText, problem.absolutePosition);
+    addDiagnostic(traversal.filePath, createDiagnostic(position, problem.name.length, severity, message, code), diagnosticCollection);
+  };
+  Parameters.findProblems(rootNode).forEach((problem) => {
+    addParameterDiagnostic(problem, DiagnosticSeverity.Error, DiagnosticCodes.INVALID_PARAMETER_DEFINITION);
+  });
+  Parameters.findInapplicableConstraints(rootNode).forEach((problem) => {
+    addParameterDiagnostic(problem, DiagnosticSeverity.Warning, DiagnosticCodes.INVALID_PARAMETER_DEFINITION);
+  });
+  Parameters.findInvalidDefaults(rootNode).forEach((problem) => {
+    addParameterDiagnostic(problem, DiagnosticSeverity.Error, DiagnosticCodes.INVALID_PARAMETER_VALUE);
+  });
+}
+
+// Globals only works with the serverless transform, and only for the resource types it knows
+export function createDiagnosticsFromServerless(
+  rootNode: Node,
+  traversal: NodeTraversal,
+  diagnosticCollection: DiagnosticCollection,
+) {
+  Serverless.findProblems(rootNode).forEach((problem) => {
+    const message = problem.suggestion
+      ? `${problem.message} '${problem.name}', did you mean '${problem.suggestion}'?`
+      : `${problem.message}, '${problem.name}'`;
+    const position = getRowColumnPosition(traversal.fullText, problem.absolutePosition);
+    const diagnostic = createDiagnostic(position, problem.name.length, DiagnosticSeverity.Error, message, DiagnosticCodes.INVALID_GLOBALS);
+    addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
+  });
+}
+
+// Pseudo parameters have to exist, and some of them only work in particular places
+export function createDiagnosticsFromPseudoParameters(
+  rootNode: Node,
+  traversal: NodeTraversal,
+  diagnosticCollection: DiagnosticCollection,
+) {
+  const ifBranchPositions = getIfBranchRefPositions(rootNode);
+  traversal.nodesWhichReference.forEach((node) => {
+    (node.references || []).forEach((reference) => {
+      if (!isPseudoParameterReference(reference)) return;
+      const name = reference.referencedKey;
+      let message: string | undefined;
+      let code = DiagnosticCodes.MISUSED_PSEUDO_PARAMETER;
+      if (Maps.pseudoParameters.indexOf(name) < 0) {
+        const suggestion = getSimilarNames(name, Maps.pseudoParameters, 1)[0];
+        message = suggestion
+          ? `Unable to find pseudo parameter '${name}', did you mean '${suggestion}'?`
+          : `Unable to find pseudo parameter, '${name}'`;
+        code = DiagnosticCodes.UNKNOWN_PSEUDO_PARAMETER;
+      } else if (name === 'AWS::NoValue' && ifBranchPositions.indexOf(reference.absoluteKeyPosition) < 0) {
+        message = `Pseudo parameter can only be used with !Ref as a branch of Fn::If, '${name}'`;
+      } else if (name === 'AWS::NotificationARNs' && reference.type === ReferenceTypes.SUB) {
+        message = `Pseudo parameter is a list, which !Sub can't use, '${name}'`;
+      }
+      if (!message) return;
+      const position = getRowColumnPosition(traversal.fullText, reference.absoluteKeyPosition);
+      const diagnostic = createDiagnostic(position, name.length, DiagnosticSeverity.Error, message, code);
+      addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
+    });
+  });
+}
+
+function isPseudoParameterReference(reference: Reference): boolean {
+  const canBePseudoParameter = reference.type === ReferenceTypes.REF || reference.type === ReferenceTypes.SUB;
+  return canBePseudoParameter && reference.referencedKey.startsWith('AWS::');
+}
+
+// Where the names of '!Ref Name' and 'Ref: Name' start, when they are a whole branch of an Fn::If
+function getIfBranchRefPositions(rootNode: Node): number[] {
+  const positions: number[] = [];
+  getIfBranches(rootNode).forEach((branch) => {
+    const isMap = branch.type === NodeTypes.MAP || branch.type === NodeTypes.FLOW_MAP;
+    const refNode = isMap && branch.items.length === 1 && branch.items[0].stringKey === 'Ref'
+      ? getNodeValueIfPair(branch.items[0])
+      : branch;
+    if (typeof refNode.value === 'string' && getNodeTag(refNode) === '!Ref') positions.push(getValueStart(refNode));
+  });
+  return positions;
+}
+
+// The Mappings section has a fixed shape, and !FindInMap keys which are known up front have to be in it
+export function createDiagnosticsFromMappings(
+  rootNode: Node,
+  traversal: NodeTraversal,
+  diagnosticCollection: DiagnosticCollection,
+) {
+  Mappings.findProblems(rootNode).forEach((problem) => {
+    const position = getRowColumnPosition(traversal.fullText, problem.node.range[0]);
+    const message = `${problem.message}, '${problem.name}'`;
+    const diagnostic = createDiagnostic(position, problem.name.length, DiagnosticSeverity.Error, message, DiagnosticCodes.INVALID_MAPPING);
+    addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
+  });
+
+  const mappingKeys = Mappings.getKeys(rootNode);
+  Mappings.findLookups(rootNode).forEach(([mapNameNode, topLevelKeyNode, secondLevelKeyNode]) => {
+    // Unknown map names are already reported as unknown references
+    const mapName = mapNameNode.value;
+    if (typeof mapName !== 'string' || !mappingKeys[mapName]) return;
+    const map = mappingKeys[mapName];
+
+    const topLevelKey = Mappings.getKey(rootNode, topLevelKeyNode);
+    const knownTopLevelKeys = topLevelKey ? topLevelKey.values.filter(value => !!map[value]) : [];
+    if (topLevelKey) {
+      topLevelKey.values.filter(value => !map[value]).forEach((value) => {
+        addUnknownMapKeyDiagnostic(traversal, topLevelKey, `top-level key in ${mapName}`, value, diagnosticCollection);
+      });
+    }
+
+    const secondLevelKey = Mappings.getKey(rootNode, secondLevelKeyNode);
+    if (!secondLevelKey) return;
+    secondLevelKey.values.forEach((value) => {
+      if (topLevelKey) {
+        knownTopLevelKeys.filter(key => map[key].indexOf(value) < 0).forEach((key) => {
+          addUnknownMapKeyDiagnostic(traversal, secondLevelKey, `second-level key in ${mapName}.${key}`, value, diagnosticCollection);
+        });
+      } else if (!Object.keys(map).some(key => map[key].indexOf(value) > -1)) {
+        // Without knowing the top-level key, only a key which is under none of them is certainly wrong
+        addUnknownMapKeyDiagnostic(traversal, secondLevelKey, `second-level key in ${mapName}`, value, diagnosticCollection);
+      }
+    });
+  });
+}
+
+function addUnknownMapKeyDiagnostic(traversal: NodeTraversal, key: MapKey, description: string, value: string, diagnosticCollection: DiagnosticCollection) {
+  const message = key.parameterName
+    ? `Unable to find ${description} for an allowed value of ${key.parameterName}, '${value}'`
+    : `Unable to find ${description}, '${value}'`;
+  const position = getRowColumnPosition(traversal.fullText, key.absolutePosition);
+  const diagnostic = createDiagnostic(position, key.length, DiagnosticSeverity.Error, message, DiagnosticCodes.UNKNOWN_MAP_KEY);
+  addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
+}
+
+// Conditions have to be built from condition functions, and can only use parameters and other conditions
+export function createDiagnosticsFromConditions(
+  rootNode: Node,
+  traversal: NodeTraversal,
+  diagnosticCollection: DiagnosticCollection,
+) {
+  Conditions.findProblems(rootNode).forEach((problem) => {
+    const position = getRowColumnPosition(traversal.fullText, problem.absolutePosition);
+    const message = `${problem.message}, '${problem.name}'`;
+    const diagnostic = createDiagnostic(position, problem.name.length, DiagnosticSeverity.Error, message, DiagnosticCodes.INVALID_CONDITION);
+    addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
+  });
+
+  const declarations = Declarations.getDeclarations(rootNode);
+  const conditions = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Conditions'));
+  const isInConditions = (position: number) => !!conditions.range && position >= conditions.range[0] && position < conditions.range[1];
+  traversal.nodesWhichReference.forEach((node) => {
+    (node.references || []).forEach((reference) => {
+      const name = reference.referencedKey.split('.')[0];
+      let message: string | undefined;
+      let code = DiagnosticCodes.INVALID_CONDITION;
+      const isConditionReference = reference.type === ReferenceTypes.CONDITION || reference.type === ReferenceTypes.IF;
+      if (isConditionReference) {
+        // Names which aren't declared anywhere are already reported, these are declared in another section
+        const isOtherDeclaration = !Declarations.findDeclaration(declarations, name, ['Conditions'])
+          && traversal.localReferenceables.indexOf(name) > -1;
+        if (isOtherDeclaration) message = Maps.referenceTypeToDiagnosticMessage[reference.type](name);
+        code = DiagnosticCodes.UNKNOWN_REFERENCE;
+      } else if (isInConditions(reference.absoluteKeyPosition) && Declarations.findDeclaration(declarations, name, ['Resources'])) {
+        message = `Conditions can only reference parameters, '${name}'`;
+      }
+      if (!message) return;
+      const position = getRowColumnPosition(traversal.fullText, reference.absoluteKeyPosition);
+      const diagnostic = createDiagnostic(position, name.length, DiagnosticSeverity.Error, message, code);
+      addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
+    });
+  });
+}
+
+// Referencing a resource with a Condition fails the deployment whenever the condition is false
+export function createDiagnosticsFromConditionalReferences(
+  rootNode: Node,
+  traversal: NodeTraversal,
+  diagnosticCollection: DiagnosticCollection,
+) {
+  ConditionalReferences.findUnguarded(rootNode, traversal).forEach((unguardedReference) => {
+    const position = getRowColumnPosition(traversal.fullText, unguardedReference.reference.absoluteKeyPosition);
+    const path = ConditionalReferences.getPath(unguardedReference);
+    const message = `Reference is not guarded by condition ${unguardedReference.condition}, which ${unguardedReference.to} is created with, '${path}'`;
+    const diagnostic = createDiagnostic(
+      position,
+      unguardedReference.to.length,
+      DiagnosticSeverity.Warning,
+      message,
+      DiagnosticCodes.UNGUARDED_CONDITIONAL_REFERENCE,
+    );
+    addDiagnostic(traversal.filePath, diagnostic, diagnosticCollection);
+  });
+}
+
+// Only the parent stacks can tell whether a sub stack template's outputs are used
+export function createDiagnosticsFromUnusedOutputs(
+  rootNode: Node,
+  fullText: string,
+  filePath: string,
+  consumedOutputs: string[],
+  diagnosticCollection: DiagnosticCollection,
+) {
+  const outputs = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Outputs'));
+  (outputs.items || []).forEach((item) => {
+    const name = item.stringKey;
+    if (!name || !item.key || !item.key.range || consumedOutputs.indexOf(name) > -1) return;
+    const position = getRowColumnPosition(fullText, item.key.range[0]);
+    const message = `Output is not used by any parent stack, '${name}'`;
+    const diagnostic = createDiagnostic(position, name.length, DiagnosticSeverity.Warning, message, DiagnosticCodes.UNUSED_SUB_STACK_OUTPUT);
+    addDiagnostic(filePath, diagnostic, diagnosticCollection);
+  });
+}
+
+// Imports are looked up in the whole workspace, and export names have to be unique within an account and region
+export function createDiagnosticsFromExportsAndImports(
+  rootNode: Node,
+  fullText: string,
+  filePath: string,
+  exportIndex: ExportIndex,
+  diagnosticCollection: DiagnosticCollection,
+) {
+  // The index may be behind on this template, so use its current text instead
+  const ownExportNames = Exports.findExports(rootNode, filePath);
+  const exportNames = [
+    ...exportIndex.getExports().filter(exportName => exportName.filePath !== filePath),
+    ...ownExportNames,
+  ];
+
+  Exports.findImports(rootNode, filePath).forEach((importName) => {
+    if (exportNames.some(exportName => Exports.matches(importName.name, exportName.name))) return;
+    const position = getRowColumnPosition(fullText, importName.absolutePosition);
+    const message = `Unable to find exported value in the workspace, '${importName.name}'`;
+    const diagnostic = createDiagnostic(position, importName.length, DiagnosticSeverity.Warning, message, DiagnosticCodes.UNKNOWN_EXPORT);
+    addDiagnostic(filePath, diagnostic, diagnosticCollection);
+  });
+
+  ownExportNames.forEach((ownExportName) => {
+    if (Exports.isStackSpecific(ownExportName.name)) return;
+    const duplicate = exportNames.find((exportName) => {
+      return exportName.name === ownExportName.name && exportName.absolutePosition !== ownExportName.absolutePosition;
+    });
+    if (!duplicate) return;
+    const position = getRowColumnPosition(fullText, ownExportName.absolutePosition);
+    const message = `Export name is also used ${describeExportLocation(duplicate, filePath)}, '${ownExportName.name}'`;
+    const diagnostic = createDiagnostic(position, ownExportName.length, DiagnosticSeverity.Error, message, DiagnosticCodes.DUPLICATE_EXPORT);
+    addDiagnostic(filePath, diagnostic, diagnosticCollection);
+  });
+}
+
+function describeExportLocation(exportName: ExportName, filePath: string): string {
+  if (exportName.filePath === filePath) return 'in this template';
+  return `in ${path.relative(path.dirname(filePath), exportName.filePath)}`;
+}
@@ -0,0 +1,126 @@
+import YAML from 'yaml';
+
+import { getNodeItemByStringKey, getNodeValueIfPair, getValueStart } from '../Yaml';
+import { Node } from '../Yaml/Node';
+import { NodeTypes } from '../Yaml/NodeTypes';
+import { Maps } from './Maps';
+
+// An Export.Name or Fn::ImportValue name which can be worked out without deploying the template
+export interface ExportName {
+  // Pseudo parameters are kept as they are written, like '${AWS::Region}-VpcId'
+  name: string;
+  filePath: string;
+  absolutePosition: number;
+  length: number;
+}
+
+export namespace Exports {
+  // Names using these differ for every stack, so they can't clash with another stack's
+  const STACK_SPECIFIC_PARAMETERS = ['AWS::StackId', 'AWS::StackName'];
+
+  export function findExports(rootNode: Node, filePath: string): ExportName[] {
+    const exportNames: ExportName[] = [];
+    const outputs = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Outputs'));
+    (outputs.items || []).forEach((output) => {
+      const exportNode = getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(output), 'Export'));
+      const exportName = resolveName(getNodeValueIfPair(getNodeItemByStringKey(exportNode, 'Name')), filePath);
+      if (exportName) exportNames.push(exportName);
+    });
+    return exportNames;
+  }
+
+  // Both '!ImportValue name' and 'Fn::ImportValue: name', anywhere in the template
+  export function findImports(node: Node, filePath: string): ExportName[] {
+    if (!node || node.type === NodeTypes.EMPTY) return [];
+    if (node.type === NodeTypes.PAIR) {
+      if (node.stringKey === 'Fn::ImportValue') return toList(resolveName(getNodeValueIfPair(node), filePath));
+      return findImports(node.value as Node, filePath);
+    }
+    if (node.tag === '!ImportValue') return toList(resolveName(node, filePath));
+    const importNames: ExportName[] = [];
+    (node.items || []).forEach((item) => {
+      importNames.push(...findImports(item, filePath));
+    });
+    return importNames;
+  }
+
+  // Literal names, and !Sub names which only use pseudo parameters, can be resolved
+  export function resolveName(node: Node, filePath: string, isSub: boolean = node.tag === '!Sub'): ExportName | undefined {
+    // The long form, 'Fn::Sub: name', is a map with a single pair
+    const isMap = node.type === NodeTypes.MAP || node.type === NodeTypes.FLOW_MAP;
+    if (isMap && node.items.length === 1 && node.items[0].stringKey === 'Fn::Sub') {
+      return resolveName(getNodeValueIfPair(node.items[0]), filePath, true);
+    }
+
+    const isScalar = node.type === NodeTypes.PLAIN || node.type === NodeTypes.QUOTE_DOUBLE || node.type === NodeTypes.QUOTE_SINGLE;
+    if (!isScalar || typeof node.value !== 'string') return undefined;
+    // Any other intrinsic function can't be evaluated
+    if (!isSub && node.tag && node.tag.startsWith('!') && node.tag !== '!ImportValue') return undefined;
+    if (isSub) {
+      const variables = node.value.match(/\$\{[^}]*\}/g) || [];
+      const onlyPseudoParameters = variables.every(variable => Maps.pseudoParameters.indexOf(variable.substring(2, variable.length - 1)) > -1);
+      if (!onlyPseudoParameters) return undefined;
+    }
+    return {
+      filePath,
+      name: node.value,
+      absolutePosition: getValueStart(node),
+      length: node.value.length,
+    };
+  }
+
+  // A pseudo parameter on either side could stand for whatever the other side spells out
+  export function matches(importName: string, exportName: string): boolean {
+    return importName === exportName || toPattern(exportName).test(importName) || toPattern(importName).test(exportName);
+  }
+
+  export function isStackSpecific(name: string): boolean {
+    return STACK_SPECIFIC_PARAMETERS.some(parameter => name.indexOf(`\${${parameter}}`) > -1);
+  }
+
+  function toPattern(name: string): RegExp {
+    const literals = name.split(/\$\{[^}]*\}/).map(literal => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`^${literals.join('.+')}$`);
+  }
+
+  function toList(exportName: ExportName | undefined): ExportName[] {
+    return exportName ? [exportName] : [];
+  }
+}
+
+// The export names of every template in a workspace, whoever owns it updates it as files change
+export class ExportIndex {
+  private exportNames: { [filePath: string]: ExportName[] } = {};
+
+  // Returns whether the file's export names changed, in which case templates importing them should be checked again
+  public update(filePath: string, fullText: string): boolean {
+    let exportNames: ExportName[] = [];
+    try {
+      const document = YAML.parseDocument(fullText, { keepCstNodes: true });
+      exportNames = Exports.findExports(document.contents as Node, filePath);
+    } catch (error) {
+      // A template which can't be parsed doesn't export anything
+    }
+    const changed = getNames(this.exportNames[filePath] || []) !== getNames(exportNames);
+    this.exportNames[filePath] = exportNames;
+    return changed;
+  }
+
+  public remove(filePath: string): boolean {
+    const changed = (this.exportNames[filePath] || []).length > 0;
+    delete this.exportNames[filePath];
+    return changed;
+  }
+
+  public getExports(): ExportName[] {
+    const exportNames: ExportName[] = [];
+    Object.keys(this.exportNames).forEach((filePath) => {
+      exportNames.push(...this.exportNames[filePath]);
+    });
+    return exportNames;
+  }
+}
+
+function getNames(exportNames: ExportName[]): string {
+  return exportNames.map(exportName => exportName.name).sort().join('\n');
+}
@@ -0,0 +1,14 @@
+import { Range, createRange } from './Diagnostics';
+import { getRowColumnPosition } from './RowColumnPosition';
+
+export interface Location {
+  filePath: string;
+  range: Range;
+}
+
+export function createLocation(filePath: string, fullText: string, absolutePosition: number, length: number): Location {
+  return {
+    filePath,
+    range: createRange(getRowColumnPosition(fullText, absolutePosition), length),
+  };
+}
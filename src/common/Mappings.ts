@@ -0,0 +1,108 @@
+import { getFunctionArguments, getNodeItemByStringKey, getNodeTag, getNodeValueIfPair, getValueStart, isLiteral } from '../Yaml';
+import { Node } from '../Yaml/Node';
+import { NodeTypes } from '../Yaml/NodeTypes';
+
+// The second-level keys under each top-level key, for every map in the Mappings section
+export interface MappingKeys {
+  [mapName: string]: { [topLevelKey: string]: string[] };
+}
+
+// A !FindInMap key whose possible values are known before deploying the template
+export interface MapKey {
+  values: string[];
+  // Set when the key is a !Ref to a parameter, whose AllowedValues are the possible values
+  parameterName?: string;
+  absolutePosition: number;
+  length: number;
+}
+
+// Something in the Mappings section which CloudFormation won't accept
+export interface MappingProblem {
+  message: string;
+  node: Node;
+  name: string;
+}
+
+export namespace Mappings {
+  // Maps which aren't a map of top-level keys are left out, findProblems reports those
+  export function getKeys(rootNode: Node): MappingKeys {
+    const keys: MappingKeys = {};
+    const mappings = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Mappings'));
+    (mappings.items || []).forEach((map) => {
+      if (!map.stringKey || !isMap(getNodeValueIfPair(map))) return;
+      keys[map.stringKey] = {};
+      (getNodeValueIfPair(map).items || []).forEach((topLevelKey) => {
+        if (!topLevelKey.stringKey) return;
+        const secondLevelKeys = (getNodeValueIfPair(topLevelKey).items || []).map(item => item.stringKey).filter(key => !!key) as string[];
+        keys[map.stringKey as string][topLevelKey.stringKey] = secondLevelKeys;
+      });
+    });
+    return keys;
+  }
+
+  // Every map needs two levels of keys, and the values have to be strings or lists of strings
+  export function findProblems(rootNode: Node): MappingProblem[] {
+    const problems: MappingProblem[] = [];
+    const mappings = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Mappings'));
+    (mappings.items || []).forEach((map) => {
+      const topLevelKeys = getNodeValueIfPair(map);
+      if (!isMap(topLevelKeys) || topLevelKeys.items.length === 0) {
+        problems.push(createProblem('Mapping must contain top-level keys', map));
+        return;
+      }
+      topLevelKeys.items.forEach((topLevelKey) => {
+        const secondLevelKeys = getNodeValueIfPair(topLevelKey);
+        if (!isMap(secondLevelKeys) || secondLevelKeys.items.length === 0) {
+          problems.push(createProblem('Top-level key must contain second-level keys', topLevelKey));
+          return;
+        }
+        secondLevelKeys.items.forEach((secondLevelKey) => {
+          const value = getNodeValueIfPair(secondLevelKey);
+          const isValid = isSequence(value) ? value.items.every(isLiteral) : isLiteral(value);
+          if (!isValid) problems.push(createProblem('Mapping value must be a string or a list of strings', secondLevelKey));
+        });
+      });
+    });
+    return problems;
+  }
+
+  // The [map name, top-level key, second-level key] of every !FindInMap
+  export function findLookups(rootNode: Node): Node[][] {
+    return getFunctionArguments(rootNode, 'Fn::FindInMap').filter(items => items.length === 3);
+  }
+
+  // Literals have one possible value, and a !Ref to a parameter can only be one of its AllowedValues
+  export function getKey(rootNode: Node, keyNode: Node): MapKey | undefined {
+    if (isLiteral(keyNode)) {
+      const value = String(keyNode.value);
+      return { values: [value], absolutePosition: getValueStart(keyNode), length: value.length };
+    }
+
+    const refNode = isMap(keyNode) && keyNode.items.length === 1 && keyNode.items[0].stringKey === 'Ref'
+      ? getNodeValueIfPair(keyNode.items[0])
+      : keyNode;
+    if (typeof refNode.value !== 'string' || getNodeTag(refNode) !== '!Ref') return undefined;
+    const parameterName = refNode.value;
+    const parameters = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Parameters'));
+    const allowedValues = getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(getNodeItemByStringKey(parameters, parameterName)), 'AllowedValues'));
+    if (!isSequence(allowedValues) || !allowedValues.items.every(isLiteral)) return undefined;
+    return {
+      parameterName,
+      values: allowedValues.items.map(item => String(item.value)),
+      absolutePosition: getValueStart(refNode),
+      length: parameterName.length,
+    };
+  }
+
+  function createProblem(message: string, pair: Node): MappingProblem {
+    return { message, node: pair.key, name: pair.stringKey as string };
+  }
+
+  function isMap(node: Node): boolean {
+    return node.type === NodeTypes.MAP || node.type === NodeTypes.FLOW_MAP;
+  }
+
+  function isSequence(node: Node): boolean {
+    return node.type === NodeTypes.SEQ || node.type === NodeTypes.FLOW_SEQ;
+  }
+}
@@ -5,8 +5,32 @@ export namespace Maps {
     '!If': ReferenceTypes.IF,
     '!FindInMap': ReferenceTypes.FIND_IN_MAP,
     DependsOn: ReferenceTypes.DEPENDS_ON,
+    Condition: ReferenceTypes.CONDITION,
+    '!Condition': ReferenceTypes.CONDITION,
   };
 
+  // Long form intrinsic functions, which are keys rather than tags, and their short form equivalents
+  export const longFormToShortForm = {
+    Ref: '!Ref',
+    'Fn::GetAtt': '!GetAtt',
+    'Fn::Sub': '!Sub',
+    'Fn::If': '!If',
+    'Fn::FindInMap': '!FindInMap',
+    'Fn::ImportValue': '!ImportValue',
+  };
+
+  // Parameters which CloudFormation predefines for every stack
+  export const pseudoParameters = [
+    'AWS::AccountId',
+    'AWS::NotificationARNs',
+    'AWS::NoValue',
+    'AWS::Partition',
+    'AWS::Region',
+    'AWS::StackId',
+    'AWS::StackName',
+    'AWS::URLSuffix',
+  ];
+
   export const nodeTypeToSubOffset = {
     PLAIN: 0,
     QUOTE_DOUBLE: 1,
@@ -14,6 +38,7 @@ export namespace Maps {
   };
 
   export const referenceTypeToDiagnosticMessage: { [referenceType: string]: (key: string) => string } = {
+    [ReferenceTypes.CONDITION]: key => `Unable to find referenced condition, '${key}'`,
     [ReferenceTypes.DEPENDS_ON]: key => `Unable to find referenced resource, '${key}'`,
     [ReferenceTypes.FIND_IN_MAP]: key => `Unable to find referenced map, '${key}'`,
     [ReferenceTypes.GET_ATT]: key => `Unable to find referenced sub stack output, '${key}'`,
@@ -21,4 +46,15 @@ export namespace Maps {
     [ReferenceTypes.REF]: key => `Unable to find referenced value, '${key}'`,
     [ReferenceTypes.SUB]: key => `Unable to find referenced value, '${key}'`,
   };
+
+  // The template sections in which each type of reference can find its target
+  export const referenceTypeToSections: { [referenceType: string]: string[] } = {
+    [ReferenceTypes.CONDITION]: ['Conditions'],
+    [ReferenceTypes.DEPENDS_ON]: ['Resources'],
+    [ReferenceTypes.FIND_IN_MAP]: ['Mappings'],
+    [ReferenceTypes.GET_ATT]: ['Resources'],
+    [ReferenceTypes.IF]: ['Conditions'],
+    [ReferenceTypes.REF]: ['Parameters', 'Resources'],
+    [ReferenceTypes.SUB]: ['Parameters', 'Resources'],
+  };
 }
@@ -0,0 +1,146 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+import { getNodeItemByStringKey, getNodeValueIfPair, getValueStart, isLiteral } from '../Yaml';
+import { Node } from '../Yaml/Node';
+import { NodeTypes } from '../Yaml/NodeTypes';
+
+// A value a parameter file gives one of the template's parameters
+export interface ParameterOverride {
+  key: string;
+  keyPosition: number;
+  // Missing when the file keeps the previous deployment's value, or gives something other than a string, number or boolean
+  value?: string;
+  valuePosition?: number;
+}
+
+export interface ParameterFile {
+  overrides: ParameterOverride[];
+  // Where the file lists its parameters, parameters it leaves out are reported here
+  absolutePosition: number;
+  length: number;
+}
+
+// The template each parameter file is deployed with, both relative to the workspace folder
+export interface ParameterFileAssociations {
+  [parameterFilePath: string]: string;
+}
+
+export namespace ParameterFiles {
+  // 'app.parameters.json' and 'app.dev.parameters.json' both go with 'app.yml'
+  const NAMING_CONVENTION = /^(.+)\.parameters\.(json|properties)$/;
+
+  export const GLOB = '**/*.parameters.{json,properties}';
+
+  const TEMPLATE_EXTENSIONS = ['.yml', '.yaml', '.json', '.template'];
+
+  // The CLI's list of ParameterKey and ParameterValue, CodePipeline's {"Parameters": {...}}, a JSON object or Key=Value lines
+  export function parse(fullText: string): ParameterFile | undefined {
+    const trimmedText = fullText.trim();
+    if (!trimmedText.startsWith('[') && !trimmedText.startsWith('{')) return parseKeyValueLines(fullText);
+
+    // JSON is parsed as YAML, which keeps the position of everything in the file
+    const document = YAML.parseDocument(fullText, { keepCstNodes: true });
+    if (document.errors.length > 0) return undefined;
+    const contents = document.contents as Node;
+    if (isSequence(contents)) return parseCliList(contents);
+    if (!isMap(contents)) return undefined;
+
+    const parametersPair = getNodeItemByStringKey(contents, 'Parameters');
+    const parameters = getNodeValueIfPair(parametersPair);
+    if (isMap(parameters)) {
+      return { overrides: getOverrides(parameters), absolutePosition: getValueStart(parametersPair.key), length: 'Parameters'.length };
+    }
+    return { overrides: getOverrides(contents), absolutePosition: contents.range[0], length: 1 };
+  }
+
+  export function isParameterFile(filePath: string, associations: ParameterFileAssociations = {}, workspaceFolderPath?: string): boolean {
+    return NAMING_CONVENTION.test(path.basename(filePath)) || getAssociatedTemplatePath(filePath, associations, workspaceFolderPath) !== undefined;
+  }
+
+  // The template a parameter file was configured with, or failing that the first existing template its name points at
+  export function findTemplatePath(filePath: string, associations: ParameterFileAssociations = {}, workspaceFolderPath?: string): string | undefined {
+    const associatedPath = getAssociatedTemplatePath(filePath, associations, workspaceFolderPath);
+    if (associatedPath) return associatedPath;
+    return getConventionalTemplatePaths(filePath).find(templatePath => fs.existsSync(templatePath));
+  }
+
+  // The most specific name comes first, so 'app.dev.parameters.json' prefers 'app.dev.yml' to 'app.yml'
+  export function getConventionalTemplatePaths(filePath: string): string[] {
+    const match = NAMING_CONVENTION.exec(path.basename(filePath));
+    if (!match) return [];
+    const nameParts = match[1].split('.');
+    const templatePaths: string[] = [];
+    for (let count = nameParts.length; count > 0; count -= 1) {
+      const name = nameParts.slice(0, count).join('.');
+      TEMPLATE_EXTENSIONS.forEach(extension => templatePaths.push(path.join(path.dirname(filePath), `${name}${extension}`)));
+    }
+    return templatePaths;
+  }
+
+  function getAssociatedTemplatePath(filePath: string, associations: ParameterFileAssociations, workspaceFolderPath?: string): string | undefined {
+    const resolve = (relativePath: string) => workspaceFolderPath ? path.resolve(workspaceFolderPath, relativePath) : path.resolve(relativePath);
+    const parameterFilePath = Object.keys(associations).find(key => resolve(key) === path.resolve(filePath));
+    return parameterFilePath ? resolve(associations[parameterFilePath]) : undefined;
+  }
+
+  function parseCliList(list: Node): ParameterFile {
+    const overrides: ParameterOverride[] = [];
+    list.items.forEach((item) => {
+      const keyNode = getNodeValueIfPair(getNodeItemByStringKey(item, 'ParameterKey'));
+      if (!isLiteral(keyNode)) return;
+      const override: ParameterOverride = { key: String(keyNode.value), keyPosition: getValueStart(keyNode) };
+      const valueNode = getNodeValueIfPair(getNodeItemByStringKey(item, 'ParameterValue'));
+      if (isLiteral(valueNode)) {
+        override.value = String(valueNode.value);
+        override.valuePosition = getValueStart(valueNode);
+      }
+      overrides.push(override);
+    });
+    return { overrides, absolutePosition: list.range[0], length: 1 };
+  }
+
+  function getOverrides(map: Node): ParameterOverride[] {
+    return map.items.filter(pair => pair.stringKey !== undefined && pair.key).map((pair) => {
+      const override: ParameterOverride = { key: pair.stringKey as string, keyPosition: getValueStart(pair.key) };
+      const valueNode = getNodeValueIfPair(pair);
+      if (isLiteral(valueNode)) {
+        override.value = String(valueNode.value);
+        override.valuePosition = getValueStart(valueNode);
+      }
+      return override;
+    });
+  }
+
+  // One Key=Value per line, with blank lines and '#' comments skipped
+  function parseKeyValueLines(fullText: string): ParameterFile | undefined {
+    const overrides: ParameterOverride[] = [];
+    let lineStart = 0;
+    for (const line of fullText.split('\n')) {
+      const trimmedLine = line.trim();
+      if (trimmedLine !== '' && !trimmedLine.startsWith('#')) {
+        const separator = line.indexOf('=');
+        if (separator < 0) return undefined;
+        const key = line.substring(0, separator).trim();
+        const value = line.substring(separator + 1).trim();
+        overrides.push({
+          key,
+          value,
+          keyPosition: lineStart + line.indexOf(key),
+          valuePosition: lineStart + separator + 1 + line.substring(separator + 1).indexOf(value),
+        });
+      }
+      lineStart += line.length + 1;
+    }
+    return { overrides, absolutePosition: 0, length: 0 };
+  }
+
+  function isMap(node: Node): boolean {
+    return node.type === NodeTypes.MAP || node.type === NodeTypes.FLOW_MAP;
+  }
+
+  function isSequence(node: Node): boolean {
+    return node.type === NodeTypes.SEQ || node.type === NodeTypes.FLOW_SEQ;
+  }
+}
@@ -0,0 +1,247 @@
+import { getNodeItemByStringKey, getNodeValueIfPair, getValueStart, isLiteral } from '../Yaml';
+import { Node } from '../Yaml/Node';
+import { NodeTypes } from '../Yaml/NodeTypes';
+import { getSimilarNames } from '.';
+
+// The parts of a parameter declaration which say what values it accepts, as plain data so it can be passed between templates
+export interface ParameterDefinition {
+  type?: string;
+  allowedValues?: string[];
+  allowedPattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minValue?: number;
+  maxValue?: number;
+}
+
+// Something in a parameter declaration which CloudFormation won't accept
+export interface ParameterProblem {
+  message: string;
+  absolutePosition: number;
+  // What the problem is about, as it is written in the template
+  name: string;
+  // What was probably meant instead
+  suggestion?: string;
+}
+
+export namespace Parameters {
+  // Types whose values are the ID or name of something which already exists in the account
+  const AWS_SPECIFIC_TYPES = [
+    'AWS::EC2::AvailabilityZone::Name',
+    'AWS::EC2::Image::Id',
+    'AWS::EC2::Instance::Id',
+    'AWS::EC2::KeyPair::KeyName',
+    'AWS::EC2::SecurityGroup::GroupName',
+    'AWS::EC2::SecurityGroup::Id',
+    'AWS::EC2::Subnet::Id',
+    'AWS::EC2::Volume::Id',
+    'AWS::EC2::VPC::Id',
+    'AWS::Route53::HostedZone::Id',
+  ];
+
+  const VALUE_TYPES = [
+    'String',
+    'Number',
+    'List<Number>',
+    'CommaDelimitedList',
+    ...AWS_SPECIFIC_TYPES,
+    ...AWS_SPECIFIC_TYPES.map(type => `List<${type}>`),
+  ];
+
+  // The value of these is the name of a Systems Manager parameter, which is only looked up when the stack is deployed
+  const SSM_TYPES = [
+    'AWS::SSM::Parameter::Name',
+    ...['String', 'List<String>', 'CommaDelimitedList', ...AWS_SPECIFIC_TYPES, ...AWS_SPECIFIC_TYPES.map(type => `List<${type}>`)]
+      .map(type => `AWS::SSM::Parameter::Value<${type}>`),
+  ];
+
+  export const TYPES = [...VALUE_TYPES, ...SSM_TYPES];
+
+  // The value types each constraint works with, AllowedValues works with all of them
+  const constraintToTypes = {
+    AllowedPattern: ['String', 'CommaDelimitedList'],
+    MinLength: ['String'],
+    MaxLength: ['String'],
+    MinValue: ['Number'],
+    MaxValue: ['Number'],
+  };
+
+  const NUMERIC_CONSTRAINTS = ['MinLength', 'MaxLength', 'MinValue', 'MaxValue'];
+
+  export function getDefinition(parameter: Node): ParameterDefinition {
+    const definition: ParameterDefinition = {};
+    const type = getLiteral(parameter, 'Type');
+    if (type !== undefined) definition.type = type;
+    const allowedValues = getNodeValueIfPair(getNodeItemByStringKey(parameter, 'AllowedValues'));
+    if ((allowedValues.type === NodeTypes.SEQ || allowedValues.type === NodeTypes.FLOW_SEQ) && allowedValues.items.every(isLiteral)) {
+      definition.allowedValues = allowedValues.items.map(item => String(item.value));
+    }
+    const allowedPattern = getLiteral(parameter, 'AllowedPattern');
+    if (allowedPattern !== undefined) definition.allowedPattern = allowedPattern;
+    const numbers = {
+      minLength: getNumber(parameter, 'MinLength'),
+      maxLength: getNumber(parameter, 'MaxLength'),
+      minValue: getNumber(parameter, 'MinValue'),
+      maxValue: getNumber(parameter, 'MaxValue'),
+    };
+    Object.keys(numbers).forEach((key) => {
+      if (numbers[key] !== undefined) definition[key] = numbers[key];
+    });
+    return definition;
+  }
+
+  // Missing and unknown Types, and constraints which aren't numbers
+  export function findProblems(rootNode: Node): ParameterProblem[] {
+    const problems: ParameterProblem[] = [];
+    forEachParameter(rootNode, (name, keyPosition, parameter) => {
+      const typeNode = getNodeValueIfPair(getNodeItemByStringKey(parameter, 'Type'));
+      const type = getLiteral(parameter, 'Type');
+      if (typeNode.type === NodeTypes.EMPTY) {
+        problems.push({ name, message: 'Parameter must have a Type', absolutePosition: keyPosition });
+      } else if (type !== undefined && TYPES.indexOf(type) < 0) {
+        const suggestion = getSimilarNames(type, TYPES, 1)[0];
+        problems.push({ suggestion, message: 'Unable to find parameter type', name: type, absolutePosition: getValueStart(typeNode) });
+      }
+
+      NUMERIC_CONSTRAINTS.forEach((constraint) => {
+        const constraintNode = getNodeValueIfPair(getNodeItemByStringKey(parameter, constraint));
+        if (constraintNode.type === NodeTypes.EMPTY || getNumber(parameter, constraint) !== undefined) return;
+        const text = isLiteral(constraintNode) ? String(constraintNode.value) : constraint;
+        const absolutePosition = isLiteral(constraintNode) ? getValueStart(constraintNode) : getNodeItemByStringKey(parameter, constraint).key.range[0];
+        problems.push({ absolutePosition, message: `${constraint} must be a number`, name: text });
+      });
+    });
+    return problems;
+  }
+
+  export function findInvalidDefaults(rootNode: Node): ParameterProblem[] {
+    const problems: ParameterProblem[] = [];
+    forEachParameter(rootNode, (name, keyPosition, parameter) => {
+      const defaultNode = getNodeValueIfPair(getNodeItemByStringKey(parameter, 'Default'));
+      if (!isLiteral(defaultNode)) return;
+      const value = String(defaultNode.value);
+      checkValue(getDefinition(parameter), value).forEach((reason) => {
+        problems.push({ message: `Default ${reason}`, name: value, absolutePosition: getValueStart(defaultNode) });
+      });
+    });
+    return problems;
+  }
+
+  // Constraints are ignored, rather than rejected, when they don't apply to the parameter's Type
+  export function findInapplicableConstraints(rootNode: Node): ParameterProblem[] {
+    const problems: ParameterProblem[] = [];
+    forEachParameter(rootNode, (name, keyPosition, parameter) => {
+      const type = getLiteral(parameter, 'Type');
+      if (type === undefined || VALUE_TYPES.indexOf(type) < 0) return;
+      Object.keys(constraintToTypes).forEach((constraint) => {
+        const constraintPair = getNodeItemByStringKey(parameter, constraint);
+        if (constraintPair.type === NodeTypes.EMPTY || constraintToTypes[constraint].indexOf(type) > -1) return;
+        problems.push({
+          message: `${constraint} doesn't apply to ${type} parameters`,
+          absolutePosition: constraintPair.key.range[0],
+          name: constraint,
+        });
+      });
+    });
+    return problems;
+  }
+
+  // Why the parameter wouldn't accept the value, nothing when it would or when that can't be known before deploying
+  export function checkValue(definition: ParameterDefinition, value: string): string[] {
+    const type = definition.type || 'String';
+    if (VALUE_TYPES.indexOf(type) < 0) return [];
+    const isList = type.startsWith('List<') || type === 'CommaDelimitedList';
+    const items = isList ? value.split(',').map(item => item.trim()) : [value];
+    const reasons: string[] = [];
+
+    if ((type === 'Number' || type === 'List<Number>') && !items.every(isNumeric)) {
+      reasons.push(isList ? 'must be a list of numbers' : 'must be a number');
+    }
+    if (definition.allowedValues && !items.every(item => (definition.allowedValues as string[]).indexOf(item) > -1)) {
+      reasons.push('is not one of the AllowedValues');
+    }
+    if (definition.allowedPattern !== undefined && constraintToTypes.AllowedPattern.indexOf(type) > -1) {
+      const pattern = toRegExp(definition.allowedPattern);
+      if (pattern && !items.every(item => pattern.test(item))) reasons.push(`does not match the AllowedPattern ${definition.allowedPattern}`);
+    }
+    if (type === 'String') {
+      if (definition.minLength !== undefined && value.length < definition.minLength) {
+        reasons.push(`is shorter than the MinLength of ${definition.minLength}`);
+      }
+      if (definition.maxLength !== undefined && value.length > definition.maxLength) {
+        reasons.push(`is longer than the MaxLength of ${definition.maxLength}`);
+      }
+    }
+    if (type === 'Number' && isNumeric(value)) {
+      if (definition.minValue !== undefined && Number(value) < definition.minValue) {
+        reasons.push(`is less than the MinValue of ${definition.minValue}`);
+      }
+      if (definition.maxValue !== undefined && Number(value) > definition.maxValue) {
+        reasons.push(`is greater than the MaxValue of ${definition.maxValue}`);
+      }
+    }
+    return reasons;
+  }
+
+  // Lists can't be passed to sub stacks as they are, whatever the type of the sub stack's parameter
+  export function isListType(type: string): boolean {
+    return type.startsWith('List<') || type === 'CommaDelimitedList';
+  }
+
+  // The type of the value a parameter stands for, Systems Manager parameters stand for what they hold
+  export function getValueType(type: string): string {
+    const match = /^AWS::SSM::Parameter::Value<(.+)>$/.exec(type);
+    if (match) return match[1] === 'List<String>' ? 'CommaDelimitedList' : match[1];
+    return type === 'AWS::SSM::Parameter::Name' ? 'String' : type;
+  }
+
+  // Values are passed to sub stacks as strings, so anything goes into a String or a list, and Numbers and AWS-specific types
+  // take values which are known to be of their type or, for AWS-specific types, any string
+  export function acceptsType(type: string, valueType: string): boolean {
+    if (VALUE_TYPES.indexOf(type) < 0 || type === 'String' || isListType(type) || type === valueType) return true;
+    return type !== 'Number' && valueType === 'String';
+  }
+
+  // Values one definition allows which another rejects, as far as its AllowedValues, or a Number's MinValue and MaxValue, tell
+  export function findRejectedValues(definition: ParameterDefinition, acceptingDefinition: ParameterDefinition): { value: string, reason: string }[] {
+    const candidates = definition.allowedValues
+      || (definition.type === 'Number' ? [definition.minValue, definition.maxValue].filter(limit => limit !== undefined).map(String) : []);
+    const rejected: { value: string, reason: string }[] = [];
+    candidates.forEach((value) => {
+      checkValue(acceptingDefinition, value).forEach(reason => rejected.push({ value, reason }));
+    });
+    return rejected;
+  }
+
+  function forEachParameter(rootNode: Node, callback: (name: string, keyPosition: number, parameter: Node) => void) {
+    const parameters = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Parameters'));
+    (parameters.items || []).forEach((item) => {
+      const parameter = getNodeValueIfPair(item);
+      const isMap = parameter.type === NodeTypes.MAP || parameter.type === NodeTypes.FLOW_MAP;
+      if (item.stringKey && item.key && item.key.range && isMap) callback(item.stringKey, item.key.range[0], parameter);
+    });
+  }
+
+  function getLiteral(parameter: Node, key: string): string | undefined {
+    const node = getNodeValueIfPair(getNodeItemByStringKey(parameter, key));
+    return isLiteral(node) ? String(node.value) : undefined;
+  }
+
+  function getNumber(parameter: Node, key: string): number | undefined {
+    const value = getLiteral(parameter, key);
+    return value !== undefined && isNumeric(value) ? Number(value) : undefined;
+  }
+
+  function isNumeric(value: string): boolean {
+    return value.trim() !== '' && !isNaN(Number(value));
+  }
+
+  // AllowedPattern has to match the whole value, patterns JavaScript can't compile are left unchecked
+  function toRegExp(pattern: string): RegExp | undefined {
+    try {
+      return new RegExp(`^(?:${pattern})$`);
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
@@ -4,4 +4,21 @@ export interface Reference {
   type: ReferenceTypes;
   absoluteKeyPosition: number;
   referencedKey: string;
+  // Where the part after the first '.' starts, when it is a separate node like in '!GetAtt [Resource, Attribute]'
+  attributePosition?: number;
+}
+
+export namespace Reference {
+  export function getAttributePosition(reference: Reference): number {
+    return reference.attributePosition !== undefined
+      ? reference.attributePosition
+      : reference.absoluteKeyPosition + reference.referencedKey.split('.')[0].length + 1;
+  }
+
+  // Where the referenced key ends in the text, which is after the attribute for the list form of !GetAtt
+  export function getEnd(reference: Reference): number {
+    const firstPieceLength = reference.referencedKey.split('.')[0].length;
+    if (firstPieceLength === reference.referencedKey.length) return reference.absoluteKeyPosition + firstPieceLength;
+    return getAttributePosition(reference) + reference.referencedKey.length - firstPieceLength - 1;
+  }
 }
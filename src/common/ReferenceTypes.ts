@@ -3,6 +3,7 @@ export enum ReferenceTypes {
   SUB = 'SUB',
   GET_ATT = 'GET_ATT',
   IF = 'IF',
+  CONDITION = 'CONDITION',
   DEPENDS_ON = 'DEPENDS',
   FIND_IN_MAP = 'FIND_IN_MAP',
 }
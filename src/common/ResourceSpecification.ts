@@ -0,0 +1,41 @@
+import fs from 'fs';
+import path from 'path';
+
+// The parts of the CloudFormation resource specification the validator uses, any other keys in the file are ignored
+export interface ResourceSpecification {
+  ResourceSpecificationVersion?: string;
+  ResourceTypes: {
+    [resourceType: string]: {
+      Attributes?: { [attributeName: string]: object };
+    };
+  };
+}
+
+export namespace ResourceSpecification {
+  // A trimmed copy of the specification which ships with the extension, so nothing has to be downloaded
+  export const BUNDLED_PATH = path.join(__dirname, '..', '..', '..', 'resources', 'CloudFormationResourceSpecification.json');
+
+  // Parsing the full specification takes a while, so each file is only read once
+  const loadedSpecifications: { [filePath: string]: ResourceSpecification } = {};
+
+  // Throws if the file can't be read or doesn't look like a resource specification
+  export function load(filePath: string = BUNDLED_PATH): ResourceSpecification {
+    const resolvedPath = path.resolve(filePath);
+    if (!loadedSpecifications[resolvedPath]) {
+      const specification = JSON.parse(fs.readFileSync(resolvedPath, 'utf8'));
+      if (!specification || typeof specification.ResourceTypes !== 'object') {
+        throw new Error(`Not a CloudFormation resource specification, '${resolvedPath}'`);
+      }
+      loadedSpecifications[resolvedPath] = specification;
+    }
+    return loadedSpecifications[resolvedPath];
+  }
+
+  // Undefined when any attribute could be valid, because the type is unknown or is a custom resource
+  export function getAttributeNames(specification: ResourceSpecification, resourceType: string): string[] | undefined {
+    if (resourceType.startsWith('Custom::') || resourceType === 'AWS::CloudFormation::CustomResource') return undefined;
+    const resourceTypeSpecification = specification.ResourceTypes[resourceType];
+    if (!resourceTypeSpecification) return undefined;
+    return Object.keys(resourceTypeSpecification.Attributes || {});
+  }
+}
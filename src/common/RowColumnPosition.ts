@@ -22,10 +22,23 @@ export function getRowColumnPosition(text: string, absolutePosition: number): Ro
   const line = matches.length;
 
   // The last line return in textBefore is the one before our absolute position
+  // If there isn't one, the position is on the first line
   const lastLineReturn = matches[matches.length - 1];
-  const afterLastLineReturn = lastLineReturn.index + lastLineReturn[0].length;
+  const afterLastLineReturn = lastLineReturn ? lastLineReturn.index + lastLineReturn[0].length : 0;
 
   // So, absolutePosition - afterLastLineReturn should give us the column number for our absolute position
   const column = absolutePosition - afterLastLineReturn;
   return { column, line };
 }
+
+// The reverse of getRowColumnPosition, for positions which come from an editor
+export function getAbsolutePosition(text: string, position: RowColumnPosition): number {
+  const regEx = new RegExp('\r?\n', 'g');
+  let lineStart = 0;
+  for (let line = 0; line < position.line; line += 1) {
+    const match = regEx.exec(text);
+    if (!match) return text.length;
+    lineStart = match.index + match[0].length;
+  }
+  return Math.min(lineStart + position.column, text.length);
+}
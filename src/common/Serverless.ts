@@ -0,0 +1,157 @@
+import { getNodeItemByStringKey, getNodeValueIfPair, isLiteral } from '../Yaml';
+import { Node } from '../Yaml/Node';
+import { NodeTypes } from '../Yaml/NodeTypes';
+import { getSimilarNames } from '.';
+
+// Something in the Globals section which the transform won't accept
+export interface ServerlessProblem {
+  message: string;
+  absolutePosition: number;
+  name: string;
+  suggestion?: string;
+}
+
+// The resource types, keyed by logical ID, of the resources the transform adds to a template
+export interface ImplicitResources {
+  [logicalId: string]: string;
+}
+
+export namespace Serverless {
+  export const TRANSFORM = 'AWS::Serverless-2016-10-31';
+
+  // The resource types which Globals can set properties for
+  export const GLOBALS_SECTIONS = ['Function', 'Api', 'HttpApi', 'SimpleTable', 'StateMachine', 'LayerVersion'];
+
+  // What each type of event source adds, besides the function's own resources
+  const eventTypeToResources = {
+    S3: { Permission: 'AWS::Lambda::Permission' },
+    SNS: { Permission: 'AWS::Lambda::Permission' },
+    IoTRule: { '': 'AWS::IoT::TopicRule', Permission: 'AWS::Lambda::Permission' },
+    SQS: { '': 'AWS::Lambda::EventSourceMapping' },
+    Kinesis: { '': 'AWS::Lambda::EventSourceMapping' },
+    DynamoDB: { '': 'AWS::Lambda::EventSourceMapping' },
+    MSK: { '': 'AWS::Lambda::EventSourceMapping' },
+    MQ: { '': 'AWS::Lambda::EventSourceMapping' },
+    Schedule: { '': 'AWS::Events::Rule', Permission: 'AWS::Lambda::Permission' },
+    CloudWatchEvent: { '': 'AWS::Events::Rule', Permission: 'AWS::Lambda::Permission' },
+    EventBridgeRule: { '': 'AWS::Events::Rule', Permission: 'AWS::Lambda::Permission' },
+    CloudWatchLogs: { '': 'AWS::Logs::SubscriptionFilter', Permission: 'AWS::Lambda::Permission' },
+    HttpApi: { Permission: 'AWS::Lambda::Permission' },
+  };
+
+  // Transform is a single name or a list of them
+  export function isServerless(rootNode: Node): boolean {
+    const transform = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Transform'));
+    const names = isSequence(transform) ? transform.items : [transform];
+    return names.some(name => isLiteral(name) && name.value === TRANSFORM);
+  }
+
+  // Only the logical IDs which can be told from the template, not those with a hash of the API definition in them
+  export function getImplicitResources(rootNode: Node): ImplicitResources {
+    const implicitResources: ImplicitResources = {};
+    if (!isServerless(rootNode)) return implicitResources;
+    const resources = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Resources'));
+    (resources.items || []).forEach((item) => {
+      const resource = getNodeValueIfPair(item);
+      const type = getLiteral(resource, 'Type');
+      if (!item.stringKey || !type) return;
+      const properties = getNodeValueIfPair(getNodeItemByStringKey(resource, 'Properties'));
+      if (type === 'AWS::Serverless::Function') {
+        addFunctionResources(rootNode, item.stringKey, properties, implicitResources);
+      } else if (type === 'AWS::Serverless::Api') {
+        const stageName = getLiteral(properties, 'StageName') || getGlobal(rootNode, 'Api', 'StageName');
+        if (stageName) implicitResources[`${item.stringKey}${toLogicalId(stageName)}Stage`] = 'AWS::ApiGateway::Stage';
+      } else if (type === 'AWS::Serverless::HttpApi') {
+        const stageName = getLiteral(properties, 'StageName') || getGlobal(rootNode, 'HttpApi', 'StageName');
+        implicitResources[`${item.stringKey}${stageName ? toLogicalId(stageName) : 'ApiGatewayDefault'}Stage`] = 'AWS::ApiGatewayV2::Stage';
+      } else if (type === 'AWS::Serverless::StateMachine') {
+        if (isMissing(properties, 'Role') && isMissing(properties, 'RoleArn')) implicitResources[`${item.stringKey}Role`] = 'AWS::IAM::Role';
+      }
+    });
+    return implicitResources;
+  }
+
+  // Globals needs the transform, and can only set properties of some resource types
+  export function findProblems(rootNode: Node): ServerlessProblem[] {
+    const globalsPair = getNodeItemByStringKey(rootNode, 'Globals');
+    if (globalsPair.type === NodeTypes.EMPTY || !globalsPair.key) return [];
+    if (!isServerless(rootNode)) {
+      return [{ message: `Globals can only be used with the ${TRANSFORM} Transform`, absolutePosition: globalsPair.key.range[0], name: 'Globals' }];
+    }
+    const problems: ServerlessProblem[] = [];
+    (getNodeValueIfPair(globalsPair).items || []).forEach((section) => {
+      if (!section.stringKey || !section.key || GLOBALS_SECTIONS.indexOf(section.stringKey) > -1) return;
+      const suggestion = getSimilarNames(section.stringKey, GLOBALS_SECTIONS, 1)[0];
+      problems.push({ suggestion, message: 'Unable to find Globals section', absolutePosition: section.key.range[0], name: section.stringKey });
+    });
+    return problems;
+  }
+
+  function addFunctionResources(rootNode: Node, functionName: string, properties: Node, implicitResources: ImplicitResources) {
+    const hasGlobalRole = getNodeItemByStringKey(getGlobalSection(rootNode, 'Function'), 'Role').type !== NodeTypes.EMPTY;
+    if (isMissing(properties, 'Role') && !hasGlobalRole) implicitResources[`${functionName}Role`] = 'AWS::IAM::Role';
+
+    const aliasName = getLiteral(properties, 'AutoPublishAlias') || getGlobal(rootNode, 'Function', 'AutoPublishAlias');
+    if (aliasName) {
+      implicitResources[`${functionName}Version`] = 'AWS::Lambda::Version';
+      implicitResources[`${functionName}Alias${toLogicalId(aliasName)}`] = 'AWS::Lambda::Alias';
+    }
+
+    const hasDeploymentPreference = !isMissing(properties, 'DeploymentPreference')
+      || getNodeItemByStringKey(getGlobalSection(rootNode, 'Function'), 'DeploymentPreference').type !== NodeTypes.EMPTY;
+    if (hasDeploymentPreference) {
+      implicitResources[`${functionName}DeploymentGroup`] = 'AWS::CodeDeploy::DeploymentGroup';
+      implicitResources.ServerlessDeploymentApplication = 'AWS::CodeDeploy::Application';
+      implicitResources.CodeDeployServiceRole = 'AWS::IAM::Role';
+    }
+
+    const events = getNodeValueIfPair(getNodeItemByStringKey(properties, 'Events'));
+    (events.items || []).forEach((event) => {
+      const eventType = getLiteral(getNodeValueIfPair(event), 'Type');
+      const eventProperties = getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(event), 'Properties'));
+      if (!event.stringKey || !eventType) return;
+      const resourceSuffixes = eventTypeToResources[eventType] || {};
+      Object.keys(resourceSuffixes).forEach((suffix) => {
+        implicitResources[`${functionName}${event.stringKey}${suffix}`] = resourceSuffixes[suffix];
+      });
+
+      // Events without an API of their own share one the transform creates
+      if (eventType === 'Api' && isMissing(eventProperties, 'RestApiId')) {
+        const stageName = toLogicalId(getGlobal(rootNode, 'Api', 'StageName') || 'Prod');
+        implicitResources.ServerlessRestApi = 'AWS::ApiGateway::RestApi';
+        implicitResources[`ServerlessRestApi${stageName}Stage`] = 'AWS::ApiGateway::Stage';
+        implicitResources[`${functionName}${event.stringKey}Permission${stageName}`] = 'AWS::Lambda::Permission';
+      }
+      if (eventType === 'HttpApi' && isMissing(eventProperties, 'ApiId')) {
+        implicitResources.ServerlessHttpApi = 'AWS::ApiGatewayV2::Api';
+        implicitResources.ServerlessHttpApiApiGatewayDefaultStage = 'AWS::ApiGatewayV2::Stage';
+      }
+    });
+  }
+
+  function getGlobalSection(rootNode: Node, section: string): Node {
+    return getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Globals')), section));
+  }
+
+  function getGlobal(rootNode: Node, section: string, key: string): string | undefined {
+    return getLiteral(getGlobalSection(rootNode, section), key);
+  }
+
+  function getLiteral(node: Node, key: string): string | undefined {
+    const value = getNodeValueIfPair(getNodeItemByStringKey(node, key));
+    return isLiteral(value) ? String(value.value) : undefined;
+  }
+
+  function isMissing(node: Node, key: string): boolean {
+    return getNodeItemByStringKey(node, key).type === NodeTypes.EMPTY;
+  }
+
+  // Logical IDs can only be alphanumeric, so the transform drops everything else from names it builds them from
+  function toLogicalId(name: string): string {
+    return name.replace(/[^A-Za-z0-9]/g, '');
+  }
+
+  function isSequence(node: Node): boolean {
+    return node.type === NodeTypes.SEQ || node.type === NodeTypes.FLOW_SEQ;
+  }
+}
@@ -0,0 +1,18 @@
+import { ParameterFileAssociations } from './ParameterFiles';
+import { SubStack } from './SubStack';
+
+// The extension's settings, sent to the language server when it starts and whenever they change
+export interface Settings {
+  // A resource specification file to use instead of the bundled one, relative paths are resolved against the workspace
+  resourceSpecificationPath?: string;
+  // The template each parameter file is deployed with, for parameter files which aren't named after their template
+  parameterFiles?: ParameterFileAssociations;
+  // Local directories for TemplateURL prefixes, relative paths are resolved against the workspace
+  templateUrlMappings?: SubStack.TemplateUrlMappings;
+  // Validate every template in the workspace, not just the open ones, and again whenever a template they nest changes
+  validateWorkspace?: boolean;
+}
+
+export namespace Settings {
+  export const SECTION = 'cloudFormationYamlValidator';
+}
@@ -1,13 +1,51 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+import { getNodeValueIfPair, getNodeItemByStringKey, getValueStart, getWrittenTag, isLiteral } from '../Yaml';
+import { Node } from '../Yaml/Node';
+import { NodeTypes } from '../Yaml/NodeTypes';
+import { Maps } from './Maps';
+import { ParameterDefinition, Parameters } from './Parameters';
+import { hasValue } from '.';
+
 export namespace SubStack {
   export interface ParameterReferenceable {
     parameterName: string;
     hasDefault: boolean;
+    definition?: ParameterDefinition;
   }
 
   export interface ParameterReferenceablesMap {
     [templateUrl: string]: ParameterReferenceable[];
   }
 
+  // Local directories, keyed by the TemplateURL prefix they stand for, '*' matches anything but '/'
+  export interface TemplateUrlMappings {
+    [urlPrefix: string]: string;
+  }
+
+  // Where a sub stack's TemplateURL points
+  export interface TemplateLocation {
+    // The TemplateURL, with any !Sub or !Join evaluated
+    url?: string;
+    // Set whenever the URL resolves to a local path, even one which doesn't exist
+    filePath?: string;
+    // Why the URL couldn't be resolved
+    problem?: string;
+  }
+
+  // What can be told before deploying about a value passed in a sub stack's Parameters, other than a literal
+  export interface PassedValue {
+    // The parameter Type it has, 'String' when all that is known is that it is a string
+    type: string;
+    // The constraints it meets, when it is a !Ref to a parameter
+    definition?: ParameterDefinition;
+    // As it is written, the referenced name or the function
+    name: string;
+    absolutePosition: number;
+  }
+
   export interface Referenceables {
     outputs: string[];
     parameters: ParameterReferenceablesMap;
@@ -48,4 +86,297 @@ export namespace SubStack {
     });
     return referenceablesMap;
   }
+
+  // The property which points at each nested stack type's template
+  const typeToTemplateUrlProperty = {
+    'AWS::CloudFormation::Stack': 'TemplateURL',
+    'AWS::Serverless::Application': 'Location',
+  };
+
+  // An AWS::Serverless::Application is only a nested stack when its Location isn't a Serverless Application Repository app
+  export function getTemplateUrlProperty(resource: Node): string | undefined {
+    const type = resource.get ? resource.get('Type') : undefined;
+    const propertyName: string | undefined = typeof type === 'string' ? typeToTemplateUrlProperty[type] : undefined;
+    if (!propertyName) return undefined;
+    const value = getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(getNodeItemByStringKey(resource, 'Properties')), propertyName));
+    return getNodeItemByStringKey(value, 'ApplicationId').type === NodeTypes.EMPTY ? propertyName : undefined;
+  }
+
+  export function isSubStack(resource: Node): boolean {
+    return getTemplateUrlProperty(resource) !== undefined;
+  }
+
+  // TemplateURLs are resolved relative to the directory of the template which declares the sub stack
+  export function getTemplatePath(parentFilePath: string, templateUrl: string): string {
+    return path.join(path.dirname(parentFilePath), templateUrl);
+  }
+
+  // Only the TemplateURL's own text is needed for a literal, !Sub and !Join also use the defaults of the template's parameters
+  export function locateTemplate(rootNode: Node, parentFilePath: string, templateUrlNode: Node, mappings: TemplateUrlMappings = {}): TemplateLocation {
+    const evaluation = evaluate(rootNode, templateUrlNode);
+    if (evaluation.value === undefined) {
+      // A mapping can still match a !Sub as it is written, like 'https://${BucketName}.s3.amazonaws.com/'
+      const subText = getSubText(templateUrlNode);
+      const mappedPath = subText === undefined ? undefined : getMappedPath(subText, mappings);
+      return mappedPath ? { url: subText, filePath: mappedPath } : { problem: evaluation.problem };
+    }
+
+    const url = evaluation.value;
+    const mappedPath = getMappedPath(url, mappings);
+    if (mappedPath) return { url, filePath: mappedPath };
+    if (!/^[a-z][a-z0-9+.-]*:/i.test(url)) return { url, filePath: getTemplatePath(parentFilePath, url) };
+
+    // Without a mapping, an S3 object is looked for by its key and then its name next to the parent template
+    const objectKey = getS3ObjectKey(url);
+    const candidates = objectKey ? [getTemplatePath(parentFilePath, objectKey), getTemplatePath(parentFilePath, path.posix.basename(objectKey))] : [];
+    const filePath = candidates.find(candidate => fs.existsSync(candidate));
+    return filePath ? { url, filePath } : { url, problem: `no local template matches ${url}` };
+  }
+
+  function getMappedPath(url: string, mappings: TemplateUrlMappings): string | undefined {
+    for (const urlPrefix of Object.keys(mappings)) {
+      const pattern = new RegExp(`^${urlPrefix.split('*').map(escapeRegExp).join('[^/]*')}`);
+      const match = pattern.exec(url);
+      if (match) return path.join(mappings[urlPrefix], url.substring(match[0].length));
+    }
+    return undefined;
+  }
+
+  // Path style, virtual hosted style and s3:// URLs
+  function getS3ObjectKey(url: string): string | undefined {
+    const pathStyle = /^https?:\/\/s3[.-]([a-z0-9-]+\.)?amazonaws\.com(\.cn)?\/[^/]+\/(.+)$/.exec(url);
+    if (pathStyle) return pathStyle[3];
+    const virtualHostedStyle = /^https?:\/\/[^/]+\.s3[.-]([a-z0-9-]+\.)?amazonaws\.com(\.cn)?\/(.+)$/.exec(url);
+    if (virtualHostedStyle) return virtualHostedStyle[3];
+    const s3Style = /^s3:\/\/[^/]+\/(.+)$/.exec(url);
+    return s3Style ? s3Style[1] : undefined;
+  }
+
+  // Literals, !Sub and !Join, in either form, with references to parameters replaced by their Default
+  function evaluate(rootNode: Node, node: Node, variables: { [name: string]: Node } = {}): { value?: string, problem?: string } {
+    if (isLiteral(node)) return { value: String(node.value) };
+    const functionCall = getFunctionCall(node);
+    if (!functionCall) return { problem: 'only literals, !Sub and !Join can be evaluated' };
+    const argument = functionCall.argument;
+
+    if (functionCall.name === '!Ref' && typeof argument.value === 'string') return evaluateName(rootNode, argument.value, variables);
+    if (functionCall.name === '!Sub') {
+      const isList = argument.type === NodeTypes.SEQ || argument.type === NodeTypes.FLOW_SEQ;
+      const textNode = isList ? argument.items[0] : argument;
+      if (!textNode || typeof textNode.value !== 'string') return { problem: 'only literals, !Sub and !Join can be evaluated' };
+      const subVariables = { ...variables };
+      const variableMap = isList ? argument.items[1] : undefined;
+      ((variableMap && variableMap.items) || []).forEach((item) => {
+        if (item.stringKey) subVariables[item.stringKey] = getNodeValueIfPair(item);
+      });
+      return evaluateSub(rootNode, textNode.value, subVariables);
+    }
+    if (functionCall.name === '!Join') {
+      const [delimiter, list] = (argument.items || []) as (Node | undefined)[];
+      if (!delimiter || !isLiteral(delimiter) || !list || !list.items) return { problem: 'only literals, !Sub and !Join can be evaluated' };
+      const values: string[] = [];
+      for (const item of list.items) {
+        const evaluation = evaluate(rootNode, item, variables);
+        if (evaluation.value === undefined) return evaluation;
+        values.push(evaluation.value);
+      }
+      return { value: values.join(String(delimiter.value)) };
+    }
+    return { problem: `${functionCall.name} can't be evaluated` };
+  }
+
+  function evaluateSub(rootNode: Node, text: string, variables: { [name: string]: Node }): { value?: string, problem?: string } {
+    let problem: string | undefined;
+    const value = text.replace(/\$\{([^}]*)\}/g, (variable: string, name: string) => {
+      if (name.startsWith('!')) return `\${${name.substring(1)}}`;
+      const evaluation = evaluateName(rootNode, name, variables);
+      if (evaluation.value === undefined) problem = problem || evaluation.problem;
+      return evaluation.value || '';
+    });
+    return problem ? { problem } : { value };
+  }
+
+  function evaluateName(rootNode: Node, name: string, variables: { [name: string]: Node }): { value?: string, problem?: string } {
+    if (variables[name]) return evaluate(rootNode, variables[name]);
+    if (name === 'AWS::URLSuffix') return { value: 'amazonaws.com' };
+    const parameter = getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Parameters')), name));
+    if (parameter.type === NodeTypes.EMPTY) return { problem: `${name} is only known when deploying` };
+    const defaultNode = getNodeValueIfPair(getNodeItemByStringKey(parameter, 'Default'));
+    return isLiteral(defaultNode) ? { value: String(defaultNode.value) } : { problem: `${name} has no Default` };
+  }
+
+  // The short form tag, or the only key of a long form map, and what is passed to the function
+  // Tags are read as they are written, validating moves them around
+  function getFunctionCall(node: Node): { name: string, argument: Node } | undefined {
+    const writtenTag = getWrittenTag(node);
+    const tag = writtenTag && writtenTag.startsWith('!') ? writtenTag : undefined;
+    if (tag) return { name: tag, argument: node };
+    const isMap = node.type === NodeTypes.MAP || node.type === NodeTypes.FLOW_MAP;
+    if (!isMap || node.items.length !== 1) return undefined;
+    const longForm = node.items[0].stringKey;
+    const name: string | undefined = longForm === 'Fn::Join' ? '!Join' : longForm && Maps.longFormToShortForm[longForm];
+    return name && name.startsWith('!') ? { name, argument: getNodeValueIfPair(node.items[0]) } : undefined;
+  }
+
+  function getListFunction(node: Node): { name: string, absolutePosition: number } | undefined {
+    const listFunctions = ['!GetAZs', '!Split', '!Cidr'];
+    const tag = getWrittenTag(node);
+    if (tag && listFunctions.indexOf(tag) > -1) return getFunctionName(node, tag);
+    const isMap = node.type === NodeTypes.MAP || node.type === NodeTypes.FLOW_MAP;
+    const longForm = isMap && node.items.length === 1 ? node.items[0].stringKey : undefined;
+    const shortForm = longForm && longForm.startsWith('Fn::') ? `!${longForm.substring('Fn::'.length)}` : undefined;
+    return shortForm && listFunctions.indexOf(shortForm) > -1 ? getFunctionName(node, shortForm) : undefined;
+  }
+
+  // Where the function's tag, or the key of its long form, is
+  function getFunctionName(node: Node, shortForm: string): { name: string, absolutePosition: number } {
+    const isMap = node.type === NodeTypes.MAP || node.type === NodeTypes.FLOW_MAP;
+    const tag = getWrittenTag(node);
+    if ((tag && tag.startsWith('!')) || !isMap) return { name: shortForm, absolutePosition: node.range[0] };
+    return { name: node.items[0].stringKey as string, absolutePosition: getValueStart(node.items[0].key) };
+  }
+
+  function getSubText(node: Node): string | undefined {
+    const functionCall = getFunctionCall(node);
+    const isSub = functionCall && functionCall.name === '!Sub' && typeof functionCall.argument.value === 'string';
+    return isSub && functionCall ? functionCall.argument.value as string : undefined;
+  }
+
+  function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  // Where the template of each of a template's sub stacks is on disk, whether or not it exists
+  export function findTemplatePaths(rootNode: Node, parentFilePath: string, mappings: TemplateUrlMappings = {}): string[] {
+    const resources = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Resources'));
+    const templatePaths: string[] = [];
+    (resources.items || []).forEach((item) => {
+      const resource = getNodeValueIfPair(item);
+      const templateUrlProperty = getTemplateUrlProperty(resource);
+      if (!templateUrlProperty) return;
+      const templateUrlNode = getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(getNodeItemByStringKey(resource, 'Properties')), templateUrlProperty));
+      if (templateUrlNode.type === NodeTypes.EMPTY) return;
+      const location = locateTemplate(rootNode, parentFilePath, templateUrlNode, mappings);
+      if (location.filePath && templatePaths.indexOf(location.filePath) < 0) templatePaths.push(location.filePath);
+    });
+    return templatePaths;
+  }
+
+  // The values given to each of a sub stack's parameters which aren't literals, keyed by parameter name
+  export function getPassedValues(rootNode: Node, subStackName: string): { [parameterName: string]: PassedValue } {
+    const resource = getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Resources')), subStackName));
+    const parameters = getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(getNodeItemByStringKey(resource, 'Properties')), 'Parameters'));
+    const passedValues: { [parameterName: string]: PassedValue } = {};
+    (parameters.items || []).forEach((pair) => {
+      const passedValue = pair.stringKey ? getPassedValue(rootNode, getNodeValueIfPair(pair)) : undefined;
+      if (passedValue) passedValues[pair.stringKey as string] = passedValue;
+    });
+    return passedValues;
+  }
+
+  // Outputs are always strings, the pseudo parameter AWS::NotificationARNs, !GetAZs, !Split and !Cidr are lists
+  // Anything else, like !If or !FindInMap, could be either and is left out
+  export function getPassedValue(rootNode: Node, valueNode: Node): PassedValue | undefined {
+    const functionCall = getFunctionCall(valueNode);
+    const listFunction = getListFunction(valueNode);
+    if (listFunction) return { ...listFunction, type: 'List<String>' };
+    if (!functionCall) return undefined;
+    const argument = functionCall.argument;
+
+    if (functionCall.name === '!Ref' && typeof argument.value === 'string') {
+      const name = argument.value;
+      const absolutePosition = getValueStart(argument);
+      if (name === 'AWS::NotificationARNs') return { name, absolutePosition, type: 'List<String>' };
+      if (name === 'AWS::NoValue') return undefined;
+      const parameter = getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Parameters')), name));
+      if (parameter.type !== NodeTypes.EMPTY) {
+        const definition = Parameters.getDefinition(parameter);
+        const type = Parameters.getValueType(definition.type || 'String');
+        // The constraints of a Systems Manager parameter are about its name, not the value it holds
+        const isSsmParameter = type !== (definition.type || 'String');
+        return isSsmParameter ? { name, absolutePosition, type } : { name, absolutePosition, type, definition };
+      }
+      const isResource = getNodeItemByStringKey(getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Resources')), name).type !== NodeTypes.EMPTY;
+      return isResource || name.startsWith('AWS::') ? { name, absolutePosition, type: 'String' } : undefined;
+    }
+    if (functionCall.name === '!GetAtt') {
+      const isList = argument.type === NodeTypes.SEQ || argument.type === NodeTypes.FLOW_SEQ;
+      const [resourceNode, attributeNode] = (isList ? argument.items : [argument]) as (Node | undefined)[];
+      if (!resourceNode || typeof resourceNode.value !== 'string') return undefined;
+      const name = isList && attributeNode ? `${resourceNode.value}.${attributeNode.value}` : resourceNode.value;
+      const [resourceName, outputs] = name.split('.');
+      const resource = getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Resources')), resourceName));
+      const isOutput = outputs === 'Outputs' && isSubStack(resource);
+      return isOutput ? { name, absolutePosition: getValueStart(resourceNode), type: 'String' } : undefined;
+    }
+    if (functionCall.name === '!Join' || functionCall.name === '!Sub') {
+      return { ...getFunctionName(valueNode, functionCall.name), type: 'String' };
+    }
+    return undefined;
+  }
+
+  // The parameters a template declares, for checking the values given to it by parent stacks and parameter files
+  export function getParameterReferenceables(rootNode: Node): ParameterReferenceable[] {
+    const parameters = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Parameters'));
+    const referenceables: ParameterReferenceable[] = [];
+    (parameters.items || []).forEach((item) => {
+      if (item.type === NodeTypes.PAIR && item.value && !(typeof item.value === 'string')) {
+        referenceables.push({
+          parameterName: item.stringKey as string,
+          hasDefault: hasValue(item.value.get('Default')),
+          definition: Parameters.getDefinition(item.value),
+        });
+      }
+    });
+    return referenceables;
+  }
+}
+
+// The sub stack templates of every template in a workspace, so the templates nesting a file can be found when it changes
+export class SubStackIndex {
+  private templatePaths: { [filePath: string]: string[] } = {};
+
+  constructor(private templateUrlMappings: SubStack.TemplateUrlMappings = {}) { }
+
+  public update(filePath: string, fullText: string) {
+    try {
+      const rootNode = YAML.parseDocument(fullText).contents as Node;
+      this.templatePaths[filePath] = SubStack.findTemplatePaths(rootNode, filePath, this.templateUrlMappings);
+    } catch (error) {
+      // A template which can't be parsed doesn't nest anything
+      this.templatePaths[filePath] = [];
+    }
+  }
+
+  public remove(filePath: string) {
+    delete this.templatePaths[filePath];
+  }
+
+  // Every template which has been indexed, whether or not it nests anything
+  public getTemplatePaths(): string[] {
+    return Object.keys(this.templatePaths);
+  }
+
+  public getSubStackTemplates(filePath: string): string[] {
+    return this.templatePaths[filePath] || [];
+  }
+
+  // The templates which have the file as a sub stack template
+  public getParents(filePath: string): string[] {
+    return Object.keys(this.templatePaths).filter(parentPath => parentPath !== filePath && this.templatePaths[parentPath].indexOf(filePath) > -1);
+  }
+
+  // Every template which nests the file, directly or through other sub stacks, the nearest first
+  public getAncestors(filePath: string): string[] {
+    const ancestors: string[] = [];
+    const pending = [filePath];
+    while (pending.length > 0) {
+      this.getParents(pending.shift() as string).forEach((parentPath) => {
+        if (parentPath === filePath || ancestors.indexOf(parentPath) > -1) return;
+        ancestors.push(parentPath);
+        pending.push(parentPath);
+      });
+    }
+    return ancestors;
+  }
 }
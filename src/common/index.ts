@@ -29,3 +29,33 @@ export function hasValue(value: any) {
   if (booleanValue) return booleanValue;
   return (value === 0 || value === '');
 }
+
+// Levenshtein distance, the number of single character edits needed to turn one string into the other
+export function getEditDistance(first: string, second: string): number {
+  let previousRow = Array.from({ length: second.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= first.length; i += 1) {
+    const currentRow = [i];
+    for (let j = 1; j <= second.length; j += 1) {
+      const substitutionCost = first[i - 1] === second[j - 1] ? 0 : 1;
+      currentRow.push(Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + substitutionCost,
+      ));
+    }
+    previousRow = currentRow;
+  }
+  return previousRow[second.length];
+}
+
+// The candidates within a few edits of the name, closest first, ignoring case
+export function getSimilarNames(name: string, candidates: string[], maximumCount: number): string[] {
+  const maximumDistance = Math.max(2, Math.floor(name.length / 3));
+  return candidates
+    .filter((candidate, index) => candidate !== name && candidates.indexOf(candidate) === index)
+    .map(candidate => ({ candidate, distance: getEditDistance(name.toLowerCase(), candidate.toLowerCase()) }))
+    .filter(suggestion => suggestion.distance <= maximumDistance)
+    .sort((first, second) => first.distance - second.distance || first.candidate.localeCompare(second.candidate))
+    .slice(0, maximumCount)
+    .map(suggestion => suggestion.candidate);
+}
@@ -9,19 +9,27 @@ export const cloudformationYaml: CloudformationYaml = new CloudformationYaml();
 // this method is called when your extension is activated
 // your extension is activated the very first time the command is executed
 export async function activate(context: vscode.ExtensionContext) {
+  // This starts the language server, which validates documents as they are opened, changed and saved
   cloudformationYaml.activate(context);
-  cloudformationYaml.eventTrigger();
   // The command has been defined in the package.json file
   // Now provide the implementation of the command with registerCommand
   // The commandId parameter must match the command field in package.json
   const disposable1 = vscode.commands.registerCommand('extension.cloudFormationYamlValidator', async () => {
-    await cloudformationYaml.checkActiveFile(false, true);
+    await cloudformationYaml.checkActiveFile(false);
   });
   context.subscriptions.push(disposable1);
   const disposable2 = vscode.commands.registerCommand('extension.cloudFormationYamlValidatorRecursive', async () => {
-    await cloudformationYaml.checkActiveFile(true, true);
+    await cloudformationYaml.checkActiveFile(true);
   });
   context.subscriptions.push(disposable2);
+  const disposable3 = vscode.commands.registerCommand('extension.cloudFormationYamlValidatorShowDependencyDiagram', async () => {
+    await cloudformationYaml.showDependencyDiagram();
+  });
+  context.subscriptions.push(disposable3);
+  const disposable4 = vscode.commands.registerCommand('extension.cloudFormationYamlValidatorExportDependencyDiagram', async () => {
+    await cloudformationYaml.exportDependencyDiagram();
+  });
+  context.subscriptions.push(disposable4);
 }
 
 // this method is called when your extension is deactivated
@@ -0,0 +1,267 @@
+import { getSimilarNames } from '../common';
+import { Declarations } from '../common/Declarations';
+import { createRange, Diagnostic, DiagnosticCodes, Range } from '../common/Diagnostics';
+import { Maps } from '../common/Maps';
+import { ReferenceTypes } from '../common/ReferenceTypes';
+import { getAbsolutePosition, getRowColumnPosition } from '../common/RowColumnPosition';
+import { getNodeItemByStringKey, getNodeValueIfPair, EmptyNode } from '../Yaml';
+import { Node } from '../Yaml/Node';
+import { NodeTypes } from '../Yaml/NodeTypes';
+import { SubStackDeclaration, TemplateDocument } from './TemplateDocument';
+
+export interface TextChange {
+  filePath: string;
+  range: Range;
+  newText: string;
+}
+
+export interface QuickFix {
+  title: string;
+  changes: TextChange[];
+}
+
+// The bits of a template needed to insert a new declaration into it
+interface EditableTemplate {
+  filePath: string;
+  fullText: string;
+  rootNode: Node;
+}
+
+export namespace CodeActions {
+  export const MAXIMUM_SUGGESTIONS = 3;
+
+  export function getQuickFixes(template: TemplateDocument, diagnostic: Diagnostic): QuickFix[] {
+    switch (diagnostic.code) {
+      case DiagnosticCodes.UNKNOWN_REFERENCE:
+        return fixUnknownReference(template, diagnostic);
+      case DiagnosticCodes.UNKNOWN_SUB_STACK_OUTPUT:
+        return fixUnknownSubStackOutput(template, diagnostic);
+      case DiagnosticCodes.UNKNOWN_SUB_STACK_PARAMETER:
+        return fixUnknownSubStackParameter(template, diagnostic);
+      case DiagnosticCodes.MISSING_REQUIRED_PARAMETER:
+        return fixMissingRequiredParameter(template, diagnostic);
+      case DiagnosticCodes.UNKNOWN_PSEUDO_PARAMETER:
+        return fixUnknownPseudoParameter(template, diagnostic);
+      default:
+        return [];
+    }
+  }
+
+  // The closest candidates first, leaving out anything too different to be a typo
+  export function getSuggestions(name: string, candidates: string[]): string[] {
+    return getSimilarNames(name, candidates, MAXIMUM_SUGGESTIONS);
+  }
+
+  function fixUnknownReference(template: TemplateDocument, diagnostic: Diagnostic): QuickFix[] {
+    const start = getAbsolutePosition(template.fullText, toRowColumn(diagnostic.range.start));
+    const end = getAbsolutePosition(template.fullText, toRowColumn(diagnostic.range.end));
+    const name = template.fullText.substring(start, end);
+    const referenceAtPosition = TemplateDocument.findReferenceAt(template, start);
+    if (!referenceAtPosition) return [];
+    const reference = referenceAtPosition.reference;
+
+    // A native attribute, like Resource.Arn, can only point at a resource
+    const isNativeAttribute = reference.referencedKey.indexOf('.') > -1;
+    const sections = isNativeAttribute ? ['Resources'] : Maps.referenceTypeToSections[reference.type];
+    const candidates = template.declarations
+      .filter(declaration => sections.indexOf(declaration.section) > -1)
+      .map(declaration => declaration.name);
+    const quickFixes = getSuggestions(name, candidates).map((suggestion) => {
+      return replaceWith(template.filePath, diagnostic.range, suggestion);
+    });
+
+    const canBeParameter = reference.type === ReferenceTypes.REF || reference.type === ReferenceTypes.SUB;
+    const declaration = canBeParameter && !isNativeAttribute ? declareParameter(template, name) : undefined;
+    if (declaration) {
+      quickFixes.push({ title: `Declare parameter '${name}'`, changes: [declaration] });
+    }
+    return quickFixes;
+  }
+
+  function fixUnknownSubStackOutput(template: TemplateDocument, diagnostic: Diagnostic): QuickFix[] {
+    const start = getAbsolutePosition(template.fullText, toRowColumn(diagnostic.range.start));
+    const referenceAtPosition = TemplateDocument.findReferenceAt(template, start);
+    if (!referenceAtPosition) return [];
+    const reference = referenceAtPosition.reference;
+    // In the list form only 'Outputs.Name' is highlighted, the sub stack's name is a separate item
+    const isListForm = reference.attributePosition !== undefined;
+    const subStackPrefixLength = reference.referencedKey.split('.')[0].length + 1;
+    return getSuggestions(reference.referencedKey, template.traversal.subStackReferenceables.outputs).map((suggestion) => {
+      const quickFix = replaceWith(template.filePath, diagnostic.range, suggestion);
+      if (isListForm) quickFix.changes[0].newText = suggestion.substring(subStackPrefixLength);
+      return quickFix;
+    });
+  }
+
+  function fixUnknownSubStackParameter(template: TemplateDocument, diagnostic: Diagnostic): QuickFix[] {
+    const start = getAbsolutePosition(template.fullText, toRowColumn(diagnostic.range.start));
+    let parameterPair: Node | undefined;
+    const subStack = TemplateDocument.getSubStacks(template).find((subStack) => {
+      parameterPair = TemplateDocument.getSubStackParameterPairs(subStack).find(pair => pair.key.range[0] === start);
+      return !!parameterPair;
+    });
+    if (!subStack || !parameterPair) return [];
+    const name = parameterPair.stringKey as string;
+    const quickFixes: QuickFix[] = [];
+
+    // Maybe it's a typo of one of the sub stack template's parameters which isn't passed yet
+    const subStackTemplate = TemplateDocument.loadSubStackDeclarations(template, subStack.name);
+    if (subStackTemplate) {
+      const passedNames = TemplateDocument.getSubStackParameterPairs(subStack).map(pair => pair.stringKey as string);
+      const candidates = subStackTemplate.declarations
+        .filter(declaration => declaration.section === 'Parameters' && passedNames.indexOf(declaration.name) < 0)
+        .map(declaration => declaration.name);
+      getSuggestions(name, candidates).forEach((suggestion) => {
+        quickFixes.push(replaceWith(template.filePath, diagnostic.range, suggestion));
+      });
+    }
+
+    const removal = removePair(template, getNodeValueIfPair(getSubStackParametersPair(subStack)), parameterPair);
+    if (removal) {
+      quickFixes.push({ title: `Remove parameter '${name}'`, changes: [removal] });
+    }
+
+    const declaration = subStackTemplate ? declareParameter(subStackTemplate, name) : undefined;
+    if (declaration) {
+      quickFixes.push({ title: `Add parameter '${name}' to ${subStack.templateUrl}`, changes: [declaration] });
+    }
+    return quickFixes;
+  }
+
+  function fixMissingRequiredParameter(template: TemplateDocument, diagnostic: Diagnostic): QuickFix[] {
+    // The message ends with the name of the missing parameter
+    const match = /'([^']+)'$/.exec(diagnostic.message);
+    if (!match) return [];
+    const name = match[1];
+    const start = getAbsolutePosition(template.fullText, toRowColumn(diagnostic.range.start));
+    const subStack = TemplateDocument.getSubStacks(template).find((subStack) => {
+      const parametersPair = getSubStackParametersPair(subStack);
+      return parametersPair !== EmptyNode.EMPTY_NODE && parametersPair.key.range[0] === start;
+    });
+    if (!subStack) return [];
+
+    // Pass along a parameter of the same name if there is one, otherwise leave a value to be filled in
+    const isLocalParameter = !!Declarations.findDeclaration(template.declarations, name, ['Parameters']);
+    const value = isLocalParameter ? `!Ref ${name}` : `''`;
+    const change = insertPair(template, getSubStackParametersPair(subStack), `${name}: ${value}`);
+    return change ? [{ title: `Add missing parameter '${name}'`, changes: [change] }] : [];
+  }
+
+  function fixUnknownPseudoParameter(template: TemplateDocument, diagnostic: Diagnostic): QuickFix[] {
+    const start = getAbsolutePosition(template.fullText, toRowColumn(diagnostic.range.start));
+    const end = getAbsolutePosition(template.fullText, toRowColumn(diagnostic.range.end));
+    const name = template.fullText.substring(start, end);
+    return getSuggestions(name, Maps.pseudoParameters).map(suggestion => replaceWith(template.filePath, diagnostic.range, suggestion));
+  }
+
+  function replaceWith(filePath: string, range: Range, suggestion: string): QuickFix {
+    return {
+      title: `Change to '${suggestion}'`,
+      changes: [{ filePath, range, newText: suggestion }],
+    };
+  }
+
+  function getSubStackParametersPair(subStack: SubStackDeclaration): Node {
+    const properties = getNodeValueIfPair(getNodeItemByStringKey(subStack.declaration.node, 'Properties'));
+    return getNodeItemByStringKey(properties, 'Parameters');
+  }
+
+  // Adds a String parameter to the end of the Parameters section, creating the section if necessary
+  // Only block maps are edited, so nothing is offered for JSON templates
+  function declareParameter(template: EditableTemplate, name: string): TextChange | undefined {
+    const eol = getLineEnding(template.fullText);
+    const parametersPair = getNodeItemByStringKey(template.rootNode, 'Parameters');
+    if (parametersPair !== EmptyNode.EMPTY_NODE) {
+      const firstParameter = (getNodeValueIfPair(parametersPair).items || [])[0];
+      const indentationUnit = firstParameter && firstParameter.key
+        ? getColumn(template.fullText, firstParameter.key.range[0]) - getColumn(template.fullText, parametersPair.key.range[0])
+        : 2;
+      const declaration = `${name}:${eol}${' '.repeat(indentationUnit)}Type: String`;
+      return insertPair(template, parametersPair, declaration);
+    }
+    if (template.rootNode.type !== NodeTypes.MAP) return undefined;
+
+    const section = `Parameters:${eol}  ${name}:${eol}    Type: String${eol}`;
+    const resourcesPair = getNodeItemByStringKey(template.rootNode, 'Resources');
+    if (resourcesPair !== EmptyNode.EMPTY_NODE) {
+      const lineStart = resourcesPair.key.range[0] - getColumn(template.fullText, resourcesPair.key.range[0]);
+      return insertAt(template, lineStart, `${section}${eol}`);
+    }
+    return insertAt(template, template.fullText.length, `${eol}${section}`);
+  }
+
+  // Adds a block map entry after the last entry of the pair's value, indented to match its siblings
+  function insertPair(template: EditableTemplate, pair: Node, text: string): TextChange | undefined {
+    const eol = getLineEnding(template.fullText);
+    const map = getNodeValueIfPair(pair);
+    const keyColumn = getColumn(template.fullText, pair.key.range[0]);
+    if (map.type === NodeTypes.MAP && map.items.length > 0) {
+      const firstItem = map.items[0];
+      const lastItem = map.items[map.items.length - 1];
+      const indentation = ' '.repeat(getColumn(template.fullText, firstItem.key.range[0]));
+      const offset = getEndOfLine(template.fullText, getPairEnd(lastItem));
+      return insertAt(template, offset, `${eol}${indentation}${text.split(eol).join(`${eol}${indentation}`)}`);
+    }
+    // An empty value, the entry goes on the next line
+    if (map.type === NodeTypes.EMPTY) {
+      const indentation = ' '.repeat(keyColumn + 2);
+      const offset = getEndOfLine(template.fullText, pair.key.range[1]);
+      return insertAt(template, offset, `${eol}${indentation}${text.split(eol).join(`${eol}${indentation}`)}`);
+    }
+    // Flow maps and the like are left alone
+    return undefined;
+  }
+
+  // Deletes the lines a block map entry occupies, entries of flow maps like JSON objects are left alone
+  function removePair(template: TemplateDocument, map: Node, pair: Node): TextChange | undefined {
+    if (map.type !== NodeTypes.MAP) return undefined;
+    const keyStart = pair.key.range[0];
+    const lineStart = keyStart - getColumn(template.fullText, keyStart);
+    if (template.fullText.substring(lineStart, keyStart).trim() !== '') return undefined;
+    const endOfLine = getEndOfLine(template.fullText, getPairEnd(pair));
+    const start = getRowColumnPosition(template.fullText, lineStart);
+    const end = getRowColumnPosition(template.fullText, endOfLine);
+    return {
+      filePath: template.filePath,
+      range: {
+        start: { line: start.line, character: 0 },
+        end: endOfLine < template.fullText.length ? { line: end.line + 1, character: 0 } : { line: end.line, character: end.column },
+      },
+      newText: '',
+    };
+  }
+
+  function insertAt(template: EditableTemplate, offset: number, newText: string): TextChange {
+    return {
+      newText,
+      filePath: template.filePath,
+      range: createRange(getRowColumnPosition(template.fullText, offset), 0),
+    };
+  }
+
+  function getPairEnd(pair: Node): number {
+    const value = pair.value as Node | null;
+    return value && value.range ? value.range[1] : pair.key.range[1];
+  }
+
+  // Skips back over whitespace, then forward past anything else on the line such as a comment
+  function getEndOfLine(fullText: string, offset: number): number {
+    let end = offset;
+    while (end > 0 && /\s/.test(fullText[end - 1])) end -= 1;
+    const lineEnd = fullText.indexOf('\n', end);
+    if (lineEnd < 0) return fullText.length;
+    return fullText[lineEnd - 1] === '\r' ? lineEnd - 1 : lineEnd;
+  }
+
+  function getColumn(fullText: string, offset: number): number {
+    return getRowColumnPosition(fullText, offset).column;
+  }
+
+  function getLineEnding(fullText: string): string {
+    return fullText.indexOf('\r\n') > -1 ? '\r\n' : '\n';
+  }
+
+  function toRowColumn(position: { line: number, character: number }) {
+    return { line: position.line, column: position.character };
+  }
+}
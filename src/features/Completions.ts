@@ -0,0 +1,138 @@
+import { SubStack } from '../common/SubStack';
+import { TemplateDocument } from './TemplateDocument';
+
+export enum CompletionContext {
+  REF = 'REF',
+  SUB = 'SUB',
+  GET_ATT = 'GET_ATT',
+  IF = 'IF',
+  FIND_IN_MAP = 'FIND_IN_MAP',
+  DEPENDS_ON = 'DEPENDS_ON',
+  SUB_STACK_PARAMETER = 'SUB_STACK_PARAMETER',
+}
+
+export interface CompletionSuggestion {
+  label: string;
+  // The section the suggestion is declared in, 'Outputs' for sub stack outputs
+  section: string;
+  detail: string;
+  sortText?: string;
+  insertText?: string;
+}
+
+export interface Completions {
+  // How many characters before the cursor the suggestions replace
+  prefixLength: number;
+  suggestions: CompletionSuggestion[];
+}
+
+export namespace Completions {
+  // Each of these matches the text before the cursor, the last group is the partially typed name
+  export const contextPatterns: { context: CompletionContext, pattern: RegExp }[] = [
+    { context: CompletionContext.SUB, pattern: /\${([\w.:]*)$/ },
+    { context: CompletionContext.REF, pattern: /(?:!Ref|\bRef["']?:)\s+["']?([\w:]*)$/ },
+    { context: CompletionContext.GET_ATT, pattern: /(?:!GetAtt|Fn::GetAtt["']?:)\s+["']?([\w.]*)$/ },
+    { context: CompletionContext.IF, pattern: /(?:!If|Fn::If["']?:)\s*\[\s*(\w*)$/ },
+    { context: CompletionContext.FIND_IN_MAP, pattern: /(?:!FindInMap|Fn::FindInMap["']?:)\s*\[\s*(\w*)$/ },
+    { context: CompletionContext.DEPENDS_ON, pattern: /DependsOn:\s*\[?(?:\s*\w+\s*,)*\s*(\w*)$/ },
+    { context: CompletionContext.SUB_STACK_PARAMETER, pattern: /^\s+(\w*)$/ },
+  ];
+
+  export const contextToSections: { [context: string]: string[] } = {
+    [CompletionContext.REF]: ['Parameters', 'Resources'],
+    [CompletionContext.SUB]: ['Parameters', 'Resources', 'Outputs'],
+    [CompletionContext.GET_ATT]: ['Resources', 'Outputs'],
+    [CompletionContext.IF]: ['Conditions'],
+    [CompletionContext.FIND_IN_MAP]: ['Mappings'],
+    [CompletionContext.DEPENDS_ON]: ['Resources'],
+  };
+
+  export async function getCompletions(
+    fullText: string,
+    filePath: string,
+    absolutePosition: number,
+    templateUrlMappings: SubStack.TemplateUrlMappings = {},
+  ): Promise<Completions | undefined> {
+    const lineStart = fullText.lastIndexOf('\n', absolutePosition - 1) + 1;
+    const linePrefix = fullText.substring(lineStart, absolutePosition);
+    const match = contextPatterns
+      .map(contextPattern => ({ context: contextPattern.context, match: contextPattern.pattern.exec(linePrefix) }))
+      .find(contextMatch => !!contextMatch.match);
+    if (!match || !match.match) return undefined;
+    const prefixLength = match.match[match.match.length - 1].length;
+
+    // The line being typed is usually not valid YAML yet, so blank it out (keeping positions intact) before parsing
+    const lineEnd = fullText.indexOf('\n', absolutePosition) < 0 ? fullText.length : fullText.indexOf('\n', absolutePosition);
+    const blankedText = `${fullText.substring(0, lineStart)}${' '.repeat(lineEnd - lineStart)}${fullText.substring(lineEnd)}`;
+    const template = await TemplateDocument.load(blankedText, filePath, templateUrlMappings);
+
+    if (match.context === CompletionContext.SUB_STACK_PARAMETER) {
+      const suggestions = getSubStackParameterSuggestions(template, fullText, lineStart, linePrefix);
+      return suggestions ? { prefixLength, suggestions } : undefined;
+    }
+    return {
+      prefixLength,
+      suggestions: getReferenceableSuggestions(template, contextToSections[match.context]),
+    };
+  }
+
+  function getReferenceableSuggestions(template: TemplateDocument, sections: string[]): CompletionSuggestion[] {
+    const suggestions: CompletionSuggestion[] = template.declarations
+      .filter(declaration => declaration.section !== 'Outputs' && sections.indexOf(declaration.section) > -1)
+      .map((declaration) => {
+        const type = declaration.node && declaration.node.get ? declaration.node.get('Type') : undefined;
+        return {
+          label: declaration.name,
+          section: declaration.section,
+          detail: typeof type === 'string' ? `${declaration.section}: ${type}` : declaration.section,
+        };
+      });
+    if (sections.indexOf('Outputs') > -1) {
+      template.traversal.subStackReferenceables.outputs.forEach((output) => {
+        suggestions.push({ label: output, section: 'Outputs', detail: 'Sub stack output' });
+      });
+    }
+    return suggestions;
+  }
+
+  // Suggests the sub stack template's parameters, when typing a key of a sub stack's Parameters
+  function getSubStackParameterSuggestions(template: TemplateDocument, fullText: string, lineStart: number, linePrefix: string): CompletionSuggestion[] | undefined {
+    const lines = fullText.substring(0, lineStart).split(/\r?\n/);
+    lines.pop();
+    const parentKeys = getParentKeys(lines, linePrefix.search(/\S|$/), 3);
+    if (parentKeys.length < 3 || parentKeys[0] !== 'Parameters' || parentKeys[1] !== 'Properties') return undefined;
+
+    const subStack = TemplateDocument.getSubStacks(template).find(subStack => subStack.name === parentKeys[2]);
+    if (!subStack) return undefined;
+    const existingKeys = TemplateDocument.getSubStackParameterPairs(subStack).map(pair => pair.stringKey);
+    const parameters = template.traversal.subStackReferenceables.parameters[subStack.templateUrl] || [];
+    return parameters
+      .filter(parameter => existingKeys.indexOf(parameter.parameterName) < 0)
+      .map((parameter) => {
+        return {
+          label: parameter.parameterName,
+          section: 'Parameters',
+          detail: parameter.hasDefault ? 'Sub stack parameter with default value' : 'Required sub stack parameter',
+          // Required parameters first
+          sortText: `${parameter.hasDefault ? 1 : 0}${parameter.parameterName}`,
+          insertText: `${parameter.parameterName}: `,
+        };
+      });
+  }
+
+  // Walks up the lines before the cursor, collecting the keys of the enclosing maps from the inside out
+  function getParentKeys(linesBefore: string[], indentation: number, count: number): string[] {
+    const parentKeys: string[] = [];
+    let currentIndentation = indentation;
+    for (let index = linesBefore.length - 1; index >= 0 && parentKeys.length < count; index -= 1) {
+      const line = linesBefore[index];
+      const lineIndentation = line.search(/\S/);
+      if (lineIndentation < 0 || line.trim().startsWith('#') || lineIndentation >= currentIndentation) continue;
+      const keyMatch = /^\s*([\w:]+):\s*$/.exec(line);
+      if (!keyMatch) break;
+      parentKeys.push(keyMatch[1]);
+      currentIndentation = lineIndentation;
+    }
+    return parentKeys;
+  }
+}
@@ -0,0 +1,36 @@
+import { Declarations } from '../common/Declarations';
+import { Location, createLocation } from '../common/Location';
+import { Maps } from '../common/Maps';
+import { TemplateDocument } from './TemplateDocument';
+
+export namespace Definitions {
+  export function findDefinition(template: TemplateDocument, absolutePosition: number): Location | undefined {
+    const referenceAtPosition = TemplateDocument.findReferenceAt(template, absolutePosition);
+    if (!referenceAtPosition) return undefined;
+
+    const reference = referenceAtPosition.reference;
+    const keyPieces = reference.referencedKey.split('.');
+
+    // 'Stack.Outputs.Name' leads to the sub stack's output, unless the cursor is on the sub stack's name
+    const isOnFirstPiece = absolutePosition <= reference.absoluteKeyPosition + keyPieces[0].length;
+    if (keyPieces.length > 2 && keyPieces[1] === 'Outputs' && !isOnFirstPiece) {
+      return findSubStackOutput(template, keyPieces[0], keyPieces.slice(2).join('.'));
+    }
+
+    // Anything else with a '.' is a native attribute, 'Resource.Attribute', so go to the resource
+    const sections = Maps.referenceTypeToSections[reference.type];
+    const declaration = Declarations.findDeclaration(template.declarations, keyPieces[0], sections);
+    return declaration
+      ? createLocation(template.filePath, template.fullText, declaration.absoluteKeyPosition, declaration.name.length)
+      : undefined;
+  }
+
+  function findSubStackOutput(template: TemplateDocument, subStackName: string, outputName: string): Location | undefined {
+    const subStack = TemplateDocument.loadSubStackDeclarations(template, subStackName);
+    if (!subStack) return undefined;
+    const output = Declarations.findDeclaration(subStack.declarations, outputName, ['Outputs']);
+    return output
+      ? createLocation(subStack.filePath, subStack.fullText, output.absoluteKeyPosition, output.name.length)
+      : undefined;
+  }
+}
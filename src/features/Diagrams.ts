@@ -0,0 +1,299 @@
+import path from 'path';
+
+import { getNodeValueIfPair } from '../Yaml';
+import { NodeTypes } from '../Yaml/NodeTypes';
+import { TemplateDocument } from './TemplateDocument';
+
+export enum DiagramFormat {
+  DOT = 'dot',
+  MERMAID = 'mermaid',
+  SVG = 'svg',
+}
+
+// A template, sub stack templates are nested inside the template declaring them
+export interface DiagramCluster {
+  id: string;
+  label: string;
+  filePath: string;
+  parentId?: string;
+}
+
+export interface DiagramNode {
+  id: string;
+  name: string;
+  section: string;
+  clusterId: string;
+}
+
+// The 'from' node uses the 'to' node, like a resource referencing a parameter
+export interface DiagramEdge {
+  from: string;
+  to: string;
+}
+
+export interface Diagram {
+  clusters: DiagramCluster[];
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+// Sub stack templates may come from the editor rather than the disk, undefined if they can't be loaded
+export type TemplateLoader = (filePath: string) => Promise<TemplateDocument | undefined>;
+
+// The node IDs of a template's declarations, by section and then name
+interface ClusterNodes {
+  [section: string]: { [name: string]: string };
+}
+
+export namespace Diagrams {
+  export const SECTIONS = ['Parameters', 'Resources', 'Outputs'];
+
+  const NODE_WIDTH = 180;
+  const NODE_HEIGHT = 28;
+  const COLUMN_GAP = 80;
+  const ROW_GAP = 12;
+  const PADDING = 20;
+  const COLORS = ['#dae8fc', '#d5e8d4', '#ffe6cc', '#e1d5e7', '#fff2cc', '#f8cecc', '#f5f5f5'];
+
+  export async function build(template: TemplateDocument, loadTemplate: TemplateLoader): Promise<Diagram> {
+    const diagram: Diagram = { clusters: [], nodes: [], edges: [] };
+    await addTemplate(diagram, template, path.basename(template.filePath), undefined, loadTemplate, []);
+    return diagram;
+  }
+
+  export function render(diagram: Diagram, format: DiagramFormat): string {
+    switch (format) {
+      case DiagramFormat.DOT:
+        return toDot(diagram);
+      case DiagramFormat.MERMAID:
+        return toMermaid(diagram);
+      default:
+        return toSvg(diagram);
+    }
+  }
+
+  export function toDot(diagram: Diagram): string {
+    const shapes = { Parameters: 'ellipse', Resources: 'box', Outputs: 'cds' };
+    const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const writeCluster = (cluster: DiagramCluster, indent: string): string[] => [
+      `${indent}subgraph cluster_${cluster.id} {`,
+      `${indent}  label=${quote(cluster.label)};`,
+      ...getClusterNodes(diagram, cluster).map(node => `${indent}  ${node.id} [label=${quote(node.name)}, shape=${shapes[node.section]}];`),
+      ...getChildClusters(diagram, cluster).reduce((lines, child) => [...lines, ...writeCluster(child, `${indent}  `)], [] as string[]),
+      `${indent}}`,
+    ];
+    return [
+      'digraph dependencies {',
+      // Edges point at what is used, so this puts parameters on the left and outputs on the right
+      '  rankdir=RL;',
+      ...getRootClusters(diagram).reduce((lines, cluster) => [...lines, ...writeCluster(cluster, '  ')], [] as string[]),
+      ...diagram.edges.map(edge => `  ${edge.from} -> ${edge.to};`),
+      '}',
+      '',
+    ].join('\n');
+  }
+
+  export function toMermaid(diagram: Diagram): string {
+    const quote = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+    const shapes = {
+      Parameters: (name: string) => `([${quote(name)}])`,
+      Resources: (name: string) => `[${quote(name)}]`,
+      Outputs: (name: string) => `>${quote(name)}]`,
+    };
+    const writeCluster = (cluster: DiagramCluster, indent: string): string[] => [
+      `${indent}subgraph ${cluster.id} [${quote(cluster.label)}]`,
+      ...getClusterNodes(diagram, cluster).map(node => `${indent}  ${node.id}${shapes[node.section](node.name)}`),
+      ...getChildClusters(diagram, cluster).reduce((lines, child) => [...lines, ...writeCluster(child, `${indent}  `)], [] as string[]),
+      `${indent}end`,
+    ];
+    return [
+      'flowchart RL',
+      ...getRootClusters(diagram).reduce((lines, cluster) => [...lines, ...writeCluster(cluster, '  ')], [] as string[]),
+      ...diagram.edges.map(edge => `  ${edge.from} --> ${edge.to}`),
+      '',
+    ].join('\n');
+  }
+
+  // A standalone picture for the webview, which can't load a layout engine without network access
+  export function toSvg(diagram: Diagram): string {
+    const ranks = getRanks(diagram);
+    const clusterIds = diagram.clusters.map(cluster => cluster.id);
+    const columns: DiagramNode[][] = [];
+    diagram.nodes.forEach((node) => {
+      columns[ranks[node.id]] = [...(columns[ranks[node.id]] || []), node];
+    });
+
+    // Keep each template's declarations together within a column
+    const positions: { [id: string]: { x: number, y: number } } = {};
+    columns.forEach((column, rank) => {
+      column.sort((first, second) => {
+        return clusterIds.indexOf(first.clusterId) - clusterIds.indexOf(second.clusterId)
+          || SECTIONS.indexOf(first.section) - SECTIONS.indexOf(second.section)
+          || first.name.localeCompare(second.name);
+      }).forEach((node, row) => {
+        positions[node.id] = { x: PADDING + rank * (NODE_WIDTH + COLUMN_GAP), y: PADDING + row * (NODE_HEIGHT + ROW_GAP) };
+      });
+    });
+
+    const width = PADDING * 2 + Math.max(columns.length, 1) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+    const nodesHeight = Math.max(0, ...columns.map(column => column.length * (NODE_HEIGHT + ROW_GAP)));
+    const legendTop = PADDING + nodesHeight + PADDING;
+    const height = legendTop + diagram.clusters.length * (NODE_HEIGHT + ROW_GAP) + PADDING;
+
+    const edges = diagram.edges.map((edge) => {
+      const from = positions[edge.from];
+      const to = positions[edge.to];
+      const startX = from.x;
+      const startY = from.y + NODE_HEIGHT / 2;
+      const endX = to.x + NODE_WIDTH;
+      const endY = to.y + NODE_HEIGHT / 2;
+      const bend = Math.max(Math.abs(startX - endX) / 2, COLUMN_GAP / 2);
+      return `<path d="M${startX},${startY} C${startX - bend},${startY} ${endX + bend},${endY} ${endX},${endY}" fill="none" stroke="#666" marker-end="url(#arrow)"/>`;
+    });
+
+    const nodes = diagram.nodes.map((node) => {
+      const position = positions[node.id];
+      const cluster = diagram.clusters.find(cluster => cluster.id === node.clusterId) as DiagramCluster;
+      const color = COLORS[clusterIds.indexOf(node.clusterId) % COLORS.length];
+      const radius = node.section === 'Parameters' ? NODE_HEIGHT / 2 : 3;
+      const dash = node.section === 'Outputs' ? ' stroke-dasharray="4 2"' : '';
+      return [
+        `<g><title>${escapeXml(`${cluster.label}: ${node.section}.${node.name}`)}</title>`,
+        `<rect x="${position.x}" y="${position.y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="${radius}" fill="${color}" stroke="#333"${dash}/>`,
+        `<text x="${position.x + NODE_WIDTH / 2}" y="${position.y + NODE_HEIGHT / 2 + 4}" text-anchor="middle">${escapeXml(truncate(node.name))}</text></g>`,
+      ].join('');
+    });
+
+    const legend = diagram.clusters.map((cluster, index) => {
+      const y = legendTop + index * (NODE_HEIGHT + ROW_GAP);
+      const x = PADDING + getDepth(diagram, cluster) * PADDING;
+      const color = COLORS[index % COLORS.length];
+      return `<rect x="${x}" y="${y}" width="${NODE_HEIGHT}" height="${NODE_HEIGHT}" fill="${color}" stroke="#333"/>`
+        + `<text x="${x + NODE_HEIGHT + 8}" y="${y + NODE_HEIGHT / 2 + 4}">${escapeXml(cluster.label)}</text>`;
+    });
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" font-family="sans-serif" font-size="12">`,
+      '<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto">'
+        + '<path d="M0,0 L10,5 L0,10 z" fill="#666"/></marker></defs>',
+      ...edges,
+      ...nodes,
+      ...legend,
+      '</svg>',
+      '',
+    ].join('\n');
+  }
+
+  async function addTemplate(
+    diagram: Diagram,
+    template: TemplateDocument,
+    label: string,
+    parentId: string | undefined,
+    loadTemplate: TemplateLoader,
+    ancestorFilePaths: string[],
+  ): Promise<ClusterNodes> {
+    const clusterId = `c${diagram.clusters.length}`;
+    diagram.clusters.push({ label, parentId, id: clusterId, filePath: template.filePath });
+
+    const clusterNodes: ClusterNodes = {};
+    const declarations = template.declarations.filter(declaration => SECTIONS.indexOf(declaration.section) > -1);
+    declarations.forEach((declaration, index) => {
+      const id = `${clusterId}n${index}`;
+      diagram.nodes.push({ id, clusterId, name: declaration.name, section: declaration.section });
+      clusterNodes[declaration.section] = { ...(clusterNodes[declaration.section] || {}), [declaration.name]: id };
+    });
+
+    // Sub stack templates which include their ancestors would never end
+    const subStackNodes: { [name: string]: ClusterNodes } = {};
+    for (const subStack of TemplateDocument.getSubStacks(template)) {
+      if (ancestorFilePaths.indexOf(subStack.templatePath) > -1 || subStack.templatePath === template.filePath) continue;
+      const subStackTemplate = await loadTemplate(subStack.templatePath);
+      if (!subStackTemplate) continue;
+      const subStackLabel = `${subStack.name} (${subStack.templateUrl})`;
+      const ancestors = [...ancestorFilePaths, template.filePath];
+      subStackNodes[subStack.name] = await addTemplate(diagram, subStackTemplate, subStackLabel, clusterId, loadTemplate, ancestors);
+
+      // Each sub stack parameter uses whatever its value references
+      TemplateDocument.getSubStackParameterPairs(subStack).forEach((pair) => {
+        const parameterId = (subStackNodes[subStack.name].Parameters || {})[pair.stringKey as string];
+        const value = getNodeValueIfPair(pair);
+        if (!parameterId || value.type === NodeTypes.EMPTY || !value.range) return;
+        getReferencedIds(template, clusterNodes, subStackNodes, value.range).forEach(id => addEdge(diagram, parameterId, id));
+      });
+    }
+
+    // Then everything the template's own resources and outputs use
+    const users = declarations.filter(declaration => declaration.section !== 'Parameters');
+    users.forEach((declaration) => {
+      if (!declaration.node || !declaration.node.range) return;
+      const userId = clusterNodes[declaration.section][declaration.name];
+      getReferencedIds(template, clusterNodes, subStackNodes, declaration.node.range).forEach(id => addEdge(diagram, userId, id));
+    });
+    return clusterNodes;
+  }
+
+  // The nodes which references between the start and end of the range point at
+  function getReferencedIds(template: TemplateDocument, clusterNodes: ClusterNodes, subStackNodes: { [name: string]: ClusterNodes }, range: number[]) {
+    const ids: string[] = [];
+    template.traversal.nodesWhichReference.forEach((node) => {
+      (node.references || []).forEach((reference) => {
+        if (reference.absoluteKeyPosition < range[0] || reference.absoluteKeyPosition >= range[1]) return;
+        const [name, attribute, output] = reference.referencedKey.split('.');
+        const subStackOutputs = subStackNodes[name] && subStackNodes[name].Outputs;
+        const id = attribute === 'Outputs' && subStackOutputs && subStackOutputs[output]
+          ? subStackOutputs[output]
+          : (clusterNodes.Parameters || {})[name] || (clusterNodes.Resources || {})[name];
+        if (id && ids.indexOf(id) < 0) ids.push(id);
+      });
+    });
+    return ids;
+  }
+
+  function addEdge(diagram: Diagram, from: string, to: string) {
+    if (from === to || diagram.edges.some(edge => edge.from === from && edge.to === to)) return;
+    diagram.edges.push({ from, to });
+  }
+
+  // How many steps of use a node is from something which uses nothing, the column it is drawn in
+  function getRanks(diagram: Diagram): { [id: string]: number } {
+    const ranks: { [id: string]: number } = {};
+    const inProgress: string[] = [];
+    const getRank = (id: string): number => {
+      if (ranks[id] !== undefined) return ranks[id];
+      // Circular dependencies are reported elsewhere, just stop going around
+      if (inProgress.indexOf(id) > -1) return 0;
+      inProgress.push(id);
+      const used = diagram.edges.filter(edge => edge.from === id).map(edge => getRank(edge.to) + 1);
+      inProgress.splice(inProgress.indexOf(id), 1);
+      ranks[id] = Math.max(0, ...used);
+      return ranks[id];
+    };
+    diagram.nodes.forEach(node => getRank(node.id));
+    return ranks;
+  }
+
+  function getRootClusters(diagram: Diagram): DiagramCluster[] {
+    return diagram.clusters.filter(cluster => !cluster.parentId);
+  }
+
+  function getChildClusters(diagram: Diagram, parent: DiagramCluster): DiagramCluster[] {
+    return diagram.clusters.filter(cluster => cluster.parentId === parent.id);
+  }
+
+  function getClusterNodes(diagram: Diagram, cluster: DiagramCluster): DiagramNode[] {
+    return diagram.nodes.filter(node => node.clusterId === cluster.id);
+  }
+
+  function getDepth(diagram: Diagram, cluster: DiagramCluster): number {
+    const parent = diagram.clusters.find(candidate => candidate.id === cluster.parentId);
+    return parent ? getDepth(diagram, parent) + 1 : 0;
+  }
+
+  function truncate(text: string): string {
+    return text.length > 24 ? `${text.substring(0, 23)}…` : text;
+  }
+
+  function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
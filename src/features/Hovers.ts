@@ -0,0 +1,95 @@
+import { Declaration, Declarations } from '../common/Declarations';
+import { Range, createRangeBetween } from '../common/Diagnostics';
+import { Maps } from '../common/Maps';
+import { Reference } from '../common/Reference';
+import { getNodeItemByStringKey, getNodeValueIfPair, getYamlNodeKeys } from '../Yaml';
+import { Node } from '../Yaml/Node';
+import { NodeTypes } from '../Yaml/NodeTypes';
+import { TemplateDocument } from './TemplateDocument';
+
+export interface HoverCard {
+  markdown: string;
+  range: Range;
+}
+
+export namespace Hovers {
+  // The attributes shown for each kind of declaration, in order
+  export const sectionToAttributes: { [section: string]: string[] } = {
+    Parameters: ['Type', 'Description', 'Default', 'AllowedValues'],
+    Resources: ['Type', 'Condition'],
+    Outputs: ['Description', 'Value'],
+  };
+
+  export const sectionToTitle: { [section: string]: string } = {
+    Parameters: 'Parameter',
+    Conditions: 'Condition',
+    Mappings: 'Mapping',
+    Resources: 'Resource',
+    Outputs: 'Sub stack output',
+  };
+
+  export function getHover(template: TemplateDocument, absolutePosition: number): HoverCard | undefined {
+    const referenceAtPosition = TemplateDocument.findReferenceAt(template, absolutePosition);
+    if (!referenceAtPosition) return undefined;
+    const reference = referenceAtPosition.reference;
+    const range = createRangeBetween(template.fullText, reference.absoluteKeyPosition, Reference.getEnd(reference));
+    const keyPieces = reference.referencedKey.split('.');
+
+    // 'Stack.Outputs.Name' is described by the sub stack template
+    if (keyPieces.length > 2 && keyPieces[1] === 'Outputs') {
+      const subStack = TemplateDocument.loadSubStackDeclarations(template, keyPieces[0]);
+      const output = subStack && Declarations.findDeclaration(subStack.declarations, keyPieces.slice(2).join('.'), ['Outputs']);
+      return subStack && output
+        ? { range, markdown: describe(output, subStack.fullText, reference.referencedKey) }
+        : undefined;
+    }
+
+    const declaration = Declarations.findDeclaration(template.declarations, keyPieces[0], Maps.referenceTypeToSections[reference.type]);
+    return declaration
+      ? { range, markdown: describe(declaration, template.fullText, declaration.name) }
+      : undefined;
+  }
+
+  function describe(declaration: Declaration, fullText: string, title: string): string {
+    const paragraphs = [`**${sectionToTitle[declaration.section]}** \`${title}\``];
+    const node = declaration.node;
+
+    // Conditions are all about their expression
+    if (declaration.section === 'Conditions') {
+      paragraphs.push(toCodeBlock(getSourceText(node, fullText)));
+    }
+
+    // Mappings are best summarized by their top level keys
+    if (declaration.section === 'Mappings') {
+      paragraphs.push(`Keys: ${getYamlNodeKeys(node).map(key => `\`${key}\``).join(', ')}`);
+    }
+
+    (sectionToAttributes[declaration.section] || []).forEach((attribute) => {
+      const attributeNode = getNodeValueIfPair(getNodeItemByStringKey(node, attribute));
+      if (attributeNode.type === NodeTypes.EMPTY) return;
+      const value = describeValue(attributeNode, fullText);
+      paragraphs.push(value.startsWith('```') ? `${attribute}:\n${value}` : `${attribute}: ${value}`);
+    });
+    return paragraphs.join('\n\n');
+  }
+
+  function describeValue(node: Node, fullText: string): string {
+    if (node.type === NodeTypes.SEQ || node.type === NodeTypes.FLOW_SEQ) {
+      return (node.items || []).map(item => describeValue(item, fullText)).join(', ');
+    }
+    const isPlainScalar = typeof node.value !== 'object' && (!node.tag || node.tag.startsWith('tag:yaml.org'));
+    return isPlainScalar
+      ? `\`${node.value}\``
+      : toCodeBlock(getSourceText(node, fullText));
+  }
+
+  function getSourceText(node: Node, fullText: string): string {
+    return node && node.range
+      ? fullText.substring(node.range[0], node.range[1])
+      : '';
+  }
+
+  function toCodeBlock(code: string): string {
+    return `\`\`\`yaml\n${code}\n\`\`\``;
+  }
+}
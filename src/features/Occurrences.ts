@@ -0,0 +1,154 @@
+import { Declarations } from '../common/Declarations';
+import { Location, createLocation } from '../common/Location';
+import { Maps } from '../common/Maps';
+import { Reference } from '../common/Reference';
+import { TemplateDocument } from './TemplateDocument';
+
+// Something declared in a template which can be referenced, possibly from other templates
+export interface TargetSymbol {
+  filePath: string;
+  section: string;
+  name: string;
+  // Where the name was found, in the template the search started from
+  location: Location;
+}
+
+export interface Occurrence {
+  location: Location;
+  isDeclaration: boolean;
+}
+
+export namespace Occurrences {
+  // Logical IDs may only contain alphanumeric characters
+  export const VALID_NAME = /^[A-Za-z0-9]+$/;
+
+  export function findSymbolAt(template: TemplateDocument, absolutePosition: number): TargetSymbol | undefined {
+    return findDeclarationAt(template, absolutePosition)
+      || findReferencedSymbolAt(template, absolutePosition)
+      || findSubStackParameterAt(template, absolutePosition);
+  }
+
+  // Finds the declaration and every reference to it. Parent templates which embed the declaring template
+  // as a sub stack reference its Parameters by key and its Outputs through 'Stack.Outputs.Name'
+  export function findOccurrences(symbol: TargetSymbol, templates: TemplateDocument[]): Occurrence[] {
+    const occurrences: Occurrence[] = [];
+    templates.forEach((template) => {
+      if (template.filePath === symbol.filePath) {
+        occurrences.push(...findLocalOccurrences(symbol, template));
+      }
+      TemplateDocument.getSubStacks(template)
+        .filter(subStack => subStack.templatePath === symbol.filePath)
+        .forEach((subStack) => {
+          if (symbol.section === 'Parameters') {
+            TemplateDocument.getSubStackParameterPairs(subStack)
+              .filter(parameterPair => parameterPair.stringKey === symbol.name)
+              .forEach((parameterPair) => {
+                const location = createLocation(template.filePath, template.fullText, parameterPair.key.range[0], symbol.name.length);
+                occurrences.push({ location, isDeclaration: false });
+              });
+          }
+          if (symbol.section === 'Outputs') {
+            forEachReference(template, (reference) => {
+              if (reference.referencedKey === `${subStack.name}.Outputs.${symbol.name}`) {
+                const outputPosition = Reference.getAttributePosition(reference) + 'Outputs.'.length;
+                const location = createLocation(template.filePath, template.fullText, outputPosition, symbol.name.length);
+                occurrences.push({ location, isDeclaration: false });
+              }
+            });
+          }
+        });
+    });
+    return occurrences;
+  }
+
+  function findLocalOccurrences(symbol: TargetSymbol, template: TemplateDocument): Occurrence[] {
+    const occurrences: Occurrence[] = [];
+    const declaration = Declarations.findDeclaration(template.declarations, symbol.name, [symbol.section]);
+    if (declaration) {
+      const location = createLocation(template.filePath, template.fullText, declaration.absoluteKeyPosition, symbol.name.length);
+      occurrences.push({ location, isDeclaration: true });
+    }
+    forEachReference(template, (reference) => {
+      // Only the first piece of 'Resource.Attribute' or 'Stack.Outputs.Name' is a local name
+      const referencedName = reference.referencedKey.split('.')[0];
+      if (referencedName === symbol.name && Maps.referenceTypeToSections[reference.type].indexOf(symbol.section) > -1) {
+        const location = createLocation(template.filePath, template.fullText, reference.absoluteKeyPosition, symbol.name.length);
+        occurrences.push({ location, isDeclaration: false });
+      }
+    });
+    return occurrences;
+  }
+
+  function findDeclarationAt(template: TemplateDocument, absolutePosition: number): TargetSymbol | undefined {
+    const declaration = template.declarations.find((declaration) => {
+      return absolutePosition >= declaration.absoluteKeyPosition
+        && absolutePosition <= declaration.absoluteKeyPosition + declaration.name.length;
+    });
+    return declaration
+      ? {
+        filePath: template.filePath,
+        section: declaration.section,
+        name: declaration.name,
+        location: createLocation(template.filePath, template.fullText, declaration.absoluteKeyPosition, declaration.name.length),
+      }
+      : undefined;
+  }
+
+  function findReferencedSymbolAt(template: TemplateDocument, absolutePosition: number): TargetSymbol | undefined {
+    const referenceAtPosition = TemplateDocument.findReferenceAt(template, absolutePosition);
+    if (!referenceAtPosition) return undefined;
+    const reference = referenceAtPosition.reference;
+    const keyPieces = reference.referencedKey.split('.');
+
+    // 'Stack.Outputs.Name' is a sub stack's output, unless the cursor is on the sub stack's name
+    const isOnFirstPiece = absolutePosition <= reference.absoluteKeyPosition + keyPieces[0].length;
+    if (keyPieces.length === 3 && keyPieces[1] === 'Outputs' && !isOnFirstPiece) {
+      const subStackFilePath = TemplateDocument.getSubStackTemplatePath(template, keyPieces[0]);
+      if (!subStackFilePath) return undefined;
+      const outputPosition = Reference.getAttributePosition(reference) + 'Outputs.'.length;
+      return {
+        filePath: subStackFilePath,
+        section: 'Outputs',
+        name: keyPieces[2],
+        location: createLocation(template.filePath, template.fullText, outputPosition, keyPieces[2].length),
+      };
+    }
+
+    if (!isOnFirstPiece) return undefined;
+    const declaration = Declarations.findDeclaration(template.declarations, keyPieces[0], Maps.referenceTypeToSections[reference.type]);
+    return declaration
+      ? {
+        filePath: template.filePath,
+        section: declaration.section,
+        name: declaration.name,
+        location: createLocation(template.filePath, template.fullText, reference.absoluteKeyPosition, declaration.name.length),
+      }
+      : undefined;
+  }
+
+  function findSubStackParameterAt(template: TemplateDocument, absolutePosition: number): TargetSymbol | undefined {
+    for (const subStack of TemplateDocument.getSubStacks(template)) {
+      const parameterPair = TemplateDocument.getSubStackParameterPairs(subStack).find((item) => {
+        return absolutePosition >= item.key.range[0] && absolutePosition <= item.key.range[0] + (item.stringKey as string).length;
+      });
+      if (parameterPair) {
+        const name = parameterPair.stringKey as string;
+        return {
+          name,
+          filePath: subStack.templatePath,
+          section: 'Parameters',
+          location: createLocation(template.filePath, template.fullText, parameterPair.key.range[0], name.length),
+        };
+      }
+    }
+    return undefined;
+  }
+
+  function forEachReference(template: TemplateDocument, callback: (reference: Reference) => void) {
+    template.traversal.nodesWhichReference.forEach((node) => {
+      (node.references || []).forEach((reference) => {
+        callback(reference);
+      });
+    });
+  }
+}
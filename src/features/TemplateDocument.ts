@@ -0,0 +1,121 @@
+import fs from 'fs';
+import YAML from 'yaml';
+
+import { Declaration, Declarations } from '../common/Declarations';
+import { Reference } from '../common/Reference';
+import { SubStack } from '../common/SubStack';
+import { getNodeItemByStringKey, getNodeValueIfPair } from '../Yaml';
+import { Node } from '../Yaml/Node';
+import { NodeTraversal } from '../Yaml/NodeTraversal';
+import { Validator } from '../Validator';
+
+// Everything the language features need to know about a single template
+export interface TemplateDocument {
+  filePath: string;
+  fullText: string;
+  rootNode: Node;
+  traversal: NodeTraversal;
+  declarations: Declaration[];
+}
+
+export interface SubStackDeclaration {
+  name: string;
+  declaration: Declaration;
+  templateUrl: string;
+  // Where the TemplateURL resolves to on disk
+  templatePath: string;
+}
+
+// Just the declarations of a template, enough to look things up in a sub stack template
+export interface DeclaredTemplate {
+  filePath: string;
+  fullText: string;
+  rootNode: Node;
+  declarations: Declaration[];
+}
+
+export interface ReferenceAtPosition {
+  node: Node;
+  reference: Reference;
+}
+
+export namespace TemplateDocument {
+  export async function load(fullText: string, filePath: string, templateUrlMappings: SubStack.TemplateUrlMappings = {}): Promise<TemplateDocument> {
+    const document = YAML.parseDocument(fullText, { keepCstNodes: true });
+    const rootNode = document.contents as Node;
+    const traversal = await new Validator(undefined, undefined, templateUrlMappings).getTraversal(fullText, filePath, document);
+    return {
+      filePath,
+      fullText,
+      rootNode,
+      traversal,
+      declarations: Declarations.getDeclarations(rootNode),
+    };
+  }
+
+  export async function loadFile(filePath: string, templateUrlMappings: SubStack.TemplateUrlMappings = {}): Promise<TemplateDocument> {
+    return load(fs.readFileSync(filePath, 'utf8'), filePath, templateUrlMappings);
+  }
+
+  export function findReferenceAt(template: TemplateDocument, absolutePosition: number): ReferenceAtPosition | undefined {
+    for (const node of template.traversal.nodesWhichReference) {
+      for (const reference of node.references || []) {
+        const referenceEnd = Reference.getEnd(reference);
+        if (absolutePosition >= reference.absoluteKeyPosition && absolutePosition <= referenceEnd) {
+          return { node, reference };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  export function getSubStackTemplatePath(template: TemplateDocument, subStackName: string): string | undefined {
+    const subStack = getSubStacks(template).find(subStack => subStack.name === subStackName);
+    return subStack ? subStack.templatePath : undefined;
+  }
+
+  export function loadSubStackDeclarations(template: TemplateDocument, subStackName: string): DeclaredTemplate | undefined {
+    const subStackFilePath = getSubStackTemplatePath(template, subStackName);
+    if (!subStackFilePath) return undefined;
+    try {
+      const fullText = fs.readFileSync(subStackFilePath, 'utf8');
+      const document = YAML.parseDocument(fullText, { keepCstNodes: true });
+      const rootNode = document.contents as Node;
+      return {
+        fullText,
+        rootNode,
+        filePath: subStackFilePath,
+        declarations: Declarations.getDeclarations(rootNode),
+      };
+    } catch (error) {
+      // The sub stack template can't be read, the validator already reports that.
+      return undefined;
+    }
+  }
+
+  export function getSubStacks(template: TemplateDocument): SubStackDeclaration[] {
+    const subStacks: SubStackDeclaration[] = [];
+    template.declarations.forEach((declaration) => {
+      if (declaration.section !== 'Resources') return;
+      const location = template.traversal.subStackTemplates[declaration.name];
+      if (location && location.url !== undefined && location.filePath !== undefined) {
+        subStacks.push({
+          declaration,
+          templateUrl: location.url,
+          name: declaration.name,
+          templatePath: location.filePath,
+        });
+      }
+    });
+    return subStacks;
+  }
+
+  // The pairs of a sub stack's Parameters, their keys are the sub stack template's parameters
+  export function getSubStackParameterPairs(subStack: SubStackDeclaration): Node[] {
+    const properties = getNodeValueIfPair(getNodeItemByStringKey(subStack.declaration.node, 'Properties'));
+    const parameters = getNodeValueIfPair(getNodeItemByStringKey(properties, 'Parameters'));
+    return (parameters.items || []).filter((item) => {
+      return !!item.stringKey && !!item.key && !!item.key.range;
+    });
+  }
+}
@@ -0,0 +1,77 @@
+import fs from 'fs';
+import glob from 'glob';
+import path from 'path';
+import util from 'util';
+
+const globAsync = util.promisify(glob);
+const readFileAsync = util.promisify(fs.readFile);
+
+// A template found in the workspace, with the text it was recognized by
+export interface TemplateFile {
+  filePath: string;
+  fullText: string;
+}
+
+export namespace Workspace {
+  export const TEMPLATE_GLOB = '**/*.{yml,yaml,json,template}';
+  const IGNORED_DIRECTORIES = ['node_modules', '.git'];
+  export const IGNORED_GLOBS = IGNORED_DIRECTORIES.map(directory => `**/${directory}/**`);
+
+  // Any top-level key only a template has, at the start of a line or after the opening brace
+  const TEMPLATE_KEY = /(?:^|[{,]\s*)["']?(?:AWSTemplateFormatVersion|Resources)["']?\s*:/m;
+
+  // Finds every file under the given folders which could be a CloudFormation template
+  export function findTemplateFiles(folderPaths: string[]): string[] {
+    const filePaths: string[] = [];
+    folderPaths.forEach((folderPath) => {
+      glob.sync(TEMPLATE_GLOB, { cwd: folderPath, nodir: true, absolute: true, ignore: IGNORED_GLOBS })
+        .forEach((match) => {
+          const filePath = path.normalize(match);
+          if (filePaths.indexOf(filePath) < 0 && isTemplateFile(filePath)) filePaths.push(filePath);
+        });
+    });
+    return filePaths;
+  }
+
+  // Like findTemplateFiles without blocking, for the language server, and keeping the text which was read
+  export async function loadTemplateFiles(folderPaths: string[]): Promise<TemplateFile[]> {
+    const templateFiles: TemplateFile[] = [];
+    for (const folderPath of folderPaths) {
+      const matches = await globAsync(TEMPLATE_GLOB, { cwd: folderPath, nodir: true, absolute: true, ignore: IGNORED_GLOBS });
+      for (const match of matches) {
+        const filePath = path.normalize(match);
+        if (templateFiles.some(templateFile => templateFile.filePath === filePath)) continue;
+        try {
+          const fullText = await readFileAsync(filePath, 'utf8');
+          if (isTemplate(fullText)) templateFiles.push({ filePath, fullText });
+        } catch (error) {
+          // Unreadable files can't be templates
+        }
+      }
+    }
+    return templateFiles;
+  }
+
+  // Whether the file is under one of the folders, outside of the directories findTemplateFiles skips
+  export function contains(folderPaths: string[], filePath: string): boolean {
+    return folderPaths.some((folderPath) => {
+      const relativePath = path.relative(folderPath, filePath);
+      if (relativePath === '' || relativePath.startsWith('..') || path.isAbsolute(relativePath)) return false;
+      return relativePath.split(path.sep).every(part => IGNORED_DIRECTORIES.indexOf(part) < 0);
+    });
+  }
+
+  // Only files which look like a template, unlike CI configs, docker-compose files, package.json or a parameter file
+  export function isTemplate(fullText: string): boolean {
+    return TEMPLATE_KEY.test(fullText);
+  }
+
+  export function isTemplateFile(filePath: string): boolean {
+    try {
+      return isTemplate(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      // Unreadable files can't be templates
+      return false;
+    }
+  }
+}
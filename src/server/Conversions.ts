@@ -0,0 +1,89 @@
+import * as lsp from 'vscode-languageserver';
+import Uri from 'vscode-uri';
+
+import { Diagnostic, DiagnosticCodes } from '../common/Diagnostics';
+import { Location } from '../common/Location';
+import { QuickFix } from '../features/CodeActions';
+import { CompletionSuggestion } from '../features/Completions';
+import { HoverCard } from '../features/Hovers';
+import { validatorName } from '../Validator';
+
+export namespace Conversions {
+  export const sectionToCompletionItemKind: { [section: string]: lsp.CompletionItemKind } = {
+    Parameters: lsp.CompletionItemKind.Variable,
+    Conditions: lsp.CompletionItemKind.EnumMember,
+    Mappings: lsp.CompletionItemKind.Module,
+    Resources: lsp.CompletionItemKind.Class,
+    Outputs: lsp.CompletionItemKind.Field,
+  };
+
+  export function toUri(filePath: string): string {
+    return Uri.file(filePath).toString();
+  }
+
+  export function toFilePath(uri: string): string {
+    return Uri.parse(uri).fsPath;
+  }
+
+  // The validator uses vscode's severity values, which start at 0. The protocol's start at 1.
+  // Tags are sent for clients which speak protocol 3.15, older clients go by the code
+  export function toLspDiagnostic(diagnostic: Diagnostic): lsp.Diagnostic {
+    const lspDiagnostic: lsp.Diagnostic & { tags?: number[] } = {
+      range: diagnostic.range,
+      message: diagnostic.message,
+      severity: (diagnostic.severity + 1) as lsp.DiagnosticSeverity,
+      code: diagnostic.code,
+      source: validatorName,
+    };
+    if (diagnostic.tags) lspDiagnostic.tags = diagnostic.tags;
+    return lspDiagnostic;
+  }
+
+  // Code action requests send back the diagnostics which were published
+  export function fromLspDiagnostic(diagnostic: lsp.Diagnostic): Diagnostic {
+    return {
+      range: diagnostic.range,
+      message: diagnostic.message,
+      severity: (diagnostic.severity || lsp.DiagnosticSeverity.Error) - 1,
+      code: diagnostic.code as DiagnosticCodes,
+    };
+  }
+
+  export function toLspCodeAction(quickFix: QuickFix, diagnostic: lsp.Diagnostic): lsp.CodeAction {
+    const changes: { [uri: string]: lsp.TextEdit[] } = {};
+    quickFix.changes.forEach((change) => {
+      const uri = toUri(change.filePath);
+      changes[uri] = [...(changes[uri] || []), lsp.TextEdit.replace(change.range, change.newText)];
+    });
+    return {
+      title: quickFix.title,
+      kind: lsp.CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      edit: { changes },
+    };
+  }
+
+  export function toLspLocation(location: Location): lsp.Location {
+    return {
+      uri: toUri(location.filePath),
+      range: location.range,
+    };
+  }
+
+  export function toLspCompletionItem(suggestion: CompletionSuggestion, range: lsp.Range): lsp.CompletionItem {
+    return {
+      label: suggestion.label,
+      kind: sectionToCompletionItemKind[suggestion.section],
+      detail: suggestion.detail,
+      sortText: suggestion.sortText,
+      textEdit: lsp.TextEdit.replace(range, suggestion.insertText || suggestion.label),
+    };
+  }
+
+  export function toLspHover(hoverCard: HoverCard): lsp.Hover {
+    return {
+      contents: { kind: lsp.MarkupKind.Markdown, value: hoverCard.markdown },
+      range: hoverCard.range,
+    };
+  }
+}
@@ -0,0 +1,560 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import {
+  CodeAction,
+  CodeActionKind,
+  CodeActionParams,
+  CompletionItem,
+  CompletionParams,
+  Connection,
+  DidChangeConfigurationParams,
+  DidChangeWatchedFilesParams,
+  FileChangeType,
+  ErrorCodes,
+  ExecuteCommandParams,
+  Hover,
+  InitializeParams,
+  InitializeResult,
+  Location,
+  Range,
+  ReferenceParams,
+  RenameParams,
+  ResponseError,
+  TextDocumentPositionParams,
+  TextEdit,
+  WorkspaceEdit,
+  TextDocument,
+  TextDocuments,
+  TextDocumentSyncKind,
+} from 'vscode-languageserver';
+
+import { Commands } from '../common/Commands';
+import { revealAllProperties } from '../common';
+import { Diagnostic } from '../common/Diagnostics';
+import { ExportIndex } from '../common/Exports';
+import { ParameterFileAssociations, ParameterFiles } from '../common/ParameterFiles';
+import { ResourceSpecification } from '../common/ResourceSpecification';
+import { Settings } from '../common/Settings';
+import { SubStack, SubStackIndex } from '../common/SubStack';
+import { Validator, validatorName } from '../Validator';
+import { CodeActions } from '../features/CodeActions';
+import { Completions } from '../features/Completions';
+import { Definitions } from '../features/Definitions';
+import { Diagrams, DiagramFormat } from '../features/Diagrams';
+import { Hovers } from '../features/Hovers';
+import { Occurrences, TargetSymbol } from '../features/Occurrences';
+import { TemplateDocument } from '../features/TemplateDocument';
+import { Workspace } from '../features/Workspace';
+import { Conversions } from './Conversions';
+
+// How long a document has to stop changing for before it is validated, in milliseconds
+const VALIDATION_DELAY = 300;
+
+export class LanguageServer {
+  private documents: TextDocuments = new TextDocuments();
+  private workspaceFolderPaths: string[] = [];
+  private resourceSpecification: ResourceSpecification = ResourceSpecification.load();
+  private exportIndex: ExportIndex = new ExportIndex();
+  private parameterFileAssociations: ParameterFileAssociations = {};
+  private templateUrlMappings: SubStack.TemplateUrlMappings = {};
+  private subStackIndex: SubStackIndex = new SubStackIndex();
+  // Settles once the workspace's templates are indexed, until then the indexes only know the open documents
+  private indexing: Promise<void> = Promise.resolve();
+  private pendingValidations: { [uri: string]: NodeJS.Timer } = {};
+  private validatingWorkspace = false;
+
+  constructor(private connection: Connection) { }
+
+  public listen() {
+    this.connection.onInitialize(params => this.initialize(params));
+    this.connection.onInitialized(async () => {
+      await this.indexWorkspace();
+      if (this.validatingWorkspace) this.validateWorkspace();
+    });
+    this.connection.onExecuteCommand(params => this.executeCommand(params));
+    this.connection.onDefinition(params => this.findDefinition(params));
+    this.connection.onReferences(params => this.findReferences(params));
+    this.connection.onPrepareRename(params => this.prepareRename(params));
+    this.connection.onRenameRequest(params => this.rename(params));
+    this.connection.onCompletion(params => this.complete(params));
+    this.connection.onHover(params => this.hover(params));
+    this.connection.onCodeAction(params => this.codeAction(params));
+    this.connection.onDidChangeConfiguration(params => this.changeConfiguration(params));
+
+    // Opening a document also fires onDidChangeContent, and typing fires it for every keystroke
+    this.documents.onDidChangeContent(event => this.scheduleValidation(event.document));
+    this.documents.onDidSave((event) => {
+      this.validateDocument(event.document);
+      this.revalidateDependents([Conversions.toFilePath(event.document.uri)]);
+    });
+    this.documents.onDidClose(event => this.closeDocument(event.document));
+    this.connection.onDidChangeWatchedFiles(params => this.changeWatchedFiles(params));
+
+    this.documents.listen(this.connection);
+    this.connection.listen();
+  }
+
+  private initialize(params: InitializeParams): InitializeResult {
+    if (params.workspaceFolders) {
+      this.workspaceFolderPaths = params.workspaceFolders.map(folder => Conversions.toFilePath(folder.uri));
+    } else if (params.rootUri) {
+      this.workspaceFolderPaths = [Conversions.toFilePath(params.rootUri)];
+    }
+    this.applySettings(params.initializationOptions || {});
+    return {
+      capabilities: {
+        textDocumentSync: {
+          openClose: true,
+          change: TextDocumentSyncKind.Full,
+          save: { includeText: false },
+        },
+        definitionProvider: true,
+        referencesProvider: true,
+        renameProvider: { prepareProvider: true },
+        hoverProvider: true,
+        codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix] },
+        completionProvider: { triggerCharacters: [' ', '{', '[', '.', ','] },
+        executeCommandProvider: {
+          commands: [Commands.VALIDATE, Commands.VALIDATE_RECURSIVE, Commands.DEPENDENCY_DIAGRAM],
+        },
+      },
+    };
+  }
+
+  private async changeConfiguration(params: DidChangeConfigurationParams) {
+    const wasValidatingWorkspace = this.validatingWorkspace;
+    const templateUrlMappings = JSON.stringify(this.templateUrlMappings);
+    this.applySettings((params.settings && params.settings[Settings.SECTION]) || {});
+    // The mappings decide which templates are sub stacks of which, so the indexes are built again with them
+    if (JSON.stringify(this.templateUrlMappings) !== templateUrlMappings) this.indexWorkspace();
+    this.documents.all().forEach(document => this.validateDocument(document));
+    if (this.validatingWorkspace) {
+      this.validateWorkspace();
+    } else if (wasValidatingWorkspace) {
+      // Only open documents keep their diagnostics
+      (await this.findClosedTemplateFiles()).forEach(filePath => this.connection.sendDiagnostics({ uri: Conversions.toUri(filePath), diagnostics: [] }));
+    }
+  }
+
+  // Falls back to the bundled specification, rather than checking against one which can't be read
+  private applySettings(settings: Settings) {
+    this.parameterFileAssociations = settings.parameterFiles || {};
+    this.validatingWorkspace = !!settings.validateWorkspace;
+    this.templateUrlMappings = {};
+    Object.keys(settings.templateUrlMappings || {}).forEach((urlPrefix) => {
+      const directory = (settings.templateUrlMappings as SubStack.TemplateUrlMappings)[urlPrefix];
+      this.templateUrlMappings[urlPrefix] = path.resolve(this.workspaceFolderPaths[0] || '', directory);
+    });
+    const bundledSpecification = ResourceSpecification.load();
+    if (!settings.resourceSpecificationPath) {
+      this.resourceSpecification = bundledSpecification;
+      return;
+    }
+    const filePath = path.resolve(this.workspaceFolderPaths[0] || '', settings.resourceSpecificationPath);
+    try {
+      this.resourceSpecification = ResourceSpecification.load(filePath);
+    } catch (error) {
+      this.resourceSpecification = bundledSpecification;
+      this.connection.window.showWarningMessage(`${validatorName} is using its bundled resource specification, '${filePath}' could not be read: ${error.message}`);
+    }
+  }
+
+  // Validating returns the URIs of every file which has diagnostics, so the client can open them
+  private async executeCommand(params: ExecuteCommandParams): Promise<string[] | string> {
+    const [uri, format] = (params.arguments || []) as string[];
+    if (!uri) return [];
+    const openDocument = this.documents.get(uri);
+    const fullText = openDocument
+      ? openDocument.getText()
+      : fs.readFileSync(Conversions.toFilePath(uri), 'utf8');
+    if (params.command === Commands.DEPENDENCY_DIAGRAM) {
+      const template = await TemplateDocument.load(fullText, Conversions.toFilePath(uri), this.templateUrlMappings);
+      const diagram = await Diagrams.build(template, filePath => this.loadTemplateFile(filePath));
+      return Diagrams.render(diagram, format as DiagramFormat);
+    }
+    const recurse = params.command === Commands.VALIDATE_RECURSIVE;
+    return this.validate(uri, fullText, recurse);
+  }
+
+  private async findDefinition(params: TextDocumentPositionParams): Promise<Location | undefined> {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) return undefined;
+    const template = await this.loadTemplate(document);
+    const definition = Definitions.findDefinition(template, document.offsetAt(params.position));
+    return definition ? Conversions.toLspLocation(definition) : undefined;
+  }
+
+  private async findReferences(params: ReferenceParams): Promise<Location[]> {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) return [];
+    const template = await this.loadTemplate(document);
+    const symbol = Occurrences.findSymbolAt(template, document.offsetAt(params.position));
+    if (!symbol) return [];
+    const occurrences = Occurrences.findOccurrences(symbol, await this.loadRelatedTemplates(template, symbol));
+    return occurrences
+      .filter(occurrence => params.context.includeDeclaration || !occurrence.isDeclaration)
+      .map(occurrence => Conversions.toLspLocation(occurrence.location));
+  }
+
+  private async prepareRename(params: TextDocumentPositionParams): Promise<Range | undefined> {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) return undefined;
+    const template = await this.loadTemplate(document);
+    const symbol = Occurrences.findSymbolAt(template, document.offsetAt(params.position));
+    return symbol ? symbol.location.range : undefined;
+  }
+
+  private async rename(params: RenameParams): Promise<WorkspaceEdit | undefined> {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) return undefined;
+    if (!Occurrences.VALID_NAME.test(params.newName)) {
+      throw new ResponseError(ErrorCodes.InvalidParams, `'${params.newName}' is not a valid name, only alphanumeric characters are allowed`);
+    }
+    const template = await this.loadTemplate(document);
+    const symbol = Occurrences.findSymbolAt(template, document.offsetAt(params.position));
+    if (!symbol) return undefined;
+
+    const changes: { [uri: string]: TextEdit[] } = {};
+    Occurrences.findOccurrences(symbol, await this.loadRelatedTemplates(template, symbol)).forEach((occurrence) => {
+      const uri = Conversions.toUri(occurrence.location.filePath);
+      changes[uri] = [...(changes[uri] || []), TextEdit.replace(occurrence.location.range, params.newName)];
+    });
+    return { changes };
+  }
+
+  private async complete(params: CompletionParams): Promise<CompletionItem[]> {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) return [];
+    const absolutePosition = document.offsetAt(params.position);
+    const completions = await Completions.getCompletions(document.getText(), Conversions.toFilePath(document.uri), absolutePosition, this.templateUrlMappings);
+    if (!completions) return [];
+    const range = Range.create(document.positionAt(absolutePosition - completions.prefixLength), params.position);
+    return completions.suggestions.map(suggestion => Conversions.toLspCompletionItem(suggestion, range));
+  }
+
+  private async hover(params: TextDocumentPositionParams): Promise<Hover | undefined> {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) return undefined;
+    const template = await this.loadTemplate(document);
+    const hoverCard = Hovers.getHover(template, document.offsetAt(params.position));
+    return hoverCard ? Conversions.toLspHover(hoverCard) : undefined;
+  }
+
+  private async codeAction(params: CodeActionParams): Promise<CodeAction[]> {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) return [];
+    const diagnostics = params.context.diagnostics.filter(diagnostic => diagnostic.source === validatorName && diagnostic.code);
+    if (diagnostics.length === 0) return [];
+    const template = await this.loadTemplate(document);
+    const codeActions: CodeAction[] = [];
+    diagnostics.forEach((diagnostic) => {
+      CodeActions.getQuickFixes(template, Conversions.fromLspDiagnostic(diagnostic)).forEach((quickFix) => {
+        codeActions.push(Conversions.toLspCodeAction(quickFix, diagnostic));
+      });
+    });
+    return codeActions;
+  }
+
+  private async loadTemplate(document: TextDocument): Promise<TemplateDocument> {
+    return TemplateDocument.load(document.getText(), Conversions.toFilePath(document.uri), this.templateUrlMappings);
+  }
+
+  // Prefers the editor's contents, which may not have been saved yet
+  private async loadTemplateFile(filePath: string): Promise<TemplateDocument | undefined> {
+    const openDocument = this.documents.get(Conversions.toUri(filePath));
+    try {
+      return openDocument ? await this.loadTemplate(openDocument) : await TemplateDocument.loadFile(filePath, this.templateUrlMappings);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  // Loads the templates involved in the search, and the ones which nest the symbol's template when it is a parameter or an output
+  private async loadRelatedTemplates(template: TemplateDocument, symbol: TargetSymbol): Promise<TemplateDocument[]> {
+    await this.indexing;
+    const filePaths = [template.filePath];
+    const parentFilePaths = symbol.section === 'Parameters' || symbol.section === 'Outputs' ? this.subStackIndex.getParents(symbol.filePath) : [];
+    [symbol.filePath, ...parentFilePaths].forEach((filePath) => {
+      if (filePaths.indexOf(filePath) < 0) filePaths.push(filePath);
+    });
+
+    const templates: TemplateDocument[] = [];
+    for (const filePath of filePaths) {
+      if (filePath === template.filePath) {
+        templates.push(template);
+        continue;
+      }
+      // Unreadable files can't contain references
+      const relatedTemplate = await this.loadTemplateFile(filePath);
+      if (relatedTemplate) templates.push(relatedTemplate);
+    }
+    return templates;
+  }
+
+  // Only the last of a burst of changes is validated
+  private scheduleValidation(document: TextDocument) {
+    this.cancelValidation(document.uri);
+    this.pendingValidations[document.uri] = setTimeout(() => this.validateDocument(document), VALIDATION_DELAY);
+  }
+
+  private cancelValidation(uri: string) {
+    clearTimeout(this.pendingValidations[uri]);
+    delete this.pendingValidations[uri];
+  }
+
+  private async validateDocument(document: TextDocument) {
+    this.cancelValidation(document.uri);
+    const filePath = Conversions.toFilePath(document.uri);
+    if (this.isParameterFile(filePath)) {
+      this.validateParameterFile(document);
+      return;
+    }
+    // The client sends every YAML and JSON document, many of which, like CI configs and package.json, aren't templates
+    if (!Workspace.isTemplate(document.getText())) return;
+    // Indexing the workspace would overwrite the editor's contents with what is on disk
+    await this.indexing;
+    const exportsChanged = this.exportIndex.update(filePath, document.getText());
+    this.subStackIndex.update(filePath, document.getText());
+    await this.validate(document.uri, document.getText(), false);
+    // Other templates may import what this one exports, or export the same names
+    if (exportsChanged) this.revalidateOpenDocuments(document.uri);
+    this.revalidateParameterFiles([filePath]);
+  }
+
+  private revalidateOpenDocuments(exceptUri?: string) {
+    this.documents.all()
+      .filter(document => document.uri !== exceptUri)
+      .forEach((document) => {
+        const filePath = Conversions.toFilePath(document.uri);
+        if (this.isParameterFile(filePath)) {
+          this.validateParameterFile(document);
+        } else if (Workspace.isTemplate(document.getText())) {
+          this.validate(document.uri, document.getText(), false);
+        }
+      });
+  }
+
+  // Open parameter files are checked again when their template changes
+  private revalidateParameterFiles(templatePaths: string[]) {
+    this.documents.all().forEach((document) => {
+      const filePath = Conversions.toFilePath(document.uri);
+      if (!this.isParameterFile(filePath)) return;
+      const templatePath = this.findParameterFileTemplate(filePath);
+      if (templatePath && templatePaths.indexOf(templatePath) > -1) this.validateParameterFile(document);
+    });
+  }
+
+  // Parents are checked against the sub stack templates on disk, so they are validated again when those are saved or change.
+  // So are the sub stack templates of a changed parent, whose outputs it may have started or stopped using
+  private async revalidateDependents(filePaths: string[]) {
+    await this.indexing;
+    const subStackIndex = this.subStackIndex;
+    const dependentPaths: string[] = [];
+    filePaths.forEach((filePath) => {
+      [...subStackIndex.getAncestors(filePath), ...subStackIndex.getSubStackTemplates(filePath)].forEach((dependentPath) => {
+        if (filePaths.indexOf(dependentPath) < 0 && dependentPaths.indexOf(dependentPath) < 0) dependentPaths.push(dependentPath);
+      });
+    });
+    this.revalidateTemplates(dependentPaths);
+  }
+
+  // Open templates are always validated, and the rest of the workspace's when validating the workspace
+  private async revalidateTemplates(filePaths: string[]) {
+    for (const filePath of filePaths) {
+      const openDocument = this.documents.get(Conversions.toUri(filePath));
+      if (this.isParameterFile(filePath) || (!openDocument && !this.isWorkspaceTemplate(filePath))) continue;
+      const uri = openDocument ? openDocument.uri : Conversions.toUri(filePath);
+      let fullText: string;
+      try {
+        fullText = openDocument ? openDocument.getText() : fs.readFileSync(filePath, 'utf8');
+      } catch (error) {
+        // The file is gone, so it has no problems left
+        this.connection.sendDiagnostics({ uri, diagnostics: [] });
+        continue;
+      }
+      if (Workspace.isTemplate(fullText)) {
+        await this.validate(uri, fullText, false);
+      } else {
+        this.connection.sendDiagnostics({ uri, diagnostics: [] });
+      }
+    }
+  }
+
+  // Open documents are validated as they are opened and changed
+  private async validateWorkspace() {
+    this.revalidateTemplates(await this.findClosedTemplateFiles());
+  }
+
+  // The indexes know every template in the workspace, without looking through it again
+  private async findClosedTemplateFiles(): Promise<string[]> {
+    await this.indexing;
+    return this.subStackIndex.getTemplatePaths().filter((filePath) => {
+      return Workspace.contains(this.workspaceFolderPaths, filePath) && !this.documents.get(Conversions.toUri(filePath));
+    });
+  }
+
+  private isWorkspaceTemplate(filePath: string): boolean {
+    return this.validatingWorkspace && !this.isParameterFile(filePath) && Workspace.contains(this.workspaceFolderPaths, filePath);
+  }
+
+  // Open documents are indexed as they change, the editor's contents win over what is on disk.
+  // Files changed outside of the editor, by a git checkout or a code generator, are validated again in workspace mode
+  private async changeWatchedFiles(params: DidChangeWatchedFilesParams) {
+    await this.indexing;
+    let exportsChanged = false;
+    const changedFilePaths: string[] = [];
+    params.changes.forEach((change) => {
+      if (this.documents.get(change.uri)) return;
+      const filePath = Conversions.toFilePath(change.uri);
+      changedFilePaths.push(filePath);
+      let changed: boolean;
+      if (change.type === FileChangeType.Deleted) {
+        this.subStackIndex.remove(filePath);
+        changed = this.exportIndex.remove(filePath);
+      } else {
+        this.indexSubStacks(filePath);
+        changed = this.indexFile(filePath);
+      }
+      exportsChanged = exportsChanged || changed;
+    });
+    if (exportsChanged) this.revalidateOpenDocuments();
+    this.revalidateParameterFiles(changedFilePaths);
+    this.revalidateTemplates(changedFilePaths);
+    this.revalidateDependents(changedFilePaths);
+  }
+
+  // Unsaved changes are gone, so go back to what is on disk
+  private async closeDocument(document: TextDocument) {
+    this.cancelValidation(document.uri);
+    const filePath = Conversions.toFilePath(document.uri);
+    if (this.isWorkspaceTemplate(filePath)) {
+      this.revalidateTemplates([filePath]);
+    } else {
+      this.connection.sendDiagnostics({ uri: document.uri, diagnostics: [] });
+    }
+    if (this.isParameterFile(filePath)) return;
+    await this.indexing;
+    if (this.indexFile(filePath)) this.revalidateOpenDocuments();
+    this.indexSubStacks(filePath);
+    this.revalidateParameterFiles([filePath]);
+    this.revalidateDependents([filePath]);
+  }
+
+  // Built from the workspace's templates without blocking the server, then kept up to date as documents and files change.
+  // The open documents win over what is on disk, they may not have been saved yet
+  private indexWorkspace(): Promise<void> {
+    this.indexing = this.indexing.then(async () => {
+      const exportIndex = new ExportIndex();
+      const subStackIndex = new SubStackIndex(this.templateUrlMappings);
+      try {
+        (await Workspace.loadTemplateFiles(this.workspaceFolderPaths)).forEach((templateFile) => {
+          if (this.documents.get(Conversions.toUri(templateFile.filePath))) return;
+          exportIndex.update(templateFile.filePath, templateFile.fullText);
+          subStackIndex.update(templateFile.filePath, templateFile.fullText);
+        });
+      } catch (error) {
+        this.connection.console.error(`${validatorName} could not index the workspace: ${JSON.stringify(revealAllProperties(error))}`);
+      }
+      this.documents.all().forEach((document) => {
+        const filePath = Conversions.toFilePath(document.uri);
+        if (this.isParameterFile(filePath) || !Workspace.isTemplate(document.getText())) return;
+        exportIndex.update(filePath, document.getText());
+        subStackIndex.update(filePath, document.getText());
+      });
+      this.exportIndex = exportIndex;
+      this.subStackIndex = subStackIndex;
+    });
+    return this.indexing;
+  }
+
+  // Prefers the editor's contents, which may not have been saved yet
+  private indexSubStacks(filePath: string) {
+    const openDocument = this.documents.get(Conversions.toUri(filePath));
+    try {
+      const fullText = openDocument ? openDocument.getText() : fs.readFileSync(filePath, 'utf8');
+      if (Workspace.isTemplate(fullText)) {
+        this.subStackIndex.update(filePath, fullText);
+      } else {
+        this.subStackIndex.remove(filePath);
+      }
+    } catch (error) {
+      // The file is gone or unreadable, so it doesn't nest anything
+      this.subStackIndex.remove(filePath);
+    }
+  }
+
+  private indexFile(filePath: string): boolean {
+    try {
+      const fullText = fs.readFileSync(filePath, 'utf8');
+      // Only templates export anything, and JSON files like package-lock.json can be big
+      if (!Workspace.isTemplate(fullText)) return this.exportIndex.remove(filePath);
+      return this.exportIndex.update(filePath, fullText);
+    } catch (error) {
+      // The file is gone or unreadable, so it doesn't export anything
+      return this.exportIndex.remove(filePath);
+    }
+  }
+
+  private async validate(uri: string, fullText: string, recurse: boolean): Promise<string[]> {
+    const urisWithDiagnostics: string[] = [];
+    await this.indexing;
+    try {
+      const validator = new Validator(this.resourceSpecification, this.exportIndex, this.templateUrlMappings);
+      const rootFilePath = Conversions.toFilePath(uri);
+      const document = YAML.parseDocument(fullText, { keepCstNodes: true });
+      await this.addParentTemplates(validator, rootFilePath);
+      await validator.checkYaml(fullText, rootFilePath, document, recurse, true);
+      validator.diagnosticCollection.forEach((filePath, diagnostics) => {
+        // Keep the client's own URI for the root document, it may be encoded differently
+        const diagnosticsUri = filePath === rootFilePath ? uri : Conversions.toUri(filePath);
+        this.connection.sendDiagnostics({
+          uri: diagnosticsUri,
+          diagnostics: diagnostics.map(Conversions.toLspDiagnostic),
+        });
+        if (diagnostics.length > 0) urisWithDiagnostics.push(diagnosticsUri);
+      });
+    } catch (error) {
+      this.connection.console.error(`${validatorName} encountered an error: ${JSON.stringify(revealAllProperties(error))}`);
+    }
+    return urisWithDiagnostics;
+  }
+
+  // The diagnostics are only for the parameter file, the template reports its own problems
+  private validateParameterFile(document: TextDocument) {
+    const filePath = Conversions.toFilePath(document.uri);
+    const templatePath = this.findParameterFileTemplate(filePath);
+    let diagnostics: Diagnostic[] = [];
+    if (templatePath) {
+      const openTemplate = this.documents.get(Conversions.toUri(templatePath));
+      try {
+        const templateFullText = openTemplate ? openTemplate.getText() : fs.readFileSync(templatePath, 'utf8');
+        diagnostics = new Validator(this.resourceSpecification).checkParameterText(document.getText(), filePath, templateFullText);
+      } catch (error) {
+        // Without a readable template there is nothing to check the parameter file against
+      }
+    }
+    this.connection.sendDiagnostics({ uri: document.uri, diagnostics: diagnostics.map(Conversions.toLspDiagnostic) });
+  }
+
+  private isParameterFile(filePath: string): boolean {
+    return ParameterFiles.isParameterFile(filePath, this.parameterFileAssociations, this.workspaceFolderPaths[0]);
+  }
+
+  private findParameterFileTemplate(filePath: string): string | undefined {
+    return ParameterFiles.findTemplatePath(filePath, this.parameterFileAssociations, this.workspaceFolderPaths[0]);
+  }
+
+  // Whether a sub stack template's outputs are used can only be told from its parents
+  private async addParentTemplates(validator: Validator, filePath: string) {
+    for (const parentFilePath of this.subStackIndex.getParents(filePath)) {
+      const openDocument = this.documents.get(Conversions.toUri(parentFilePath));
+      try {
+        const fullText = openDocument ? openDocument.getText() : fs.readFileSync(parentFilePath, 'utf8');
+        await validator.addParentTemplate(fullText, parentFilePath, YAML.parseDocument(fullText, { keepCstNodes: true }));
+      } catch (error) {
+        // Unreadable files can't use any outputs
+      }
+    }
+  }
+}
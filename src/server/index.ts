@@ -0,0 +1,12 @@
+import { createConnection, ProposedFeatures } from 'vscode-languageserver';
+
+import { LanguageServer } from './LanguageServer';
+
+// The transport (--stdio, --node-ipc, --socket=<port> or --pipe=<name>) is read from the command line
+const connection = createConnection(ProposedFeatures.all);
+
+// Anything written to stdout would corrupt the --stdio transport, so send logging through the connection
+console.log = connection.console.log.bind(connection.console);
+console.error = connection.console.error.bind(connection.console);
+
+new LanguageServer(connection).listen();
@@ -0,0 +1,821 @@
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { Validator } from '../src/Validator';
+import { Diagnostic, DiagnosticCodes, DiagnosticSeverity, DiagnosticTag } from '../src/common/Diagnostics';
+import { ExportIndex } from '../src/common/Exports';
+import { getAbsolutePosition } from '../src/common/RowColumnPosition';
+import { ResourceSpecification } from '../src/common/ResourceSpecification';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+const resources = path.join(__dirname, '..', '..', 'test', 'resources');
+
+describe('Validator', () => {
+  describe('checkFile', () => {
+    it('should find no diagnostics given valid yaml files', async () => {
+      const validator = new Validator();
+      const diagnostics = await validator.checkFile(path.join(resources, 'valid_yaml', 'test.yml'), true);
+      assert.deepEqual(getMessages(diagnostics), []);
+      const subStackDiagnostics = validator.diagnosticCollection.get(path.join(resources, 'valid_yaml', 'subfolder', 'test_substack.yml'));
+      assert.deepEqual(subStackDiagnostics, []);
+    });
+    it('should find diagnostics given invalid yaml files', async () => {
+      const validator = new Validator();
+      const diagnostics = await validator.checkFile(path.join(resources, 'invalid_yaml', 'test.yml'), false);
+      const messages = getMessages(diagnostics);
+      assert.deepEqual(messages.length, 17);
+      assert.ok(messages.indexOf('Unable to find referenced sub stack output, \'FirstSubStack.Outputs.SecondOutput\'') > -1);
+      assert.ok(messages.indexOf('Properties missing value for required parameter, \'FifthParameter\'') > -1);
+      assert.ok(messages.indexOf('Unused parameter, \'ThirdParameter\'') > -1);
+      assert.deepEqual(validator.diagnosticCollection.get(path.join(resources, 'invalid_yaml', 'subfolder', 'test_substack.yml')), undefined);
+    });
+    it('should recurse into sub stacks', async () => {
+      const validator = new Validator();
+      await validator.checkFile(path.join(resources, 'invalid_yaml', 'test.yml'), true);
+      const subStackDiagnostics = validator.diagnosticCollection.get(path.join(resources, 'invalid_yaml', 'subfolder', 'test_substack.yml'));
+      assert.deepEqual(getMessages(subStackDiagnostics || []), [
+        'Output is not used by any parent stack, \'FirstOutput\'',
+        'Unable to find referenced value, \'SecondParameter\'',
+        'Unable to find referenced value, \'SixthParameter\'',
+        'Unused parameter, \'FifthParameter\'',
+        'Unused parameter, \'FourthParameter\'',
+      ]);
+    });
+  });
+  describe('unused declarations', () => {
+    const filePath = path.join(resources, 'valid_yaml', 'unused.yml');
+    const fullText = `Parameters:
+  Used:
+    Type: String
+  Unused:
+    Type: String
+Conditions:
+  IsUsed: !Equals [!Ref Used, prod]
+  IsUnused: !Equals [!Ref Used, dev]
+Mappings:
+  UnusedMap:
+    us-east-1:
+      Name: a
+Resources:
+  Topic:
+    Type: AWS::SNS::Topic
+    Condition: IsUsed
+`;
+    it('should warn about Parameters, Conditions and Mappings which are never referenced', async () => {
+      const diagnostics = await new Validator().checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Unused condition, \'IsUnused\'',
+        'Unused map, \'UnusedMap\'',
+        'Unused parameter, \'Unused\'',
+      ]);
+      diagnostics.forEach((diagnostic) => {
+        assert.deepEqual(diagnostic.code, DiagnosticCodes.UNUSED_DECLARATION);
+        assert.deepEqual(diagnostic.tags, [DiagnosticTag.Unnecessary]);
+      });
+    });
+    it('should check that Condition attributes point at a condition', async () => {
+      const text = fullText.replace('Condition: IsUsed', 'Condition: IsMissing');
+      const diagnostics = await new Validator().checkYaml(text, filePath, YAML.parseDocument(text, { keepCstNodes: true }), false, true);
+      assert.ok(getMessages(diagnostics).indexOf('Unable to find referenced condition, \'IsMissing\'') > -1);
+    });
+    it('should warn about sub stack outputs once a parent template is known', async () => {
+      const parentFilePath = path.join(resources, 'invalid_yaml', 'test.yml');
+      const subStackFilePath = path.join(resources, 'invalid_yaml', 'subfolder', 'test_substack.yml');
+      const parentText = fs.readFileSync(parentFilePath, 'utf8');
+      const subStackText = fs.readFileSync(subStackFilePath, 'utf8');
+
+      const validator = new Validator();
+      await validator.addParentTemplate(parentText, parentFilePath, YAML.parseDocument(parentText, { keepCstNodes: true }));
+      const diagnostics = await validator.checkYaml(subStackText, subStackFilePath, YAML.parseDocument(subStackText, { keepCstNodes: true }), false, true);
+      assert.ok(getMessages(diagnostics).indexOf('Output is not used by any parent stack, \'FirstOutput\'') > -1);
+      assert.deepEqual(validator.diagnosticCollection.get(parentFilePath), undefined);
+
+      const withoutParent = await new Validator().checkYaml(subStackText, subStackFilePath, YAML.parseDocument(subStackText, { keepCstNodes: true }), false, true);
+      assert.ok(withoutParent.every(diagnostic => diagnostic.code !== DiagnosticCodes.UNUSED_SUB_STACK_OUTPUT));
+    });
+  });
+  describe('long form intrinsic functions', () => {
+    const filePath = path.join(resources, 'valid_yaml', 'long_form.yml');
+    const fullText = `Parameters:
+  Env:
+    Type: String
+Conditions:
+  IsProd:
+    Fn::Equals: [Ref: Env, prod]
+Resources:
+  Topic:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName:
+        Ref: MissingRef
+      DisplayName:
+        Fn::Sub: "\${Env}-\${MissingSub}"
+      Other:
+        Fn::If:
+          - MissingCondition
+          - !Ref MissingShortRef
+          - Fn::FindInMap: [MissingMap, !Ref Env, key]
+      Another: !If [IsProd, {Ref: MissingFlowRef}, {"Fn::GetAtt": MissingResource.Arn}]
+      Last:
+        Fn::Join:
+          - ''
+          - - !Sub '\${MissingNestedSub}'
+            - Ref: "MissingQuotedRef"
+`;
+    it('should be validated like the short forms, at the right ranges', async () => {
+      const diagnostics = await new Validator().checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Unable to find referenced condition, \'MissingCondition\'',
+        'Unable to find referenced map, \'MissingMap\'',
+        'Unable to find referenced value, \'MissingFlowRef\'',
+        'Unable to find referenced value, \'MissingNestedSub\'',
+        'Unable to find referenced value, \'MissingQuotedRef\'',
+        'Unable to find referenced value, \'MissingRef\'',
+        'Unable to find referenced value, \'MissingResource\'',
+        'Unable to find referenced value, \'MissingShortRef\'',
+        'Unable to find referenced value, \'MissingSub\'',
+      ]);
+      diagnostics.forEach((diagnostic) => {
+        const start = getAbsolutePosition(fullText, { line: diagnostic.range.start.line, column: diagnostic.range.start.character });
+        const end = getAbsolutePosition(fullText, { line: diagnostic.range.end.line, column: diagnostic.range.end.character });
+        assert.ok(diagnostic.message.endsWith(`'${fullText.substring(start, end)}'`), `${diagnostic.message} has the wrong range`);
+      });
+    });
+  });
+  describe('list forms of !Sub and !GetAtt', () => {
+    const filePath = path.join(resources, 'valid_yaml', 'list_forms.yml');
+    const fullText = `Parameters:
+  Env:
+    Type: String
+Resources:
+  Child:
+    Type: AWS::CloudFormation::Stack
+    Properties:
+      TemplateURL: subfolder/test_substack.yml
+      Parameters:
+        FirstParameter: !Sub ["\${Name}-\${Env}", {Name: !Ref MissingInMap}]
+        SecondParameter:
+          Fn::Sub:
+            - "\${Other}-\${Name}"
+            - Other: !Ref Env
+        ThirdParameter: !GetAtt [MissingResource, Arn]
+        FourthParameter: !Ref Env
+        FifthParameter: !Ref Env
+        SixthParameter: !Ref Name
+  Topic:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName: !GetAtt [Child, Outputs.FirstOutput]
+      DisplayName:
+        Fn::GetAtt: [Child, Outputs.MissingOutput]
+`;
+    it('should scope !Sub variables to their own !Sub and check list form !GetAtt', async () => {
+      const diagnostics = await new Validator().checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Unable to find referenced sub stack output, \'Child.Outputs.MissingOutput\'',
+        'Unable to find referenced value, \'MissingInMap\'',
+        'Unable to find referenced value, \'MissingResource\'',
+        'Unable to find referenced value, \'Name\'',
+        'Unable to find referenced value, \'Name\'',
+      ]);
+      const ranges = diagnostics.map((diagnostic) => {
+        const start = getAbsolutePosition(fullText, { line: diagnostic.range.start.line, column: diagnostic.range.start.character });
+        const end = getAbsolutePosition(fullText, { line: diagnostic.range.end.line, column: diagnostic.range.end.character });
+        return fullText.substring(start, end);
+      }).sort();
+      assert.deepEqual(ranges, ['MissingInMap', 'MissingResource', 'Name', 'Name', 'Outputs.MissingOutput']);
+    });
+  });
+  describe('!GetAtt attributes', () => {
+    const filePath = path.join(resources, 'valid_yaml', 'attributes.yml');
+    const fullText = `Resources:
+  Bucket:
+    Type: AWS::S3::Bucket
+  Database:
+    Type: AWS::RDS::DBInstance
+  Custom:
+    Type: Custom::Thing
+  Unknown:
+    Type: AWS::Made::Up
+  Topic:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName: !GetAtt Bucket.Ars
+      DisplayName: !GetAtt [Bucket, NewerAttribute]
+      Tags:
+        - Key: !Sub "\${Bucket.Arn}-\${Database.Endpoint.Address}-\${Database.Endpoint.Adress}"
+          Value: !Join [",", [!GetAtt Custom.Anything, !GetAtt Unknown.Anything, Fn::GetAtt: [Bucket, DomainName]]]
+`;
+    function getAttributeDiagnostics(diagnostics: Diagnostic[]) {
+      return diagnostics.filter(diagnostic => diagnostic.code === DiagnosticCodes.UNKNOWN_ATTRIBUTE).map((diagnostic) => {
+        const start = getAbsolutePosition(fullText, { line: diagnostic.range.start.line, column: diagnostic.range.start.character });
+        const end = getAbsolutePosition(fullText, { line: diagnostic.range.end.line, column: diagnostic.range.end.character });
+        return `${diagnostic.message} at ${fullText.substring(start, end)}`;
+      }).sort();
+    }
+    it('should check attributes in every form against the bundled specification', async () => {
+      const diagnostics = await new Validator().checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getAttributeDiagnostics(diagnostics), [
+        'Unable to find AWS::RDS::DBInstance attribute, \'Endpoint.Adress\' at Endpoint.Adress',
+        'Unable to find AWS::S3::Bucket attribute, \'Ars\' at Ars',
+        'Unable to find AWS::S3::Bucket attribute, \'NewerAttribute\' at NewerAttribute',
+      ]);
+    });
+    it('should use the given specification instead', async () => {
+      const specification = ResourceSpecification.load(path.join(resources, 'resource_specification', 'specification.json'));
+      const validator = new Validator(specification);
+      const diagnostics = await validator.checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getAttributeDiagnostics(diagnostics), [
+        'Unable to find AWS::S3::Bucket attribute, \'Ars\' at Ars',
+        'Unable to find AWS::S3::Bucket attribute, \'DomainName\' at DomainName',
+      ]);
+    });
+  });
+  describe('exports and imports', () => {
+    const filePath = path.join(resources, 'valid_yaml', 'importer.yml');
+    const fullText = `Resources:
+  Topic:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName: !ImportValue network-vpc
+      DisplayName: !ImportValue network-subnet
+Outputs:
+  Name:
+    Value: !GetAtt Topic.TopicName
+    Export:
+      Name: shared-name
+  PerStack:
+    Value: !GetAtt Topic.TopicName
+    Export:
+      Name: !Sub \${AWS::StackName}-name
+`;
+    const exportIndex = new ExportIndex();
+    exportIndex.update(path.join(resources, 'valid_yaml', 'network.yml'), `Outputs:
+  Vpc:
+    Value: vpc
+    Export:
+      Name: network-vpc
+  Name:
+    Value: name
+    Export:
+      Name: shared-name
+  PerStack:
+    Value: name
+    Export:
+      Name: !Sub \${AWS::StackName}-name
+`);
+    it('should check imports and export names against the other templates in the index', async () => {
+      const validator = new Validator(ResourceSpecification.load(), exportIndex);
+      const diagnostics = await validator.checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Export name is also used in network.yml, \'shared-name\'',
+        'Unable to find exported value in the workspace, \'network-subnet\'',
+      ]);
+      const duplicate = diagnostics.find(diagnostic => diagnostic.code === DiagnosticCodes.DUPLICATE_EXPORT) as Diagnostic;
+      assert.deepEqual(duplicate.severity, DiagnosticSeverity.Error);
+      assert.deepEqual(duplicate.range.start, { line: 10, character: 12 });
+    });
+    it('should not check them without an index', async () => {
+      const diagnostics = await new Validator().checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(diagnostics, []);
+    });
+  });
+  describe('circular dependencies', () => {
+    const filePath = path.join(resources, 'valid_yaml', 'circular.yml');
+    const fullText = `Conditions:
+  First: !And [Condition: Second, !Equals [a, b]]
+  Second:
+    Fn::Not:
+      - Condition: First
+Resources:
+  Queue:
+    Type: AWS::SQS::Queue
+    DependsOn:
+      - Topic
+  Topic:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName: !GetAtt [Function, Arn]
+  Function:
+    Type: AWS::Lambda::Function
+    Properties:
+      FunctionName: !Sub "\${Queue}-function"
+  Independent:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName: !Ref Queue
+`;
+    it('should report every edge of a cycle with the path around it', async () => {
+      const diagnostics = await new Validator().checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      const circular = diagnostics.filter(diagnostic => diagnostic.code === DiagnosticCodes.CIRCULAR_DEPENDENCY);
+      assert.deepEqual(getMessages(circular), [
+        'Circular dependency between conditions, \'First → Second → First\'',
+        'Circular dependency between conditions, \'Second → First → Second\'',
+        'Circular dependency between resources, \'Function → Queue → Topic → Function\'',
+        'Circular dependency between resources, \'Queue → Topic → Function → Queue\'',
+        'Circular dependency between resources, \'Topic → Function → Queue → Topic\'',
+      ]);
+      circular.forEach((diagnostic) => {
+        const start = getAbsolutePosition(fullText, { line: diagnostic.range.start.line, column: diagnostic.range.start.character });
+        const end = getAbsolutePosition(fullText, { line: diagnostic.range.end.line, column: diagnostic.range.end.character });
+        const cycle = diagnostic.message.substring(diagnostic.message.indexOf('\'') + 1).split(' → ');
+        assert.deepEqual(fullText.substring(start, end), cycle[1]);
+      });
+    });
+  });
+  describe('conditions', () => {
+    const filePath = path.join(resources, 'valid_yaml', 'conditions.yml');
+    const fullText = `Parameters:
+  Env:
+    Type: String
+Conditions:
+  IsProduction: !Equals [!Ref Env, prod]
+  IsQueued: !Equals [!Ref Queue, queue]
+  IsBoth: !And [!Condition IsProduction, !Condition Env, {Condition: IsQueued}]
+  IsAlone: !Or [Condition: IsProduction]
+  IsMissing: !Not [!Condition IsNowhere]
+Resources:
+  Queue:
+    Type: AWS::SQS::Queue
+    Condition: IsBoth
+  Topic:
+    Type: AWS::SNS::Topic
+    Condition: Queue
+    Properties:
+      TopicName: !If [IsAlone, a, b]
+Outputs:
+  Queue:
+    Condition: IsMissing
+    Value: !Ref Env
+`;
+    it('should check every way a condition is defined and referenced', async () => {
+      const diagnostics = await new Validator().checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Conditions can only reference parameters, \'Queue\'',
+        'Expected 2 to 10 conditions but found 1, \'!Or\'',
+        'Unable to find referenced condition, \'Env\'',
+        'Unable to find referenced condition, \'IsNowhere\'',
+        'Unable to find referenced condition, \'Queue\'',
+      ]);
+      diagnostics.forEach((diagnostic) => {
+        const start = getAbsolutePosition(fullText, { line: diagnostic.range.start.line, column: diagnostic.range.start.character });
+        const end = getAbsolutePosition(fullText, { line: diagnostic.range.end.line, column: diagnostic.range.end.character });
+        assert.ok(diagnostic.message.endsWith(`'${fullText.substring(start, end)}'`), `${diagnostic.message} has the wrong range`);
+      });
+    });
+  });
+  describe('conditional resources', () => {
+    const filePath = path.join(resources, 'valid_yaml', 'conditional_resources.yml');
+    const fullText = `Parameters:
+  Env:
+    Type: String
+Conditions:
+  IsProduction: !Equals [!Ref Env, prod]
+  IsLarge: !Equals [!Ref Env, large]
+  IsLargeProduction: !And [!Condition IsProduction, !Condition IsLarge]
+Resources:
+  Queue:
+    Type: AWS::SQS::Queue
+    Condition: IsProduction
+  SameCondition:
+    Type: AWS::SNS::Topic
+    Condition: IsProduction
+    Properties:
+      TopicName: !GetAtt Queue.QueueName
+  ImpliedCondition:
+    Type: AWS::SNS::Topic
+    Condition: IsLargeProduction
+    DependsOn: Queue
+  OtherCondition:
+    Type: AWS::SNS::Topic
+    Condition: IsLarge
+    Properties:
+      TopicName: !Sub "\${Queue.QueueName}-topic"
+  Unconditional:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName: !If [IsProduction, !Ref Queue, !Ref Env]
+      DisplayName: !If [IsLarge, !Ref Queue, !Ref "AWS::NoValue"]
+Outputs:
+  Queue:
+    Value: !Ref Queue
+  GuardedQueue:
+    Condition: IsProduction
+    Value: !Ref Queue
+`;
+    it('should warn about references to a conditional resource without its condition', async () => {
+      const diagnostics = await new Validator().checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      const unguarded = diagnostics.filter(diagnostic => diagnostic.code === DiagnosticCodes.UNGUARDED_CONDITIONAL_REFERENCE);
+      assert.deepEqual(getMessages(unguarded), [
+        'Reference is not guarded by condition IsProduction, which Queue is created with, \'OtherCondition → Queue\'',
+        'Reference is not guarded by condition IsProduction, which Queue is created with, \'Outputs.Queue → Queue\'',
+        'Reference is not guarded by condition IsProduction, which Queue is created with, \'Unconditional → Queue\'',
+      ]);
+      unguarded.forEach((diagnostic) => {
+        assert.deepEqual(diagnostic.severity, DiagnosticSeverity.Warning);
+        assert.deepEqual(diagnostic.range.end.character - diagnostic.range.start.character, 'Queue'.length);
+      });
+      const inIf = unguarded.find(diagnostic => diagnostic.message.endsWith('\'Unconditional → Queue\'')) as Diagnostic;
+      assert.deepEqual(inIf.range.start, { line: 29, character: 38 });
+    });
+  });
+  describe('parameter declarations', () => {
+    const filePath = path.join(resources, 'valid_yaml', 'parameters.yml');
+    const fullText = `Parameters:
+  Environment:
+    Type: String
+    AllowedValues: [dev, prod]
+    MinValue: 1
+    Default: test
+  Count:
+    Type: Numbr
+Resources:
+  Child:
+    Type: AWS::CloudFormation::Stack
+    Properties:
+      TemplateURL: subfolder/constrained_substack.yml
+      Parameters:
+        Environment: !Ref Environment
+        Name: Queue
+        Count: 6
+        Ports: "80,https"
+  Queue:
+    Type: AWS::SQS::Queue
+    Properties:
+      DelaySeconds: !Ref Count
+`;
+    it('should check declarations and the literal values passed to sub stacks', async () => {
+      const diagnostics = await new Validator().checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Default is not one of the AllowedValues, \'test\'',
+        'MinValue doesn\'t apply to String parameters, \'MinValue\'',
+        'Unable to find parameter type \'Numbr\', did you mean \'Number\'?',
+        'Value does not match the AllowedPattern [a-z]+, \'Queue\'',
+        'Value is greater than the MaxValue of 5, \'6\'',
+        'Value must be a list of numbers, \'80,https\'',
+      ]);
+      diagnostics.filter(diagnostic => diagnostic.message.endsWith('\'')).forEach((diagnostic) => {
+        const start = getAbsolutePosition(fullText, { line: diagnostic.range.start.line, column: diagnostic.range.start.character });
+        const end = getAbsolutePosition(fullText, { line: diagnostic.range.end.line, column: diagnostic.range.end.character });
+        assert.ok(diagnostic.message.endsWith(`'${fullText.substring(start, end)}'`), `${diagnostic.message} has the wrong range`);
+      });
+      const inapplicable = diagnostics.find(diagnostic => diagnostic.message.startsWith('MinValue')) as Diagnostic;
+      assert.deepEqual(inapplicable.severity, DiagnosticSeverity.Warning);
+    });
+  });
+  describe('mappings', () => {
+    const filePath = path.join(resources, 'valid_yaml', 'mappings.yml');
+    const fullText = `Parameters:
+  Env:
+    Type: String
+    AllowedValues: [dev, staging, prod]
+Mappings:
+  Settings:
+    dev:
+      Size: small
+    prod:
+      Size: large
+      Zones: [a, b]
+  Broken: [a, b]
+Resources:
+  Queue:
+    Type: AWS::SQS::Queue
+    Properties:
+      QueueName: !FindInMap [Settings, !Ref Env, Size]
+      DelaySeconds: !FindInMap [Settings, prod, Zones]
+      MaximumMessageSize: !FindInMap [Settings, dev, Zones]
+      MessageRetentionPeriod: !FindInMap [Settings, test, Size]
+      VisibilityTimeout: !FindInMap [Settings, !Ref "AWS::Region", Colour]
+      RedrivePolicy: !FindInMap [Settings, !Ref "AWS::Region", Size]
+      Tags: !FindInMap [Broken, a, b]
+`;
+    it('should check known keys and the shape of the Mappings section', async () => {
+      const diagnostics = await new Validator().checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Mapping must contain top-level keys, \'Broken\'',
+        'Unable to find second-level key in Settings, \'Colour\'',
+        'Unable to find second-level key in Settings.dev, \'Zones\'',
+        'Unable to find top-level key in Settings for an allowed value of Env, \'staging\'',
+        'Unable to find top-level key in Settings, \'test\'',
+      ]);
+      const allowedValue = diagnostics.find(diagnostic => diagnostic.message.endsWith('\'staging\'')) as Diagnostic;
+      assert.deepEqual(allowedValue.range, { start: { line: 16, character: 44 }, end: { line: 16, character: 47 } });
+      const secondLevel = diagnostics.find(diagnostic => diagnostic.message.endsWith('\'Zones\'')) as Diagnostic;
+      assert.deepEqual(secondLevel.range.start, { line: 18, character: 53 });
+    });
+  });
+  describe('checkParameterFile', () => {
+    const directory = path.join(resources, 'parameter_files');
+    const templatePath = path.join(directory, 'app.yml');
+
+    // Missing parameters are reported where the file lists its parameters, everything else at what it names
+    function assertRanges(fullText: string, diagnostics: Diagnostic[]) {
+      diagnostics.filter(diagnostic => diagnostic.code !== DiagnosticCodes.MISSING_REQUIRED_PARAMETER).forEach((diagnostic) => {
+        const start = getAbsolutePosition(fullText, { line: diagnostic.range.start.line, column: diagnostic.range.start.character });
+        const end = getAbsolutePosition(fullText, { line: diagnostic.range.end.line, column: diagnostic.range.end.character });
+        assert.ok(diagnostic.message.indexOf(`'${fullText.substring(start, end)}'`) > -1, `${diagnostic.message} has the wrong range`);
+      });
+    }
+
+    it('should find no diagnostics given a complete CLI parameter file', async () => {
+      const diagnostics = new Validator().checkParameterFile(path.join(directory, 'app.dev.parameters.json'), templatePath);
+      assert.deepEqual(diagnostics, []);
+    });
+    it('should report unknown keys, missing required parameters and invalid values in a CodePipeline file', async () => {
+      const filePath = path.join(directory, 'app.prod.parameters.json');
+      const diagnostics = new Validator().checkParameterFile(filePath, templatePath);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Parameter file missing value for required parameter, \'Environment\'',
+        'Parameter file missing value for required parameter, \'Name\'',
+        'Template does not have parameter \'Enviroment\', did you mean \'Environment\'?',
+        'Value is greater than the MaxValue of 5, \'9\'',
+      ]);
+      assertRanges(fs.readFileSync(filePath, 'utf8'), diagnostics);
+      const missing = diagnostics.find(diagnostic => diagnostic.code === DiagnosticCodes.MISSING_REQUIRED_PARAMETER) as Diagnostic;
+      assert.deepEqual(missing.range, { start: { line: 1, character: 3 }, end: { line: 1, character: 13 } });
+    });
+    it('should check Key=Value lines', async () => {
+      const filePath = path.join(directory, 'app.parameters.properties');
+      const diagnostics = new Validator().checkParameterFile(filePath, templatePath);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Value does not match the AllowedPattern [a-z]+, \'Orders\'',
+        'Value is not one of the AllowedValues, \'staging\'',
+      ]);
+      assertRanges(fs.readFileSync(filePath, 'utf8'), diagnostics);
+    });
+    it('should check a plain JSON object and report files it can\'t parse', async () => {
+      const validator = new Validator();
+      const templateFullText = fs.readFileSync(templatePath, 'utf8');
+      const fullText = fs.readFileSync(path.join(directory, 'unnamed.json'), 'utf8');
+      assert.deepEqual(getMessages(validator.checkParameterText(fullText, path.join(directory, 'unnamed.json'), templateFullText)), [
+        'Value must be a number, \'two\'',
+      ]);
+      const unparseable = validator.checkParameterText('Environment: dev\n', path.join(directory, 'broken.properties'), templateFullText);
+      assert.deepEqual(unparseable.map(diagnostic => diagnostic.code), [DiagnosticCodes.UNPARSEABLE_PARAMETER_FILE]);
+    });
+  });
+  describe('template URLs', () => {
+    const filePath = path.join(resources, 'valid_yaml', 'template_urls.yml');
+    const fullText = `Parameters:
+  Bucket:
+    Type: String
+    Default: artifacts
+Resources:
+  Mapped:
+    Type: AWS::CloudFormation::Stack
+    Properties:
+      TemplateURL: !Sub "https://\${Bucket}.s3.amazonaws.com/stacks/constrained_substack.yml"
+      Parameters:
+        Environment: dev
+        Name: orders
+        Count: 6
+        Ports: "80"
+  Unresolved:
+    Type: AWS::CloudFormation::Stack
+    Properties:
+      TemplateURL: !Sub "https://s3.\${AWS::Region}.amazonaws.com/\${Bucket}/child.yml"
+      Parameters:
+        Anything: !GetAtt Mapped.Outputs.QueueUrl
+Outputs:
+  Queue:
+    Value: !GetAtt Mapped.Outputs.Missing
+  Other:
+    Value: !GetAtt Unresolved.Outputs.Anything
+`;
+    it('should check sub stacks through mappings and report URLs which can\'t be resolved', async () => {
+      const mappings = { 'https://*.s3.amazonaws.com/stacks/': path.join(resources, 'valid_yaml', 'subfolder') };
+      const validator = new Validator(undefined, undefined, mappings);
+      const diagnostics = await validator.checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Sub stack template is not checked, unable to resolve TemplateURL: AWS::Region is only known when deploying',
+        'Unable to find referenced sub stack output, \'Mapped.Outputs.Missing\'',
+        'Value is greater than the MaxValue of 5, \'6\'',
+      ]);
+      const unresolved = diagnostics.find(diagnostic => diagnostic.code === DiagnosticCodes.UNRESOLVED_TEMPLATE_URL) as Diagnostic;
+      assert.deepEqual(unresolved.severity, DiagnosticSeverity.Information);
+      assert.deepEqual(unresolved.range, { start: { line: 17, character: 25 }, end: { line: 17, character: 84 } });
+    });
+  });
+  describe('values passed to sub stacks', () => {
+    it('should report lists, and values whose type or constraints the sub stack parameter doesn\'t accept', async () => {
+      const filePath = path.join(resources, 'valid_yaml', 'passed_values.yml');
+      const fullText = `Parameters:
+  Stage:
+    Type: String
+    AllowedValues: [dev, staging, prod]
+  Size:
+    Type: Number
+    MinValue: 0
+    MaxValue: 5
+  Subnets:
+    Type: List<AWS::EC2::Subnet::Id>
+  PortList:
+    Type: CommaDelimitedList
+  Label:
+    Type: AWS::SSM::Parameter::Value<String>
+Resources:
+  Queues:
+    Type: AWS::CloudFormation::Stack
+    Properties:
+      TemplateURL: subfolder/constrained_substack.yml
+      Parameters:
+        Environment: !Ref Stage
+        Name: !Ref Subnets
+        Count: !GetAtt Other.Outputs.QueueUrl
+        Ports: !Join [",", !Ref PortList]
+  Other:
+    Type: AWS::CloudFormation::Stack
+    Properties:
+      TemplateURL: ./subfolder/constrained_substack.yml
+      Parameters:
+        Environment: dev
+        Name: !Sub "\${Label}"
+        Count: !Ref Size
+        Ports:
+          Fn::Split: [",", "80,443"]
+`;
+      const validator = new Validator();
+      const diagnostics = await validator.checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Parameter can be \'0\', which the sub stack parameter rejects as it is less than the MinValue of 1, \'Size\'',
+        'Parameter can be \'staging\', which the sub stack parameter rejects as it is not one of the AllowedValues, \'Stage\'',
+        'String value passed to Number parameter, \'Other.Outputs.QueueUrl\'',
+        'Sub stack parameters must be strings, List<AWS::EC2::Subnet::Id> has to be joined with !Join, \'Subnets\'',
+        'Sub stack parameters must be strings, List<String> has to be joined with !Join, \'Fn::Split\'',
+      ]);
+      const lists = diagnostics.filter(diagnostic => diagnostic.code === DiagnosticCodes.LIST_PARAMETER_VALUE);
+      assert.deepEqual(lists.map(diagnostic => diagnostic.severity), [DiagnosticSeverity.Warning, DiagnosticSeverity.Warning]);
+      diagnostics.forEach((diagnostic) => {
+        const start = getAbsolutePosition(fullText, { line: diagnostic.range.start.line, column: diagnostic.range.start.character });
+        const name = (/'([^']+)'$/.exec(diagnostic.message) as RegExpExecArray)[1];
+        assert.deepEqual(fullText.substr(start, name.length), name);
+        assert.ok(start > fullText.indexOf('Resources:'));
+      });
+    });
+  });
+  describe('serverless', () => {
+    it('should know the resources the transform adds and check serverless applications like sub stacks', async () => {
+      const validator = new Validator();
+      const diagnostics = await validator.checkFile(path.join(resources, 'serverless', 'template.yml'), true);
+      assert.deepEqual(getMessages(diagnostics), []);
+    });
+    it('should report Globals sections the transform doesn\'t have, and Globals without the transform', async () => {
+      const filePath = path.join(resources, 'serverless', 'template.yml');
+      const fullText = `Transform: AWS::Serverless-2016-10-31
+Globals:
+  Functions:
+    Timeout: 3
+Resources:
+  Handler:
+    Type: AWS::Serverless::Function
+    Properties:
+      Role: arn:aws:iam::123456789012:role/handler
+  Queues:
+    Type: AWS::Serverless::Application
+    Properties:
+      Location: ../valid_yaml/subfolder/constrained_substack.yml
+      Parameters:
+        Environment: dev
+        Name: orders
+        Count: 6
+        Ports: "80"
+Outputs:
+  Role:
+    Value: !GetAtt HandlerRole.Arn
+`;
+      const validator = new Validator();
+      const diagnostics = await validator.checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Unable to find Globals section \'Functions\', did you mean \'Function\'?',
+        'Unable to find referenced value, \'HandlerRole\'',
+        'Value is greater than the MaxValue of 5, \'6\'',
+      ]);
+      const globals = diagnostics.find(diagnostic => diagnostic.code === DiagnosticCodes.INVALID_GLOBALS) as Diagnostic;
+      assert.deepEqual(getAbsolutePosition(fullText, { line: globals.range.start.line, column: globals.range.start.character }), fullText.indexOf('Functions'));
+
+      const withoutTransform = fullText.replace('Transform: AWS::Serverless-2016-10-31\n', '');
+      const messages = getMessages(await validator.checkYaml(withoutTransform, filePath, YAML.parseDocument(withoutTransform, { keepCstNodes: true }), false, true));
+      assert.ok(messages.indexOf('Globals can only be used with the AWS::Serverless-2016-10-31 Transform, \'Globals\'') > -1);
+    });
+  });
+  describe('JSON templates', () => {
+    const directory = path.join(resources, 'json');
+    it('should check JSON templates and their sub stacks, whether those are JSON or YAML', async () => {
+      const validator = new Validator();
+      assert.deepEqual(getMessages(await validator.checkFile(path.join(directory, 'parent.json'), true)), []);
+      assert.deepEqual(validator.diagnosticCollection.get(path.join(directory, 'child.json')), []);
+      assert.deepEqual(validator.diagnosticCollection.get(path.join(resources, 'valid_yaml', 'subfolder', 'constrained_substack.yml')), []);
+    });
+    it('should check JSON sub stacks of YAML templates', async () => {
+      const validator = new Validator();
+      assert.deepEqual(getMessages(await validator.checkFile(path.join(directory, 'parent.yml'), false)), [
+        'Unable to find referenced sub stack output, \'Workers.Outputs.QueueArn\'',
+        'Value is not one of the AllowedValues, \'medium\'',
+      ]);
+    });
+    it('should report problems at their position in the JSON source, past any escapes', async () => {
+      const filePath = path.join(directory, 'parent.json');
+      const fullText = `{
+  "Resources": {
+    "Topic": {
+      "Type": "AWS::SNS::Topic",
+      "Properties": {
+        "DisplayName": {"Fn::Sub": "\\"quoted\\"\\n\\u0041 \${Enviroment}"},
+        "TopicName": {"Ref": "AWS::StackNmae"}
+      }
+    },
+    "Workers": {
+      "Type": "AWS::CloudFormation::Stack",
+      "DependsOn": ["Topic", "Queue"],
+      "Properties": {
+        "TemplateURL": "child.json",
+        "Parameters": {"TopicArn": {"Ref": "Topic"}, "Size": "medium"}
+      }
+    }
+  },
+  "Outputs": {
+    "TopicArn": {"Value": {"Fn::GetAtt": ["Topic", "Arn"]}}
+  }
+}
+`;
+      const validator = new Validator();
+      const diagnostics = await validator.checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Unable to find AWS::SNS::Topic attribute, \'Arn\'',
+        'Unable to find pseudo parameter \'AWS::StackNmae\', did you mean \'AWS::StackName\'?',
+        'Unable to find referenced resource, \'Queue\'',
+        'Unable to find referenced value, \'Enviroment\'',
+        'Value is not one of the AllowedValues, \'medium\'',
+      ]);
+      const starts = diagnostics.map(diagnostic => getAbsolutePosition(fullText, { line: diagnostic.range.start.line, column: diagnostic.range.start.character }));
+      assert.deepEqual(starts.sort((a, b) => a - b), [
+        fullText.indexOf('Enviroment'),
+        fullText.indexOf('AWS::StackNmae'),
+        fullText.indexOf('Queue'),
+        fullText.indexOf('medium'),
+        fullText.indexOf('Arn"]'),
+      ]);
+    });
+  });
+  describe('pseudo parameters', () => {
+    const filePath = path.join(resources, 'valid_yaml', 'pseudo_parameters.yml');
+    const fullText = `Conditions:
+  IsProduction: !Equals [!Ref "AWS::AccountId", "123456789012"]
+Resources:
+  Topic:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName: !Sub "\${AWS::StackName}-\${AWS::AcountId}"
+      DisplayName: !Ref AWS::Regoin
+      KmsMasterKeyId: !Ref AWS::NoValue
+      Subscription: !If [IsProduction, !Ref "AWS::NoValue", []]
+      Tags:
+        Fn::If:
+          - IsProduction
+          - Ref: AWS::NoValue
+          - - Key: Notifications
+              Value: !Sub "\${AWS::NotificationARNs}"
+        Unknown: !Ref AWS::Nothing
+`;
+    it('should report unknown and misused pseudo parameters', async () => {
+      const diagnostics = await new Validator().checkYaml(fullText, filePath, YAML.parseDocument(fullText, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getMessages(diagnostics), [
+        'Pseudo parameter can only be used with !Ref as a branch of Fn::If, \'AWS::NoValue\'',
+        'Pseudo parameter is a list, which !Sub can\'t use, \'AWS::NotificationARNs\'',
+        'Unable to find pseudo parameter \'AWS::AcountId\', did you mean \'AWS::AccountId\'?',
+        'Unable to find pseudo parameter \'AWS::Regoin\', did you mean \'AWS::Region\'?',
+        'Unable to find pseudo parameter, \'AWS::Nothing\'',
+      ]);
+      diagnostics.forEach((diagnostic) => {
+        const start = getAbsolutePosition(fullText, { line: diagnostic.range.start.line, column: diagnostic.range.start.character });
+        const end = getAbsolutePosition(fullText, { line: diagnostic.range.end.line, column: diagnostic.range.end.character });
+        const name = /'(AWS::[A-Za-z]+)'/.exec(diagnostic.message) as RegExpExecArray;
+        assert.deepEqual(fullText.substring(start, end), name[1]);
+      });
+      const misplaced = diagnostics.find(diagnostic => diagnostic.code === DiagnosticCodes.MISUSED_PSEUDO_PARAMETER && diagnostic.message.endsWith('\'AWS::NoValue\'')) as Diagnostic;
+      assert.deepEqual(misplaced.range.start, { line: 8, character: 27 });
+    });
+    it('should treat pseudo parameters in Fn::If, Fn::FindInMap and DependsOn like any other name', async () => {
+      const text = `Resources:
+  Topic:
+    Type: AWS::SNS::Topic
+    DependsOn: AWS::Region
+    Properties:
+      TopicName: !If [AWS::Region, a, b]
+`;
+      const diagnostics = await new Validator().checkYaml(text, filePath, YAML.parseDocument(text, { keepCstNodes: true }), false, true);
+      assert.deepEqual(getMessages(diagnostics).length, 2);
+      diagnostics.forEach(diagnostic => assert.deepEqual(diagnostic.code, DiagnosticCodes.UNKNOWN_REFERENCE));
+    });
+  });
+});
+
+function getMessages(diagnostics: Diagnostic[]) {
+  return diagnostics.map((diagnostic) => {
+    return diagnostic.message;
+  }).sort();
+}
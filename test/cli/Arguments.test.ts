@@ -0,0 +1,51 @@
+import assert from 'assert';
+import { parseArguments, OutputFormat } from '../../src/cli/Arguments';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+describe('Arguments', () => {
+  describe('parseArguments', () => {
+    it('should default to text output without recursion', async () => {
+      const cliArguments = parseArguments(['template.yml']);
+      assert.deepEqual(cliArguments, {
+        patterns: ['template.yml'],
+        recurse: false,
+        format: OutputFormat.TEXT,
+        parameterFilePaths: [],
+        templateUrlMappings: {},
+        help: false,
+      });
+    });
+    it('should parse flags and multiple patterns', async () => {
+      const cliArguments = parseArguments(['-r', 'a.yml', '--format', 'sarif', 'templates/**/*.yml']);
+      assert.deepEqual(cliArguments.patterns, ['a.yml', 'templates/**/*.yml']);
+      assert.deepEqual(cliArguments.recurse, true);
+      assert.deepEqual(cliArguments.format, OutputFormat.SARIF);
+    });
+    it('should parse the --format= form', async () => {
+      const cliArguments = parseArguments(['--format=json', 'a.yml']);
+      assert.deepEqual(cliArguments.format, OutputFormat.JSON);
+    });
+    it('should parse a resource specification file in either form', async () => {
+      assert.deepEqual(parseArguments(['-s', 'spec.json', 'a.yml']).resourceSpecificationPath, 'spec.json');
+      assert.deepEqual(parseArguments(['--resource-specification=spec.json', 'a.yml']).resourceSpecificationPath, 'spec.json');
+      assert.throws(() => parseArguments(['--resource-specification']), /Missing file for option, '--resource-specification'/);
+    });
+    it('should collect parameter files in either form', async () => {
+      assert.deepEqual(parseArguments(['-p', 'dev.json', '--parameters=prod.json', 'a.yml']).parameterFilePaths, ['dev.json', 'prod.json']);
+      assert.throws(() => parseArguments(['a.yml', '--parameters']), /Missing file for option, '--parameters'/);
+    });
+    it('should collect TemplateURL mappings in either form', async () => {
+      const cliArguments = parseArguments(['-m', 'https://s3.amazonaws.com/bucket/=stacks', '--template-url-mapping=s3://*/nested/=nested', 'a.yml']);
+      assert.deepEqual(cliArguments.templateUrlMappings, { 'https://s3.amazonaws.com/bucket/': 'stacks', 's3://*/nested/': 'nested' });
+      assert.throws(() => parseArguments(['-m', 'stacks', 'a.yml']), /Expected <url prefix>=<directory>/);
+    });
+    it('should reject unknown formats and options', async () => {
+      assert.throws(() => parseArguments(['--format', 'xml', 'a.yml']), /Unknown output format, 'xml'/);
+      assert.throws(() => parseArguments(['--format']), /Unknown output format/);
+      assert.throws(() => parseArguments(['--verbose', 'a.yml']), /Unknown option, '--verbose'/);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import assert from 'assert';
+import path from 'path';
+import { Formatters, FileDiagnostics } from '../../src/cli/Formatters';
+import { createDiagnostic, DiagnosticCodes, DiagnosticSeverity } from '../../src/common/Diagnostics';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+describe('Formatters', () => {
+  const workingDirectory = path.join(path.sep, 'workspace');
+  const results: FileDiagnostics[] = [
+    {
+      filePath: path.join(workingDirectory, 'templates', 'parent.yml'),
+      diagnostics: [
+        createDiagnostic({ line: 4, column: 10 }, 5, DiagnosticSeverity.Error, 'Unable to find referenced value, \'Thing\'', DiagnosticCodes.UNKNOWN_REFERENCE),
+        createDiagnostic({ line: 0, column: 0 }, 3, DiagnosticSeverity.Warning, 'A warning'),
+      ],
+    },
+    {
+      filePath: path.join(workingDirectory, 'templates', 'child.yml'),
+      diagnostics: [],
+    },
+  ];
+
+  describe('text', () => {
+    it('should print one 1-based line per diagnostic and a summary', async () => {
+      const output = Formatters.text(results, workingDirectory);
+      assert.deepEqual(output.split('\n'), [
+        `${path.join('templates', 'parent.yml')}:5:11 - error: Unable to find referenced value, 'Thing'`,
+        `${path.join('templates', 'parent.yml')}:1:1 - warning: A warning`,
+        '2 file(s) checked, 1 error(s), 1 warning(s)',
+      ]);
+    });
+  });
+  describe('json', () => {
+    it('should list diagnostics per file', async () => {
+      const output = JSON.parse(Formatters.json(results));
+      assert.deepEqual(output.length, 2);
+      assert.deepEqual(output[0].diagnostics[0], {
+        severity: 'error',
+        code: 'unknown-reference',
+        message: 'Unable to find referenced value, \'Thing\'',
+        line: 5,
+        column: 11,
+        endLine: 5,
+        endColumn: 16,
+      });
+      assert.deepEqual(output[1].diagnostics, []);
+    });
+  });
+  describe('sarif', () => {
+    it('should produce a SARIF 2.1.0 log with relative artifact URIs', async () => {
+      const output = JSON.parse(Formatters.sarif(results, workingDirectory));
+      assert.deepEqual(output.version, '2.1.0');
+      const sarifResults = output.runs[0].results;
+      assert.deepEqual(sarifResults.length, 2);
+      assert.deepEqual(sarifResults[0].level, 'error');
+      assert.deepEqual(sarifResults[1].level, 'warning');
+      assert.deepEqual(sarifResults[0].ruleId, 'unknown-reference');
+      assert.deepEqual(sarifResults[0].locations[0].physicalLocation, {
+        artifactLocation: { uri: 'templates/parent.yml' },
+        region: { startLine: 5, startColumn: 11, endLine: 5, endColumn: 16 },
+      });
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import assert from 'assert';
+import YAML from 'yaml';
+import { ConditionalReferences } from '../../src/common/ConditionalReferences';
+import { Validator } from '../../src/Validator';
+import { Node } from '../../src/Yaml/Node';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+describe('ConditionalReferences', () => {
+  const fullText = `Conditions:
+  IsProd: !Equals [!Ref "AWS::Region", us-east-1]
+  IsProdToo:
+    Fn::And:
+      - Condition: IsProd
+      - !Equals [a, b]
+Resources:
+  Queue:
+    Type: AWS::SQS::Queue
+    Condition: IsProd
+  Topic:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName:
+        Fn::If:
+          - IsProdToo
+          - !GetAtt Queue.QueueName
+          - !GetAtt Queue.QueueName
+Outputs:
+  Queue:
+    Value: !Ref Queue
+`;
+
+  describe('findUnguarded', () => {
+    it('should only accept a reference in the value if true of an Fn::If on an implying condition', async () => {
+      const document = YAML.parseDocument(fullText, { keepCstNodes: true });
+      const traversal = await new Validator().getTraversal(fullText, 'template.yml', document);
+      const unguardedReferences = ConditionalReferences.findUnguarded(document.contents as Node, traversal);
+      assert.deepEqual(unguardedReferences.map(ConditionalReferences.getPath), ['Topic → Queue', 'Outputs.Queue → Queue']);
+      assert.deepEqual(unguardedReferences[0].condition, 'IsProd');
+      assert.deepEqual(unguardedReferences[0].reference.absoluteKeyPosition, fullText.lastIndexOf('Queue.QueueName'));
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import assert from 'assert';
+import YAML from 'yaml';
+import { Conditions } from '../../src/common/Conditions';
+import { getNodeItemByStringKey, getNodeValueIfPair } from '../../src/Yaml';
+import { Node } from '../../src/Yaml/Node';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+describe('Conditions', () => {
+  describe('findProblems', () => {
+    it('should accept both forms of every condition function', async () => {
+      const fullText = `Conditions:
+  IsProduction: !Equals [!Ref Env, prod]
+  IsNotProduction:
+    Fn::Not: [Condition: IsProduction]
+  IsEither: !Or [!Condition IsProduction, {Condition: IsNotProduction}]
+  IsBoth:
+    Fn::And:
+      - Condition: IsProduction
+      - !Not [!Equals [a, b]]
+`;
+      assert.deepEqual(Conditions.findProblems(YAML.parseDocument(fullText, { keepCstNodes: true }).contents as Node), []);
+    });
+    it('should check the number and kind of arguments', async () => {
+      const fullText = `Conditions:
+  Literal: false
+  TooFew: !And [Condition: Literal]
+  TooMany:
+    Fn::Not: [Condition: Literal, Condition: TooFew]
+  NotAList: !Equals a
+  Operands: !Or [true, {Ref: Env}, !Ref Env]
+`;
+      const problems = Conditions.findProblems(YAML.parseDocument(fullText, { keepCstNodes: true }).contents as Node).map((problem) => {
+        assert.ok(fullText.substring(problem.absolutePosition).startsWith(problem.name));
+        return `${problem.message}, ${problem.name}`;
+      });
+      assert.deepEqual(problems, [
+        'Condition must be Fn::And, Fn::Equals, Fn::Not or Fn::Or, Literal',
+        'Expected 2 to 10 conditions but found 1, !And',
+        'Expected 1 condition but found 2, Fn::Not',
+        'Expected a list of 2 values, !Equals',
+        'Expected a condition function or a Condition reference, true',
+        'Expected a condition function or a Condition reference, Ref',
+        'Expected a condition function or a Condition reference, !Ref',
+      ]);
+    });
+    it('should read tags as they are written, not as validating copies them onto items', async () => {
+      const fullText = `Conditions:
+  IsEither: !Or [IsProduction, !Condition IsStaging]
+`;
+      const rootNode = YAML.parseDocument(fullText, { keepCstNodes: true }).contents as Node;
+      const either = getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Conditions')), 'IsEither'));
+      either.items[0].tag = '!Or';
+      assert.deepEqual(Conditions.findProblems(rootNode).map(problem => `${problem.message}, ${problem.name}`), [
+        'Expected a condition function or a Condition reference, IsProduction',
+      ]);
+    });
+  });
+  describe('getImpliedConditions', () => {
+    it('should follow the conditions every Fn::And requires', async () => {
+      const fullText = `Conditions:
+  A: !Equals [a, b]
+  B: !Or [Condition: A, !Equals [c, d]]
+  C: !And [!Condition B, {Condition: D}]
+  D:
+    Fn::And: [Condition: A, Condition: C]
+`;
+      const rootNode = YAML.parseDocument(fullText, { keepCstNodes: true }).contents as Node;
+      assert.deepEqual(Conditions.getImpliedConditions(rootNode, 'C'), ['C', 'B', 'D', 'A']);
+      assert.deepEqual(Conditions.getImpliedConditions(rootNode, 'B'), ['B']);
+      assert.deepEqual(Conditions.getImpliedConditions(rootNode, 'Missing'), ['Missing']);
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import assert from 'assert';
+import YAML from 'yaml';
+import { Declarations } from '../../src/common/Declarations';
+import { Node } from '../../src/Yaml/Node';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+describe('Declarations', () => {
+  const fullText = 'Parameters:\n  Name:\n    Type: String\nConditions:\n  IsProd: !Equals [a, b]\nResources:\n  Name2:\n    Type: AWS::SNS::Topic\n';
+  const rootNode = YAML.parseDocument(fullText, { keepCstNodes: true }).contents as Node;
+
+  describe('getDeclarations', () => {
+    it('should collect the keys of every section with their positions', async () => {
+      const declarations = Declarations.getDeclarations(rootNode);
+      assert.deepEqual(declarations.map(declaration => [declaration.section, declaration.name, declaration.absoluteKeyPosition]), [
+        ['Parameters', 'Name', fullText.indexOf('Name')],
+        ['Conditions', 'IsProd', fullText.indexOf('IsProd')],
+        ['Resources', 'Name2', fullText.indexOf('Name2')],
+      ]);
+    });
+  });
+  describe('findDeclaration', () => {
+    it('should only find declarations in the given sections', async () => {
+      const declarations = Declarations.getDeclarations(rootNode);
+      assert.deepEqual(Declarations.findDeclaration(declarations, 'IsProd', ['Parameters']), undefined);
+      const condition = Declarations.findDeclaration(declarations, 'IsProd', ['Conditions']);
+      assert.deepEqual(condition && condition.section, 'Conditions');
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import assert from 'assert';
+import YAML from 'yaml';
+import { DependencyGraph } from '../../src/common/DependencyGraph';
+import { Validator } from '../../src/Validator';
+import { Node } from '../../src/Yaml/Node';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+describe('DependencyGraph', () => {
+  const fullText = `Parameters:
+  Name:
+    Type: String
+Conditions:
+  IsProd: !Equals [!Ref Name, prod]
+  IsProdAgain: !Or [Condition: IsProd, !Equals [a, b]]
+Resources:
+  Queue:
+    Type: AWS::SQS::Queue
+    Condition: IsProd
+    Properties:
+      QueueName: !Ref Name
+  Topic:
+    Type: AWS::SNS::Topic
+    DependsOn: [Queue]
+    Properties:
+      TopicName: !Sub "\${Queue.QueueName}-\${Name}"
+  Alarm:
+    Type: AWS::CloudWatch::Alarm
+    Properties:
+      AlarmActions: [!Ref Topic]
+      AlarmName: !GetAtt Alarm.Arn
+`;
+
+  async function getEdges(section: string) {
+    const document = YAML.parseDocument(fullText, { keepCstNodes: true });
+    const traversal = await new Validator().getTraversal(fullText, 'template.yml', document);
+    return DependencyGraph.getEdges(document.contents as Node, traversal, section);
+  }
+
+  describe('getEdges', () => {
+    it('should connect resources through DependsOn, !Ref, !GetAtt and !Sub', async () => {
+      const edges = await getEdges('Resources');
+      assert.deepEqual(edges.map(edge => `${edge.from} -> ${edge.to}`).sort(), [
+        'Alarm -> Alarm',
+        'Alarm -> Topic',
+        'Topic -> Queue',
+        'Topic -> Queue',
+      ]);
+    });
+    it('should connect conditions through Condition', async () => {
+      const edges = await getEdges('Conditions');
+      assert.deepEqual(edges.map(edge => `${edge.from} -> ${edge.to}`), ['IsProdAgain -> IsProd']);
+    });
+  });
+  describe('findCycle', () => {
+    it('should find the shortest way back to where an edge starts', async () => {
+      const edges = ['A:B', 'B:C', 'C:A', 'B:D', 'D:E', 'E:A', 'C:F'].map((pair) => {
+        const [from, to] = pair.split(':');
+        return { from, to, reference: {} as any };
+      });
+      assert.deepEqual(DependencyGraph.findCycle(edges, edges[0]), ['A', 'B', 'C', 'A']);
+      assert.deepEqual(DependencyGraph.findCycle(edges, edges[3]), ['B', 'D', 'E', 'A', 'B']);
+      assert.deepEqual(DependencyGraph.findCycle(edges, edges[6]), undefined);
+    });
+    it('should find resources which depend on themselves', async () => {
+      const edges = (await getEdges('Resources')).filter(edge => edge.from === 'Alarm');
+      assert.deepEqual(edges.map(edge => DependencyGraph.findCycle(edges, edge)), [undefined, ['Alarm', 'Alarm']]);
+    });
+  });
+});
@@ -1,7 +1,6 @@
-import vscode from 'vscode';
 import assert from 'assert';
 import { RowColumnPosition } from '../../src/common/RowColumnPosition';
-import { createDiagnostic, createVsCodeRange } from '../../src/common/Diagnostics';
+import { createDiagnostic, createRange, DiagnosticSeverity } from '../../src/common/Diagnostics';
 
 import mocha from 'mocha';
 const describe = (mocha as any).describe;
@@ -15,7 +14,7 @@ describe('Diagnostics', () => {
         column: 100,
       };
       const length: number = 10;
-      const severity: vscode.DiagnosticSeverity = vscode.DiagnosticSeverity.Hint;
+      const severity: DiagnosticSeverity = DiagnosticSeverity.Hint;
       const message: string = 'Diagnostic Message';
       const diagnostic = createDiagnostic(position, length, severity, message);
       assert.deepEqual(diagnostic.severity, severity);
@@ -26,14 +25,14 @@ describe('Diagnostics', () => {
       assert.deepEqual(diagnostic.range.end.character, position.column + length);
     });
   });
-  describe('createVsCodeRange', () => {
+  describe('createRange', () => {
     it('should create a correct range', async () => {
       const length = 100;
       const position: RowColumnPosition = {
         line: 100,
         column: 100,
       };
-      const range = createVsCodeRange(position, length);
+      const range = createRange(position, length);
       assert.deepEqual(range.start.line, position.line);
       assert.deepEqual(range.start.character, position.column);
       assert.deepEqual(range.end.line, position.line);
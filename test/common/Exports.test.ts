@@ -0,0 +1,90 @@
+import assert from 'assert';
+import YAML from 'yaml';
+import { Exports, ExportIndex } from '../../src/common/Exports';
+import { Node } from '../../src/Yaml/Node';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+describe('Exports', () => {
+  const fullText = `Parameters:
+  Env:
+    Type: String
+Resources:
+  Topic:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName: !ImportValue shared-name
+      DisplayName:
+        Fn::ImportValue: !Sub "\${AWS::Region}-display"
+      Tags:
+        - Key: !ImportValue {"Fn::Sub": "\${Env}-key"}
+          Value:
+            Fn::ImportValue:
+              Fn::Sub: "\${AWS::StackName}-value"
+Outputs:
+  Literal:
+    Value: a
+    Export:
+      Name: literal-name
+  Pseudo:
+    Value: b
+    Export:
+      Name: !Sub '\${AWS::StackName}-pseudo'
+  Parameter:
+    Value: c
+    Export:
+      Name: !Sub \${Env}-parameter
+  NotExported:
+    Value: d
+`;
+  const rootNode = YAML.parseDocument(fullText, { keepCstNodes: true }).contents as Node;
+
+  describe('findExports', () => {
+    it('should resolve literal names and !Sub names using only pseudo parameters', async () => {
+      const exportNames = Exports.findExports(rootNode, 'template.yml');
+      assert.deepEqual(exportNames.map(exportName => [exportName.name, exportName.absolutePosition, exportName.length]), [
+        ['literal-name', fullText.indexOf('literal-name'), 'literal-name'.length],
+        ['${AWS::StackName}-pseudo', fullText.indexOf('${AWS::StackName}-pseudo'), '${AWS::StackName}-pseudo'.length],
+      ]);
+    });
+  });
+  describe('findImports', () => {
+    it('should find both forms of ImportValue, with either form of Sub', async () => {
+      assert.deepEqual(Exports.findImports(rootNode, 'template.yml').map(importName => importName.name), [
+        'shared-name',
+        '${AWS::Region}-display',
+        '${AWS::StackName}-value',
+      ]);
+    });
+  });
+  describe('matches', () => {
+    it('should let pseudo parameters on either side stand for anything', async () => {
+      assert.ok(Exports.matches('shared-name', 'shared-name'));
+      assert.ok(Exports.matches('us-east-1-display', '${AWS::Region}-display'));
+      assert.ok(Exports.matches('${AWS::Region}-display', 'us-east-1-display'));
+      assert.ok(!Exports.matches('us-east-1-displays', '${AWS::Region}-display'));
+      assert.ok(!Exports.matches('shared.name', 'shared-name'));
+    });
+  });
+  describe('isStackSpecific', () => {
+    it('should only be true for names using the stack name or ID', async () => {
+      assert.ok(Exports.isStackSpecific('${AWS::StackName}-pseudo'));
+      assert.ok(!Exports.isStackSpecific('${AWS::Region}-display'));
+    });
+  });
+  describe('ExportIndex', () => {
+    it('should report whether a file\'s export names changed', async () => {
+      const exportIndex = new ExportIndex();
+      assert.ok(exportIndex.update('template.yml', fullText));
+      assert.ok(!exportIndex.update('template.yml', `${fullText}# just a comment\n`));
+      assert.ok(!exportIndex.update('other.yml', 'Resources: {}'));
+      assert.deepEqual(exportIndex.getExports().map(exportName => exportName.name), ['literal-name', '${AWS::StackName}-pseudo']);
+      assert.ok(exportIndex.update('template.yml', fullText.replace('literal-name', 'renamed')));
+      assert.ok(exportIndex.remove('template.yml'));
+      assert.deepEqual(exportIndex.getExports(), []);
+      assert.ok(!exportIndex.remove('template.yml'));
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import assert from 'assert';
+import YAML from 'yaml';
+import { Mappings } from '../../src/common/Mappings';
+import { Node } from '../../src/Yaml/Node';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+describe('Mappings', () => {
+  const fullText = `Parameters:
+  Env:
+    Type: String
+    AllowedValues: [dev, prod]
+  Free:
+    Type: String
+Mappings:
+  Regions:
+    us-east-1:
+      Ami: ami-1
+      Zones: [a, b]
+    eu-west-1: { Ami: ami-2 }
+  Flat: value
+  NoSecondLevel:
+    top:
+  WithFunction:
+    top:
+      Name: !Ref Env
+Resources:
+  Instance:
+    Type: AWS::EC2::Instance
+    Properties:
+      ImageId: !FindInMap [Regions, !Ref Env, Ami]
+      SubnetId:
+        Fn::FindInMap: [Regions, us-east-1, {Ref: Free}]
+`;
+  const rootNode = YAML.parseDocument(fullText, { keepCstNodes: true }).contents as Node;
+
+  describe('getKeys', () => {
+    it('should collect both levels of keys of every well formed map', async () => {
+      const keys = Mappings.getKeys(rootNode);
+      assert.deepEqual(keys.Regions, { 'us-east-1': ['Ami', 'Zones'], 'eu-west-1': ['Ami'] });
+      assert.deepEqual(keys.Flat, undefined);
+    });
+  });
+  describe('findProblems', () => {
+    it('should require two levels of keys and literal values', async () => {
+      assert.deepEqual(Mappings.findProblems(rootNode).map(problem => `${problem.message}, ${problem.name}`), [
+        'Mapping must contain top-level keys, Flat',
+        'Top-level key must contain second-level keys, top',
+        'Mapping value must be a string or a list of strings, Name',
+      ]);
+    });
+  });
+  describe('findLookups and getKey', () => {
+    it('should know the values of literals and of references to parameters with AllowedValues', async () => {
+      const lookups = Mappings.findLookups(rootNode);
+      assert.deepEqual(lookups.length, 2);
+      const [short, long] = lookups;
+      const allowed = Mappings.getKey(rootNode, short[1]);
+      assert.deepEqual(allowed, { parameterName: 'Env', values: ['dev', 'prod'], absolutePosition: fullText.indexOf('Env, Ami'), length: 3 });
+      assert.deepEqual(Mappings.getKey(rootNode, short[2]), { values: ['Ami'], absolutePosition: fullText.indexOf('Ami]'), length: 3 });
+      assert.deepEqual((Mappings.getKey(rootNode, long[1]) as any).values, ['us-east-1']);
+      assert.deepEqual(Mappings.getKey(rootNode, long[2]), undefined);
+    });
+  });
+});
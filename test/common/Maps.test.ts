@@ -15,6 +15,8 @@ describe('Maps', () => {
       assert.deepEqual(Maps.nodeTagToReferenceType[findInMapTag], ReferenceTypes.FIND_IN_MAP);
       const dependsOnTag = 'DependsOn';
       assert.deepEqual(Maps.nodeTagToReferenceType[dependsOnTag], ReferenceTypes.DEPENDS_ON);
+      const conditionTag = 'Condition';
+      assert.deepEqual(Maps.nodeTagToReferenceType[conditionTag], ReferenceTypes.CONDITION);
     });
   });
   describe('nodeTypeToSubOffset', () => {
@@ -38,6 +40,7 @@ describe('Maps', () => {
         case ReferenceTypes.GET_ATT:
           assert.deepEqual(Maps.referenceTypeToDiagnosticMessage[referenceType](key), 'Unable to find referenced sub stack output, \'key\'');
           break;
+        case ReferenceTypes.CONDITION:
         case ReferenceTypes.IF:
           assert.deepEqual(Maps.referenceTypeToDiagnosticMessage[referenceType](key), 'Unable to find referenced condition, \'key\'');
           break;
@@ -54,4 +57,11 @@ describe('Maps', () => {
 
     })
   });
+  describe('referenceTypeToSections', () => {
+    it('should have sections for every ReferenceType', async () => {
+      Object.keys(ReferenceTypes).forEach((key) => {
+        assert.ok(Maps.referenceTypeToSections[ReferenceTypes[key]].length > 0, `No sections for ${key}`);
+      });
+    });
+  });
 });
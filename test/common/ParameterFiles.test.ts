@@ -0,0 +1,89 @@
+import assert from 'assert';
+import path from 'path';
+import { ParameterFile, ParameterFiles } from '../../src/common/ParameterFiles';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+const resources = path.join(__dirname, '..', '..', '..', 'test', 'resources');
+
+describe('ParameterFiles', () => {
+  // Checks every position against the text, then leaves out the positions to keep the comparisons short
+  function describeOverrides(fullText: string, parameterFile: ParameterFile) {
+    return parameterFile.overrides.map((override) => {
+      assert.ok(fullText.substring(override.keyPosition).startsWith(override.key));
+      if (override.valuePosition !== undefined) assert.ok(fullText.substring(override.valuePosition).startsWith(override.value as string));
+      return { key: override.key, value: override.value };
+    });
+  }
+
+  describe('parse', () => {
+    it('should read the CLI format', async () => {
+      const fullText = `[
+  { "ParameterKey": "Environment", "ParameterValue": "dev" },
+  { "ParameterKey": "Count", "ParameterValue": 2 },
+  { "ParameterKey": "Name", "UsePreviousValue": true }
+]`;
+      const parameterFile = ParameterFiles.parse(fullText) as ParameterFile;
+      assert.deepEqual(describeOverrides(fullText, parameterFile), [
+        { key: 'Environment', value: 'dev' },
+        { key: 'Count', value: '2' },
+        { key: 'Name', value: undefined },
+      ]);
+      assert.deepEqual([parameterFile.absolutePosition, parameterFile.length], [0, 1]);
+    });
+    it('should read the CodePipeline format and plain JSON objects', async () => {
+      const codePipelineText = '{ "Parameters": { "Environment": "prod" }, "Tags": { "Team": "orders" } }';
+      const codePipelineFile = ParameterFiles.parse(codePipelineText) as ParameterFile;
+      assert.deepEqual(describeOverrides(codePipelineText, codePipelineFile), [{ key: 'Environment', value: 'prod' }]);
+      assert.deepEqual(codePipelineText.substr(codePipelineFile.absolutePosition, codePipelineFile.length), 'Parameters');
+
+      const objectText = '{ "Environment": "prod", "Tags": ["a"] }';
+      assert.deepEqual(describeOverrides(objectText, ParameterFiles.parse(objectText) as ParameterFile), [
+        { key: 'Environment', value: 'prod' },
+        { key: 'Tags', value: undefined },
+      ]);
+    });
+    it('should read Key=Value lines, skipping comments', async () => {
+      const fullText = '# Defaults\nEnvironment = dev\n\nName=a=b\r\nCount=\n';
+      assert.deepEqual(describeOverrides(fullText, ParameterFiles.parse(fullText) as ParameterFile), [
+        { key: 'Environment', value: 'dev' },
+        { key: 'Name', value: 'a=b' },
+        { key: 'Count', value: '' },
+      ]);
+    });
+    it('should give up on anything else', async () => {
+      assert.deepEqual(ParameterFiles.parse('Environment: dev'), undefined);
+      assert.deepEqual(ParameterFiles.parse('{ "Environment": '), undefined);
+      assert.deepEqual(ParameterFiles.parse('"dev"'), undefined);
+    });
+  });
+  describe('getConventionalTemplatePaths', () => {
+    it('should prefer the most specific template name', async () => {
+      assert.deepEqual(ParameterFiles.getConventionalTemplatePaths(path.join('stacks', 'app.dev.parameters.json')), [
+        path.join('stacks', 'app.dev.yml'),
+        path.join('stacks', 'app.dev.yaml'),
+        path.join('stacks', 'app.dev.json'),
+        path.join('stacks', 'app.dev.template'),
+        path.join('stacks', 'app.yml'),
+        path.join('stacks', 'app.yaml'),
+        path.join('stacks', 'app.json'),
+        path.join('stacks', 'app.template'),
+      ]);
+      assert.deepEqual(ParameterFiles.getConventionalTemplatePaths('app.json'), []);
+    });
+  });
+  describe('findTemplatePath', () => {
+    const directory = path.join(resources, 'parameter_files');
+    it('should find an existing template by name, or through an association', async () => {
+      assert.deepEqual(ParameterFiles.findTemplatePath(path.join(directory, 'app.prod.parameters.json')), path.join(directory, 'app.yml'));
+      assert.deepEqual(ParameterFiles.findTemplatePath(path.join(directory, 'unnamed.json')), undefined);
+      assert.deepEqual(ParameterFiles.isParameterFile(path.join(directory, 'unnamed.json')), false);
+
+      const associations = { 'unnamed.json': 'app.yml' };
+      assert.deepEqual(ParameterFiles.findTemplatePath(path.join(directory, 'unnamed.json'), associations, directory), path.join(directory, 'app.yml'));
+      assert.deepEqual(ParameterFiles.isParameterFile(path.join(directory, 'unnamed.json'), associations, directory), true);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import assert from 'assert';
+import YAML from 'yaml';
+import { Parameters } from '../../src/common/Parameters';
+import { Node } from '../../src/Yaml/Node';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+describe('Parameters', () => {
+  const fullText = `Parameters:
+  Untyped:
+    Default: a
+  Misspelled:
+    Type: Strnig
+  Ssm:
+    Type: AWS::SSM::Parameter::Value<AWS::EC2::Image::Id>
+    Default: /images/latest
+  Size:
+    Type: Number
+    MinValue: one
+    MaxLength: 3
+    Default: 12
+  Names:
+    Type: CommaDelimitedList
+    AllowedValues: [a, b]
+    AllowedPattern: "[a-z]"
+    Default: "a, c"
+`;
+  const rootNode = YAML.parseDocument(fullText, { keepCstNodes: true }).contents as Node;
+
+  function describeProblems(problems: any[]) {
+    return problems.map((problem) => {
+      assert.ok(fullText.substring(problem.absolutePosition).startsWith(problem.name));
+      return `${problem.message}, ${problem.name}${problem.suggestion ? `, ${problem.suggestion}` : ''}`;
+    });
+  }
+
+  describe('getDefinition', () => {
+    it('should read the type and the constraints which are literals', async () => {
+      const names = getNodeValue(rootNode, 'Names');
+      assert.deepEqual(Parameters.getDefinition(names), { type: 'CommaDelimitedList', allowedValues: ['a', 'b'], allowedPattern: '[a-z]' });
+      assert.deepEqual(Parameters.getDefinition(getNodeValue(rootNode, 'Size')), { type: 'Number', maxLength: 3 });
+    });
+  });
+  describe('findProblems', () => {
+    it('should report missing and unknown types and constraints which are not numbers', async () => {
+      assert.deepEqual(describeProblems(Parameters.findProblems(rootNode)), [
+        'Parameter must have a Type, Untyped',
+        'Unable to find parameter type, Strnig, String',
+        'MinValue must be a number, one',
+      ]);
+    });
+  });
+  describe('findInapplicableConstraints', () => {
+    it('should report constraints the type ignores', async () => {
+      assert.deepEqual(describeProblems(Parameters.findInapplicableConstraints(rootNode)), [
+        'MaxLength doesn\'t apply to Number parameters, MaxLength',
+      ]);
+    });
+  });
+  describe('findInvalidDefaults', () => {
+    it('should check every item of list defaults, and leave Systems Manager parameters alone', async () => {
+      assert.deepEqual(describeProblems(Parameters.findInvalidDefaults(rootNode)), [
+        'Default is not one of the AllowedValues, a, c',
+      ]);
+    });
+  });
+  describe('checkValue', () => {
+    it('should check each constraint which applies to the type', async () => {
+      assert.deepEqual(Parameters.checkValue({ type: 'Number', minValue: 1, maxValue: 5 }, '0'), ['is less than the MinValue of 1']);
+      assert.deepEqual(Parameters.checkValue({ type: 'Number', minValue: 1, maxValue: 5 }, 'six'), ['must be a number']);
+      assert.deepEqual(Parameters.checkValue({ type: 'List<Number>' }, '1,x'), ['must be a list of numbers']);
+      assert.deepEqual(Parameters.checkValue({ minLength: 2, maxLength: 3, allowedPattern: '[a-z]+' }, 'abcD'), [
+        'does not match the AllowedPattern [a-z]+',
+        'is longer than the MaxLength of 3',
+      ]);
+      assert.deepEqual(Parameters.checkValue({ type: 'String', allowedPattern: '(' }, 'a'), []);
+      assert.deepEqual(Parameters.checkValue({ type: 'AWS::SSM::Parameter::Name', allowedValues: ['a'] }, 'b'), []);
+    });
+  });
+  describe('acceptsType', () => {
+    it('should accept anything into a String, but only numbers into a Number', async () => {
+      assert.deepEqual(Parameters.acceptsType('String', 'Number'), true);
+      assert.deepEqual(Parameters.acceptsType('CommaDelimitedList', 'String'), true);
+      assert.deepEqual(Parameters.acceptsType('Number', 'String'), false);
+      assert.deepEqual(Parameters.acceptsType('AWS::EC2::VPC::Id', 'String'), true);
+      assert.deepEqual(Parameters.acceptsType('AWS::EC2::VPC::Id', 'AWS::EC2::Subnet::Id'), false);
+      assert.deepEqual(Parameters.acceptsType('AWS::SSM::Parameter::Value<String>', 'Number'), true);
+    });
+  });
+  describe('getValueType', () => {
+    it('should look through Systems Manager parameters', async () => {
+      assert.deepEqual(Parameters.getValueType('AWS::SSM::Parameter::Value<AWS::EC2::Image::Id>'), 'AWS::EC2::Image::Id');
+      assert.deepEqual(Parameters.getValueType('AWS::SSM::Parameter::Value<List<String>>'), 'CommaDelimitedList');
+      assert.deepEqual(Parameters.getValueType('AWS::SSM::Parameter::Name'), 'String');
+      assert.deepEqual(Parameters.getValueType('Number'), 'Number');
+    });
+  });
+  describe('findRejectedValues', () => {
+    it('should check the AllowedValues, or a Number\'s limits, against the other definition', async () => {
+      assert.deepEqual(Parameters.findRejectedValues({ allowedValues: ['dev', 'qa'] }, { allowedValues: ['dev', 'prod'] }), [
+        { value: 'qa', reason: 'is not one of the AllowedValues' },
+      ]);
+      assert.deepEqual(Parameters.findRejectedValues({ type: 'Number', minValue: 0, maxValue: 9 }, { type: 'Number', minValue: 1, maxValue: 9 }), [
+        { value: '0', reason: 'is less than the MinValue of 1' },
+      ]);
+      assert.deepEqual(Parameters.findRejectedValues({ type: 'String' }, { type: 'String', maxLength: 3 }), []);
+    });
+  });
+});
+
+function getNodeValue(rootNode: Node, name: string): Node {
+  const parameters = rootNode.items.find(item => item.stringKey === 'Parameters') as Node;
+  return ((parameters.value as Node).items.find(item => item.stringKey === name) as Node).value as Node;
+}
@@ -0,0 +1,39 @@
+import assert from 'assert';
+import path from 'path';
+import { ResourceSpecification } from '../../src/common/ResourceSpecification';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+const resources = path.join(__dirname, '..', '..', '..', 'test', 'resources');
+
+describe('ResourceSpecification', () => {
+  describe('load', () => {
+    it('should load the bundled specification by default', async () => {
+      const specification = ResourceSpecification.load();
+      assert.ok(specification.ResourceTypes['AWS::S3::Bucket']);
+      assert.strictEqual(ResourceSpecification.load(ResourceSpecification.BUNDLED_PATH), specification);
+    });
+    it('should load another specification file', async () => {
+      const specification = ResourceSpecification.load(path.join(resources, 'resource_specification', 'specification.json'));
+      assert.deepEqual(Object.keys(specification.ResourceTypes), ['AWS::S3::Bucket']);
+    });
+    it('should throw given a file which is not a specification', async () => {
+      assert.throws(() => ResourceSpecification.load(path.join(resources, 'resource_specification', 'not_a_specification.json')), /Not a CloudFormation resource specification/);
+      assert.throws(() => ResourceSpecification.load(path.join(resources, 'resource_specification', 'missing.json')), /ENOENT/);
+    });
+  });
+  describe('getAttributeNames', () => {
+    const specification = ResourceSpecification.load();
+    it('should list the attributes of a known type, including nested ones', async () => {
+      assert.ok(ResourceSpecification.getAttributeNames(specification, 'AWS::IAM::Role')!.indexOf('Arn') > -1);
+      assert.ok(ResourceSpecification.getAttributeNames(specification, 'AWS::RDS::DBInstance')!.indexOf('Endpoint.Address') > -1);
+    });
+    it('should allow anything for custom and unknown types', async () => {
+      assert.deepEqual(ResourceSpecification.getAttributeNames(specification, 'Custom::Thing'), undefined);
+      assert.deepEqual(ResourceSpecification.getAttributeNames(specification, 'AWS::CloudFormation::CustomResource'), undefined);
+      assert.deepEqual(ResourceSpecification.getAttributeNames(specification, 'AWS::Made::Up'), undefined);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import fs from 'fs';
-import { getRowColumnPosition, RowColumnPosition } from '../../src/common/RowColumnPosition';
+import { getAbsolutePosition, getRowColumnPosition, RowColumnPosition } from '../../src/common/RowColumnPosition';
 import assert from 'assert';
 
 import mocha from 'mocha';
@@ -14,5 +14,20 @@ describe('RowColumnPosition', () => {
       const expectedRowColumnPosition: RowColumnPosition = { column: 1, line: 11 };
       assert.deepEqual(rowColumnPosition, expectedRowColumnPosition);
     });
+    it('should handle positions on the first line', async () => {
+      const rowColumnPosition = getRowColumnPosition('Resources: {}\n', 3);
+      const expectedRowColumnPosition: RowColumnPosition = { column: 3, line: 0 };
+      assert.deepEqual(rowColumnPosition, expectedRowColumnPosition);
+    });
+  });
+  describe('getAbsolutePosition', () => {
+    it('should reverse getRowColumnPosition', async () => {
+      const validYamlText = fs.readFileSync(`${__dirname}/../../../test/resources/valid_yaml/test.yml`).toString();
+      const absolutePosition = getAbsolutePosition(validYamlText, getRowColumnPosition(validYamlText, 200));
+      assert.deepEqual(absolutePosition, 200);
+    });
+    it('should handle windows line endings', async () => {
+      assert.deepEqual(getAbsolutePosition('a: 1\r\nb: 2\r\n', { line: 1, column: 3 }), 9);
+    });
   });
 });
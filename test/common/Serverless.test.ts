@@ -0,0 +1,92 @@
+import assert from 'assert';
+import YAML from 'yaml';
+import { Serverless } from '../../src/common/Serverless';
+import { Node } from '../../src/Yaml/Node';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+describe('Serverless', () => {
+  function parse(fullText: string): Node {
+    return YAML.parseDocument(fullText, { keepCstNodes: true }).contents as Node;
+  }
+
+  describe('isServerless', () => {
+    it('should find the transform on its own or in a list', async () => {
+      assert.deepEqual(Serverless.isServerless(parse('Transform: AWS::Serverless-2016-10-31\n')), true);
+      assert.deepEqual(Serverless.isServerless(parse('Transform: [AWS::Include, AWS::Serverless-2016-10-31]\n')), true);
+      assert.deepEqual(Serverless.isServerless(parse('Transform: AWS::Include\n')), false);
+      assert.deepEqual(Serverless.isServerless(parse('Resources: {}\n')), false);
+    });
+  });
+  describe('getImplicitResources', () => {
+    it('should name the resources the transform generates', async () => {
+      const rootNode = parse(`Transform: AWS::Serverless-2016-10-31
+Globals:
+  Function:
+    AutoPublishAlias: live
+Resources:
+  Handler:
+    Type: AWS::Serverless::Function
+    Properties:
+      Events:
+        Get:
+          Type: Api
+          Properties:
+            Path: /
+            Method: get
+        Nightly:
+          Type: Schedule
+        Messages:
+          Type: SQS
+  Worker:
+    Type: AWS::Serverless::Function
+    Properties:
+      Role: !GetAtt HandlerRole.Arn
+      AutoPublishAlias: Live-2
+      DeploymentPreference:
+        Type: AllAtOnce
+  Api:
+    Type: AWS::Serverless::Api
+    Properties:
+      StageName: v1
+  Flow:
+    Type: AWS::Serverless::StateMachine
+`);
+      assert.deepEqual(Serverless.getImplicitResources(rootNode), {
+        HandlerRole: 'AWS::IAM::Role',
+        HandlerVersion: 'AWS::Lambda::Version',
+        HandlerAliaslive: 'AWS::Lambda::Alias',
+        ServerlessRestApi: 'AWS::ApiGateway::RestApi',
+        ServerlessRestApiProdStage: 'AWS::ApiGateway::Stage',
+        HandlerGetPermissionProd: 'AWS::Lambda::Permission',
+        HandlerNightly: 'AWS::Events::Rule',
+        HandlerNightlyPermission: 'AWS::Lambda::Permission',
+        HandlerMessages: 'AWS::Lambda::EventSourceMapping',
+        WorkerVersion: 'AWS::Lambda::Version',
+        WorkerAliasLive2: 'AWS::Lambda::Alias',
+        WorkerDeploymentGroup: 'AWS::CodeDeploy::DeploymentGroup',
+        ServerlessDeploymentApplication: 'AWS::CodeDeploy::Application',
+        CodeDeployServiceRole: 'AWS::IAM::Role',
+        Apiv1Stage: 'AWS::ApiGateway::Stage',
+        FlowRole: 'AWS::IAM::Role',
+      });
+    });
+    it('should generate nothing without the transform', async () => {
+      assert.deepEqual(Serverless.getImplicitResources(parse('Resources:\n  Handler:\n    Type: AWS::Serverless::Function\n')), {});
+    });
+  });
+  describe('findProblems', () => {
+    it('should report Globals without the transform, and unknown sections', async () => {
+      const withoutTransform = 'Globals:\n  Function:\n    Timeout: 3\n';
+      assert.deepEqual(Serverless.findProblems(parse(withoutTransform)), [
+        { message: 'Globals can only be used with the AWS::Serverless-2016-10-31 Transform', absolutePosition: 0, name: 'Globals' },
+      ]);
+      const unknownSection = 'Transform: AWS::Serverless-2016-10-31\nGlobals:\n  Functions:\n    Timeout: 3\n  Api: {}\n';
+      assert.deepEqual(Serverless.findProblems(parse(unknownSection)), [
+        { message: 'Unable to find Globals section', absolutePosition: unknownSection.indexOf('Functions'), name: 'Functions', suggestion: 'Function' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import assert from 'assert';
+import path from 'path';
+import YAML from 'yaml';
+import { SubStack, SubStackIndex } from '../../src/common/SubStack';
+import { getNodeItemByStringKey, getNodeValueIfPair } from '../../src/Yaml';
+import { Node } from '../../src/Yaml/Node';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+const resources = path.join(__dirname, '..', '..', '..', 'test', 'resources');
+
+describe('SubStack', () => {
+  describe('locateTemplate', () => {
+    const parentFilePath = path.join(resources, 'valid_yaml', 'parent.yml');
+    const subfolder = path.join(resources, 'valid_yaml', 'subfolder');
+    const fullText = `Parameters:
+  Bucket:
+    Type: String
+    Default: artifacts
+  Prefix:
+    Type: String
+    Default: subfolder
+  Stage:
+    Type: String
+Resources:
+  Relative:
+    Properties:
+      TemplateURL: subfolder/constrained_substack.yml
+  PathStyle:
+    Properties:
+      TemplateURL: https://s3.amazonaws.com/artifacts/subfolder/constrained_substack.yml
+  VirtualHostedStyle:
+    Properties:
+      TemplateURL: !Sub "https://\${Bucket}.s3.\${AWS::URLSuffix}/templates/constrained_substack.yml"
+  Joined:
+    Properties:
+      TemplateURL:
+        Fn::Join: ["/", [!Ref Prefix, "constrained_substack.yml"]]
+  SubVariables:
+    Properties:
+      TemplateURL: !Sub ["\${Folder}/constrained_substack.yml", { Folder: !Ref Prefix }]
+  NoDefault:
+    Properties:
+      TemplateURL: !Sub "https://\${Stage}.example.com/constrained_substack.yml"
+  Regional:
+    Properties:
+      TemplateURL: !Sub "https://s3.\${AWS::Region}.amazonaws.com/artifacts/child.yml"
+  Attribute:
+    Properties:
+      TemplateURL: !GetAtt Bucket.WebsiteURL
+`;
+    const rootNode = YAML.parseDocument(fullText, { keepCstNodes: true }).contents as Node;
+
+    function locate(subStackName: string, mappings?: SubStack.TemplateUrlMappings) {
+      const resourcesSection = getNodeValueIfPair(getNodeItemByStringKey(rootNode, 'Resources'));
+      const properties = getNodeValueIfPair(getNodeItemByStringKey(getNodeValueIfPair(getNodeItemByStringKey(resourcesSection, subStackName)), 'Properties'));
+      return SubStack.locateTemplate(rootNode, parentFilePath, getNodeValueIfPair(getNodeItemByStringKey(properties, 'TemplateURL')), mappings);
+    }
+
+    it('should resolve relative paths, and S3 URLs by their key next to the parent template', async () => {
+      assert.deepEqual(locate('Relative').filePath, path.join(subfolder, 'constrained_substack.yml'));
+      assert.deepEqual(locate('PathStyle'), {
+        url: 'https://s3.amazonaws.com/artifacts/subfolder/constrained_substack.yml',
+        filePath: path.join(subfolder, 'constrained_substack.yml'),
+      });
+    });
+    it('should evaluate !Sub and !Join with parameter defaults', async () => {
+      assert.deepEqual(locate('VirtualHostedStyle'), {
+        url: 'https://artifacts.s3.amazonaws.com/templates/constrained_substack.yml',
+        problem: 'no local template matches https://artifacts.s3.amazonaws.com/templates/constrained_substack.yml',
+      });
+      assert.deepEqual(locate('Joined'), { url: 'subfolder/constrained_substack.yml', filePath: path.join(subfolder, 'constrained_substack.yml') });
+      assert.deepEqual(locate('SubVariables').url, 'subfolder/constrained_substack.yml');
+    });
+    it('should use the first mapping whose prefix matches, with wildcards', async () => {
+      const mappings = { 'https://*.s3.amazonaws.com/templates/': subfolder, 'https://${Stage}.example.com/': subfolder };
+      assert.deepEqual(locate('VirtualHostedStyle', mappings).filePath, path.join(subfolder, 'constrained_substack.yml'));
+      // A !Sub which can't be evaluated can still be mapped as it is written
+      assert.deepEqual(locate('NoDefault', mappings), {
+        url: 'https://${Stage}.example.com/constrained_substack.yml',
+        filePath: path.join(subfolder, 'constrained_substack.yml'),
+      });
+    });
+    it('should explain why a URL can\'t be resolved', async () => {
+      assert.deepEqual(locate('NoDefault'), { problem: 'Stage has no Default' });
+      assert.deepEqual(locate('Regional'), { problem: 'AWS::Region is only known when deploying' });
+      assert.deepEqual(locate('Attribute'), { problem: '!GetAtt can\'t be evaluated' });
+    });
+  });
+  describe('getPassedValues', () => {
+    it('should tell the type of references, sub stack outputs and functions in either form', async () => {
+      const fullText = `{
+  "Parameters": {
+    "Zones": {"Type": "List<AWS::EC2::AvailabilityZone::Name>"},
+    "Image": {"Type": "AWS::SSM::Parameter::Value<AWS::EC2::Image::Id>", "AllowedValues": ["/images/latest"]},
+    "Size": {"Type": "Number", "MaxValue": 9}
+  },
+  "Resources": {
+    "Network": {"Type": "AWS::CloudFormation::Stack", "Properties": {"TemplateURL": "network.json"}},
+    "Queue": {"Type": "AWS::SQS::Queue"},
+    "Workers": {
+      "Type": "AWS::CloudFormation::Stack",
+      "Properties": {
+        "TemplateURL": "workers.json",
+        "Parameters": {
+          "Zones": {"Ref": "Zones"},
+          "Image": {"Ref": "Image"},
+          "Size": {"Ref": "Size"},
+          "VpcId": {"Fn::GetAtt": ["Network", "Outputs.VpcId"]},
+          "QueueArn": {"Fn::GetAtt": ["Queue", "Arn"]},
+          "QueueUrl": {"Ref": "Queue"},
+          "Azs": {"Fn::GetAZs": ""},
+          "Name": {"Fn::Join": ["-", [{"Ref": "AWS::StackName"}, "workers"]]},
+          "Literal": "plain",
+          "Either": {"Fn::If": ["IsProd", "a", "b"]}
+        }
+      }
+    }
+  }
+}
+`;
+      const passedValues = SubStack.getPassedValues(YAML.parseDocument(fullText, { keepCstNodes: true }).contents as Node, 'Workers');
+      assert.deepEqual(passedValues, {
+        Zones: {
+          name: 'Zones',
+          absolutePosition: fullText.indexOf('"Ref": "Zones"') + 8,
+          type: 'List<AWS::EC2::AvailabilityZone::Name>',
+          definition: { type: 'List<AWS::EC2::AvailabilityZone::Name>' },
+        },
+        Image: { name: 'Image', absolutePosition: fullText.indexOf('"Ref": "Image"') + 8, type: 'AWS::EC2::Image::Id' },
+        Size: { name: 'Size', absolutePosition: fullText.indexOf('"Ref": "Size"') + 8, type: 'Number', definition: { type: 'Number', maxValue: 9 } },
+        VpcId: { name: 'Network.Outputs.VpcId', absolutePosition: fullText.indexOf('Network", "Outputs'), type: 'String' },
+        QueueUrl: { name: 'Queue', absolutePosition: fullText.indexOf('"Ref": "Queue"') + 8, type: 'String' },
+        Azs: { name: 'Fn::GetAZs', absolutePosition: fullText.indexOf('Fn::GetAZs'), type: 'List<String>' },
+        Name: { name: 'Fn::Join', absolutePosition: fullText.indexOf('Fn::Join'), type: 'String' },
+      });
+    });
+  });
+  describe('SubStackIndex', () => {
+    const folder = path.join(resources, 'stacks');
+    const parentText = `Resources:
+  Network:
+    Type: AWS::CloudFormation::Stack
+    Properties:
+      TemplateURL: network/vpc.yml
+  Service:
+    Type: AWS::Serverless::Application
+    Properties:
+      Location: https://artifacts.s3.amazonaws.com/service.yml
+  Published:
+    Type: AWS::Serverless::Application
+    Properties:
+      Location:
+        ApplicationId: arn:aws:serverlessrepo:us-east-1:123456789012:applications/app
+        SemanticVersion: 1.0.0
+`;
+    const networkText = `Resources:
+  Subnets:
+    Type: AWS::CloudFormation::Stack
+    Properties:
+      TemplateURL: !Sub '\${Prefix}subnets.yml'
+Parameters:
+  Prefix:
+    Type: String
+    Default: ./
+`;
+
+    it('should find the parents and ancestors of a template from the TemplateURLs in the workspace', async () => {
+      const subStackIndex = new SubStackIndex({ 'https://artifacts.s3.amazonaws.com/': path.join(folder, 'build') });
+      subStackIndex.update(path.join(folder, 'parent.yml'), parentText);
+      subStackIndex.update(path.join(folder, 'network', 'vpc.yml'), networkText);
+      assert.deepEqual(subStackIndex.getSubStackTemplates(path.join(folder, 'parent.yml')), [
+        path.join(folder, 'network', 'vpc.yml'),
+        path.join(folder, 'build', 'service.yml'),
+      ]);
+      assert.deepEqual(subStackIndex.getParents(path.join(folder, 'network', 'subnets.yml')), [path.join(folder, 'network', 'vpc.yml')]);
+      assert.deepEqual(subStackIndex.getAncestors(path.join(folder, 'network', 'subnets.yml')), [
+        path.join(folder, 'network', 'vpc.yml'),
+        path.join(folder, 'parent.yml'),
+      ]);
+      assert.deepEqual(subStackIndex.getAncestors(path.join(folder, 'parent.yml')), []);
+    });
+
+    it('should forget the sub stacks of removed and changed templates', async () => {
+      const subStackIndex = new SubStackIndex();
+      subStackIndex.update(path.join(folder, 'parent.yml'), parentText);
+      subStackIndex.update(path.join(folder, 'network', 'vpc.yml'), networkText);
+      subStackIndex.remove(path.join(folder, 'network', 'vpc.yml'));
+      assert.deepEqual(subStackIndex.getTemplatePaths(), [path.join(folder, 'parent.yml')]);
+      assert.deepEqual(subStackIndex.getAncestors(path.join(folder, 'network', 'subnets.yml')), []);
+      subStackIndex.update(path.join(folder, 'parent.yml'), 'Resources: [');
+      assert.deepEqual(subStackIndex.getParents(path.join(folder, 'network', 'vpc.yml')), []);
+    });
+
+    it('should not loop over templates which nest each other', async () => {
+      const subStackIndex = new SubStackIndex();
+      const nestingText = (templateUrl: string) => `Resources:\n  Nested:\n    Type: AWS::CloudFormation::Stack\n    Properties:\n      TemplateURL: ${templateUrl}\n`;
+      subStackIndex.update(path.join(folder, 'a.yml'), nestingText('b.yml'));
+      subStackIndex.update(path.join(folder, 'b.yml'), nestingText('a.yml'));
+      assert.deepEqual(subStackIndex.getAncestors(path.join(folder, 'a.yml')), [path.join(folder, 'b.yml')]);
+    });
+  });
+});
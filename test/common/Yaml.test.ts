@@ -1,4 +1,6 @@
-import { EmptyNode, getYamlNodeKeys, getNodeValueIfPair, getNodeItemByStringKey } from '../../src/Yaml';
+import YAML from 'yaml';
+import { EmptyNode, getYamlNodeKeys, getNodeValueIfPair, getNodeItemByStringKey, getNodeTag, getValueStart, getSourcePosition, getIfBranches, getFunctionArguments, getWrittenTag } from '../../src/Yaml';
+import { Node } from '../../src/Yaml/Node';
 
 import mocha from 'mocha';
 import assert = require('assert');
@@ -64,6 +66,11 @@ describe('Yaml', () => {
       const value = getNodeValueIfPair(fakePair);
       assert.deepEqual(value, Object.assign(fakeNode, { stringKey }));
     });
+    it('should return EMPTY_NODE if the pair has no value', async () => {
+      const fakePair: any = { type: NodeTypes.PAIR, value: null, stringKey: 'stringKey' };
+      const value = getNodeValueIfPair(fakePair);
+      assert.deepEqual(value, EmptyNode.EMPTY_NODE);
+    });
     it('should not overwrite stringKey if the value has one', async () => {
       const fakeNode: any = { type: NodeTypes.PLAIN, stringKey: 'stringKey2' };
       const fakePair: any = { type: NodeTypes.PAIR, value: fakeNode, stringKey: 'stringKey1' };
@@ -86,4 +93,61 @@ describe('Yaml', () => {
       assert.deepEqual(item, node2);
     });
   });
+  describe('getNodeTag', () => {
+    it('should prefer explicit tags, then long forms, then the key', async () => {
+      assert.deepEqual(getNodeTag({ tag: '!Ref', stringKey: 'Name' } as any), '!Ref');
+      assert.deepEqual(getNodeTag({ tag: 'tag:yaml.org,2002:str', stringKey: 'Fn::Sub' } as any), '!Sub');
+      assert.deepEqual(getNodeTag({ stringKey: 'Ref' } as any), '!Ref');
+      assert.deepEqual(getNodeTag({ stringKey: 'DependsOn' } as any), 'DependsOn');
+    });
+  });
+  describe('getWrittenTag', () => {
+    it('should read the tag from the source, ignoring tags set on the node since', async () => {
+      const text = 'a: !And [x, !Condition y]\nb: !!str z\n';
+      const root = YAML.parseDocument(text, { keepCstNodes: true }).contents as Node;
+      const a = getNodeValueIfPair(getNodeItemByStringKey(root, 'a'));
+      a.items[0].tag = '!And';
+      assert.deepEqual(getWrittenTag(a), '!And');
+      assert.deepEqual(getWrittenTag(a.items[0]), undefined);
+      assert.deepEqual(getWrittenTag(a.items[1]), '!Condition');
+      assert.deepEqual(getWrittenTag(getNodeValueIfPair(getNodeItemByStringKey(root, 'b'))), '!!str');
+    });
+  });
+  describe('getValueStart', () => {
+    it('should skip tags and opening quotes', async () => {
+      const text = 'a: !Ref X\nb: !Sub "${Y}"\nc:\n  Ref: \'Z\'\n';
+      const root = YAML.parseDocument(text, { keepCstNodes: true }).contents as Node;
+      const c = getNodeValueIfPair(getNodeItemByStringKey(root, 'c'));
+      assert.deepEqual(getValueStart(getNodeValueIfPair(getNodeItemByStringKey(root, 'a'))), text.indexOf('X'));
+      assert.deepEqual(getValueStart(getNodeValueIfPair(getNodeItemByStringKey(root, 'b'))), text.indexOf('${Y}'));
+      assert.deepEqual(getValueStart(getNodeValueIfPair(getNodeItemByStringKey(c, 'Ref'))), text.indexOf('Z'));
+    });
+  });
+  describe('getSourcePosition', () => {
+    it('should count escapes as the characters they are written with', async () => {
+      const text = '{"a": "\\"x\\"\\n\\u0041${Y}", "b": \'it\'\'s ${Z}\', "c": "${W}"}';
+      const root = YAML.parseDocument(text, { keepCstNodes: true }).contents as Node;
+      const valueOf = (key: string) => getNodeValueIfPair(getNodeItemByStringKey(root, key));
+      assert.deepEqual(getSourcePosition(valueOf('a'), (valueOf('a').value as string).indexOf('Y')), text.indexOf('Y'));
+      assert.deepEqual(getSourcePosition(valueOf('b'), (valueOf('b').value as string).indexOf('Z')), text.indexOf('Z'));
+      assert.deepEqual(getSourcePosition(valueOf('c'), (valueOf('c').value as string).indexOf('W')), text.indexOf('W'));
+    });
+  });
+  describe('getFunctionArguments', () => {
+    it('should find the arguments of the short and long forms', async () => {
+      const text = 'a: !FindInMap [A, b, c]\nd:\n  Fn::FindInMap:\n    - E\n    - f\n    - g\nh: !Ref FindInMap\n';
+      const root = YAML.parseDocument(text, { keepCstNodes: true }).contents as Node;
+      const calls = getFunctionArguments(root, 'Fn::FindInMap').map(items => items.map(item => item.value));
+      assert.deepEqual(calls, [['A', 'b', 'c'], ['E', 'f', 'g']]);
+    });
+  });
+  describe('getIfBranches', () => {
+    it('should find both branches of the short and long forms, however deep', async () => {
+      const text = 'a: !If [X, one, two]\nb:\n  c:\n    Fn::If: [Y, three, !If [Z, four, five]]\n';
+      const root = YAML.parseDocument(text, { keepCstNodes: true }).contents as Node;
+      const branches = getIfBranches(root).map(branch => branch.value);
+      assert.deepEqual(branches.filter(value => typeof value === 'string').sort(), ['five', 'four', 'one', 'three', 'two']);
+      assert.deepEqual(branches.length, 6);
+    });
+  });
 });
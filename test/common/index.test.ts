@@ -1,5 +1,5 @@
 import fs from 'fs';
-import { revealAllProperties, flattenArray } from '../../src/common';
+import { revealAllProperties, flattenArray, getEditDistance } from '../../src/common';
 import assert from 'assert';
 
 import mocha from 'mocha';
@@ -59,4 +59,13 @@ describe('common', () => {
       assert.deepEqual(flattened, ['a', 's', 'd', 'f']);
     });
   });
+  describe('getEditDistance', () => {
+    it('should count insertions, deletions and substitutions', async () => {
+      assert.deepEqual(getEditDistance('FirstParameter', 'FirstParameter'), 0);
+      assert.deepEqual(getEditDistance('FirstParamter', 'FirstParameter'), 1);
+      assert.deepEqual(getEditDistance('FirstParameterr', 'FirstParameter'), 1);
+      assert.deepEqual(getEditDistance('FirstParameter', 'ThirdParameter'), 4);
+      assert.deepEqual(getEditDistance('', 'abc'), 3);
+    });
+  });
 });
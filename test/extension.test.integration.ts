@@ -15,14 +15,11 @@ describe('Extension Integration Tests', () => {
   let cloudformationYaml: CloudformationYaml;
   beforeEach(async () => {
     cloudformationYaml = require('../src/extension').cloudformationYaml;
-    (cloudformationYaml as any).allowEventTriggers = false;
-    await cloudformationYaml.disableEventTriggers();
     await cloudformationYaml.resetDiagnostics();
     await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
   });
   afterEach(async () => {
     await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
-    await cloudformationYaml.disableEventTriggers();
     await cloudformationYaml.resetDiagnostics();
   });
 
@@ -31,7 +28,7 @@ describe('Extension Integration Tests', () => {
       const uri = vscode.Uri.file(path.join(`${__dirname}/${backToProjectDirectory}/test/resources/valid_yaml/test.yml`));
       const document = await vscode.workspace.openTextDocument(uri);
       await vscode.window.showTextDocument(document);
-      await cloudformationYaml.checkActiveFile(false, true);
+      await cloudformationYaml.checkActiveFile(false);
       const diagnostics = vscode.languages.getDiagnostics(uri);
       assert.deepEqual(diagnostics.length, 0, `Diagnostics array should be empty: ${JSON.stringify(diagnostics)}`);
     });
@@ -39,7 +36,7 @@ describe('Extension Integration Tests', () => {
       const uri = vscode.Uri.file(path.join(`${__dirname}/${backToProjectDirectory}/test/resources/valid_yaml/subfolder/test_substack.yml`));
       const document = await vscode.workspace.openTextDocument(uri);
       await vscode.window.showTextDocument(document);
-      await cloudformationYaml.checkActiveFile(false, true);
+      await cloudformationYaml.checkActiveFile(false);
       const diagnostics = vscode.languages.getDiagnostics(uri);
       assert.deepEqual(diagnostics.length, 0, `Diagnostics array should be empty: ${JSON.stringify(diagnostics)}`);
     });
@@ -50,7 +47,7 @@ describe('Extension Integration Tests', () => {
       const uri = vscode.Uri.file(path.join(`${__dirname}/${backToProjectDirectory}/test/resources/invalid_yaml/test.yml`));
       const document = await vscode.workspace.openTextDocument(uri);
       await vscode.window.showTextDocument(document);
-      await cloudformationYaml.checkActiveFile(false, true);
+      await cloudformationYaml.checkActiveFile(false);
 
       const expectedMessages = [
         'Properties missing value for parameter with default value, \'FourthParameter\'',
@@ -69,6 +66,7 @@ describe('Extension Integration Tests', () => {
         'Unable to find referenced value, \'SingleQuoteStack\'',
         'Unable to find referenced value, \'SubInJoin\'',
         'Unable to load or parse template file',
+        'Unused parameter, \'ThirdParameter\'',
       ];
 
       const diagnostics = vscode.languages.getDiagnostics(uri);
@@ -86,11 +84,13 @@ describe('Extension Integration Tests', () => {
       const uri = vscode.Uri.file(path.join(`${__dirname}/${backToProjectDirectory}/test/resources/invalid_yaml/subfolder/test_substack.yml`));
       const document = await vscode.workspace.openTextDocument(uri);
       await vscode.window.showTextDocument(document);
-      await cloudformationYaml.checkActiveFile(false, true);
+      await cloudformationYaml.checkActiveFile(false);
 
       const expectedMessages = [
         'Unable to find referenced value, \'SecondParameter\'',
         'Unable to find referenced value, \'SixthParameter\'',
+        'Unused parameter, \'FourthParameter\'',
+        'Unused parameter, \'FifthParameter\'',
       ];
 
       const diagnostics = vscode.languages.getDiagnostics(uri);
@@ -108,7 +108,7 @@ describe('Extension Integration Tests', () => {
       const substackUri = vscode.Uri.file(path.join(`${__dirname}/${backToProjectDirectory}/test/resources/invalid_yaml/subfolder/test_substack.yml`));
       const document = await vscode.workspace.openTextDocument(uri);
       await vscode.window.showTextDocument(document);
-      await cloudformationYaml.checkActiveFile(true, true);
+      await cloudformationYaml.checkActiveFile(true);
 
       const expectedRootMessages = [
         'Properties missing value for parameter with default value, \'FourthParameter\'',
@@ -127,10 +127,14 @@ describe('Extension Integration Tests', () => {
         'Unable to find referenced value, \'SingleQuoteStack\'',
         'Unable to find referenced value, \'SubInJoin\'',
         'Unable to load or parse template file',
+        'Unused parameter, \'ThirdParameter\'',
       ];
       const expectedSubStackMessages = [
         'Unable to find referenced value, \'SecondParameter\'',
         'Unable to find referenced value, \'SixthParameter\'',
+        'Unused parameter, \'FourthParameter\'',
+        'Unused parameter, \'FifthParameter\'',
+        'Output is not used by any parent stack, \'FirstOutput\'',
       ];
 
       const rootDiagnostics = vscode.languages.getDiagnostics(uri);
@@ -0,0 +1,161 @@
+import assert from 'assert';
+import path from 'path';
+import YAML from 'yaml';
+import { Diagnostic, DiagnosticCodes } from '../../src/common/Diagnostics';
+import { getAbsolutePosition } from '../../src/common/RowColumnPosition';
+import { CodeActions, TextChange } from '../../src/features/CodeActions';
+import { TemplateDocument } from '../../src/features/TemplateDocument';
+import { Validator } from '../../src/Validator';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+// Sits next to the invalid sub stack template
+const filePath = path.join(__dirname, '..', '..', '..', 'test', 'resources', 'invalid_yaml', 'code_actions.yml');
+const subStackFilePath = path.join(__dirname, '..', '..', '..', 'test', 'resources', 'invalid_yaml', 'subfolder', 'test_substack.yml');
+
+const fullText = `Parameters:
+  Environment:
+    Type: String
+  FirstParameter:
+    Type: String
+Resources:
+  Child:
+    Type: AWS::CloudFormation::Stack
+    Properties:
+      TemplateURL: subfolder/test_substack.yml
+      Parameters:
+        FirstParameter: !Ref FirstParameter
+        ThirdParamter: !Ref Enviroment # a typo
+        FourthParameter: value
+  Topic:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName: !GetAtt Child.Outputs.FirstOutpt
+`;
+
+async function getDiagnostics(text: string): Promise<Diagnostic[]> {
+  const document = YAML.parseDocument(text, { keepCstNodes: true });
+  return new Validator().checkYaml(text, filePath, document, false, true);
+}
+
+async function getQuickFixes(text: string, code: DiagnosticCodes, messageEnding: string) {
+  const diagnostic = (await getDiagnostics(text)).find((diagnostic) => {
+    return diagnostic.code === code && diagnostic.message.endsWith(messageEnding);
+  }) as Diagnostic;
+  assert.ok(diagnostic, `no ${code} diagnostic ending with ${messageEnding}`);
+  return CodeActions.getQuickFixes(await TemplateDocument.load(text, filePath), diagnostic);
+}
+
+function applyChange(text: string, change: TextChange): string {
+  const start = getAbsolutePosition(text, { line: change.range.start.line, column: change.range.start.character });
+  const end = getAbsolutePosition(text, { line: change.range.end.line, column: change.range.end.character });
+  return `${text.substring(0, start)}${change.newText}${text.substring(end)}`;
+}
+
+describe('CodeActions', () => {
+  describe('getSuggestions', () => {
+    it('should rank candidates by edit distance and drop distant ones', async () => {
+      const suggestions = CodeActions.getSuggestions('FirstParamter', ['ThirdParameter', 'FirstParameter', 'Bucket', 'FirstParameters']);
+      assert.deepEqual(suggestions, ['FirstParameter', 'FirstParameters']);
+    });
+    it('should not suggest the name itself', async () => {
+      assert.deepEqual(CodeActions.getSuggestions('Bucket', ['Bucket']), []);
+    });
+  });
+  describe('getQuickFixes', () => {
+    it('should suggest similar names and a parameter stub for unknown references', async () => {
+      const quickFixes = await getQuickFixes(fullText, DiagnosticCodes.UNKNOWN_REFERENCE, `'Enviroment'`);
+      assert.deepEqual(quickFixes.map(quickFix => quickFix.title), ['Change to \'Environment\'', 'Declare parameter \'Enviroment\'']);
+      assert.ok(applyChange(fullText, quickFixes[0].changes[0]).indexOf('ThirdParamter: !Ref Environment # a typo') > -1);
+      assert.ok(applyChange(fullText, quickFixes[1].changes[0]).startsWith(`Parameters:
+  Environment:
+    Type: String
+  FirstParameter:
+    Type: String
+  Enviroment:
+    Type: String
+Resources:`));
+    });
+    it('should create the Parameters section when declaring a parameter stub', async () => {
+      const text = `Resources:
+  Topic:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName: !Sub \${Name}-topic
+`;
+      const quickFixes = await getQuickFixes(text, DiagnosticCodes.UNKNOWN_REFERENCE, `'Name'`);
+      assert.deepEqual(quickFixes.map(quickFix => quickFix.title), ['Declare parameter \'Name\'']);
+      assert.ok(applyChange(text, quickFixes[0].changes[0]).startsWith(`Parameters:
+  Name:
+    Type: String
+
+Resources:`));
+    });
+    it('should suggest similar sub stack outputs', async () => {
+      const quickFixes = await getQuickFixes(fullText, DiagnosticCodes.UNKNOWN_SUB_STACK_OUTPUT, `'Child.Outputs.FirstOutpt'`);
+      assert.deepEqual(quickFixes.map(quickFix => quickFix.title), ['Change to \'Child.Outputs.FirstOutput\'']);
+    });
+    it('should only replace the attribute of a list form !GetAtt', async () => {
+      const text = fullText.replace('!GetAtt Child.Outputs.FirstOutpt', '!GetAtt [Child, Outputs.FirstOutpt]');
+      const quickFixes = await getQuickFixes(text, DiagnosticCodes.UNKNOWN_SUB_STACK_OUTPUT, `'Child.Outputs.FirstOutpt'`);
+      assert.deepEqual(quickFixes.map(quickFix => quickFix.title), ['Change to \'Child.Outputs.FirstOutput\'']);
+      assert.ok(applyChange(text, quickFixes[0].changes[0]).indexOf('TopicName: !GetAtt [Child, Outputs.FirstOutput]') > -1);
+    });
+    it('should rename, remove or declare an unknown sub stack parameter', async () => {
+      const quickFixes = await getQuickFixes(fullText, DiagnosticCodes.UNKNOWN_SUB_STACK_PARAMETER, `'ThirdParamter'`);
+      assert.deepEqual(quickFixes.map(quickFix => quickFix.title), [
+        'Change to \'ThirdParameter\'',
+        'Remove parameter \'ThirdParamter\'',
+        'Add parameter \'ThirdParamter\' to subfolder/test_substack.yml',
+      ]);
+      const removed = applyChange(fullText, quickFixes[1].changes[0]);
+      assert.ok(removed.indexOf(`        FirstParameter: !Ref FirstParameter
+        FourthParameter: value
+`) > -1);
+      assert.deepEqual(quickFixes[2].changes[0].filePath, subStackFilePath);
+      assert.deepEqual(quickFixes[2].changes[0].newText, `
+  ThirdParamter:
+    Type: String`);
+    });
+    it('should only offer replacements for JSON templates', async () => {
+      const text = `{
+  "Parameters": {"Environment": {"Type": "String"}},
+  "Resources": {
+    "Child": {
+      "Type": "AWS::CloudFormation::Stack",
+      "Properties": {
+        "TemplateURL": "subfolder/test_substack.yml",
+        "Parameters": {
+          "ThirdParamter": {"Ref": "Enviroment"}
+        }
+      }
+    }
+  }
+}
+`;
+      const unknownReference = await getQuickFixes(text, DiagnosticCodes.UNKNOWN_REFERENCE, `'Enviroment'`);
+      assert.deepEqual(unknownReference.map(quickFix => quickFix.title), ['Change to \'Environment\'']);
+      assert.ok(applyChange(text, unknownReference[0].changes[0]).indexOf('"ThirdParamter": {"Ref": "Environment"}') > -1);
+      const unknownParameter = await getQuickFixes(text, DiagnosticCodes.UNKNOWN_SUB_STACK_PARAMETER, `'ThirdParamter'`);
+      assert.deepEqual(unknownParameter.map(quickFix => quickFix.title), [
+        'Change to \'ThirdParameter\'',
+        'Add parameter \'ThirdParamter\' to subfolder/test_substack.yml',
+      ]);
+    });
+    it('should suggest the closest pseudo parameter', async () => {
+      const text = fullText.replace('!Ref FirstParameter', '!Ref AWS::Regoin');
+      const quickFixes = await getQuickFixes(text, DiagnosticCodes.UNKNOWN_PSEUDO_PARAMETER, `did you mean 'AWS::Region'?`);
+      assert.deepEqual(quickFixes.map(quickFix => quickFix.title), ['Change to \'AWS::Region\'']);
+      assert.ok(applyChange(text, quickFixes[0].changes[0]).indexOf('FirstParameter: !Ref AWS::Region') > -1);
+    });
+    it('should add missing required parameters to the sub stack', async () => {
+      const quickFixes = await getQuickFixes(fullText, DiagnosticCodes.MISSING_REQUIRED_PARAMETER, `'FifthParameter'`);
+      assert.deepEqual(quickFixes.map(quickFix => quickFix.title), ['Add missing parameter \'FifthParameter\'']);
+      assert.ok(applyChange(fullText, quickFixes[0].changes[0]).indexOf(`        FourthParameter: value
+        FifthParameter: ''
+  Topic:`) > -1);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import assert from 'assert';
+import path from 'path';
+import { Completions, CompletionSuggestion } from '../../src/features/Completions';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+
+// Sits next to the invalid sub stack template, which has a parameter with a default value
+const filePath = path.join(__dirname, '..', '..', '..', 'test', 'resources', 'invalid_yaml', 'completions.yml');
+
+const template = `Parameters:
+  Env:
+    Type: String
+Conditions:
+  IsProd: !Equals [!Ref Env, prod]
+Mappings:
+  RegionMap:
+    us-east-1:
+      Ami: ami-123
+Resources:
+  Child:
+    Type: AWS::CloudFormation::Stack
+    Properties:
+      TemplateURL: subfolder/test_substack.yml
+      Parameters:
+        FirstParameter: !Ref Env
+        CURSOR_PARAMETER
+  Topic:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName: CURSOR_VALUE
+`;
+
+async function complete(parameterLine: string, valueLine: string = 'x') {
+  const cursor = parameterLine === '' ? 'CURSOR_VALUE' : 'CURSOR_PARAMETER';
+  const typed = parameterLine === '' ? valueLine : parameterLine;
+  const otherCursor = parameterLine === '' ? 'CURSOR_PARAMETER' : 'CURSOR_VALUE';
+  const withOtherLine = template.replace(otherCursor, parameterLine === '' ? '' : valueLine);
+  const absolutePosition = withOtherLine.indexOf(cursor) + typed.length;
+  return Completions.getCompletions(withOtherLine.replace(cursor, typed), filePath, absolutePosition);
+}
+
+function getLabels(suggestions: CompletionSuggestion[]): string[] {
+  return suggestions.map(suggestion => suggestion.label);
+}
+
+describe('Completions', () => {
+  describe('getCompletions', () => {
+    it('should suggest parameters and resources after !Ref', async () => {
+      const completions = await complete('', '!Ref E');
+      assert.deepEqual(completions && completions.prefixLength, 1);
+      assert.deepEqual(completions && getLabels(completions.suggestions), ['Env', 'Child', 'Topic']);
+      assert.deepEqual(completions && completions.suggestions[2].detail, 'Resources: AWS::SNS::Topic');
+    });
+    it('should suggest the same things for long form intrinsic functions', async () => {
+      const refCompletions = await complete('', '{ Ref: E');
+      assert.deepEqual(refCompletions && getLabels(refCompletions.suggestions), ['Env', 'Child', 'Topic']);
+      const ifCompletions = await complete('', '{ "Fn::If": [');
+      assert.deepEqual(ifCompletions && getLabels(ifCompletions.suggestions), ['IsProd']);
+    });
+    it('should suggest conditions as the first item of !If', async () => {
+      const completions = await complete('', '!If [');
+      assert.deepEqual(completions && getLabels(completions.suggestions), ['IsProd']);
+    });
+    it('should suggest map names in !FindInMap', async () => {
+      const completions = await complete('', '!FindInMap [Reg');
+      assert.deepEqual(completions && completions.prefixLength, 3);
+      assert.deepEqual(completions && getLabels(completions.suggestions), ['RegionMap']);
+    });
+    it('should suggest sub stack outputs after !GetAtt, replacing the dotted prefix', async () => {
+      const completions = await complete('', '!GetAtt Child.');
+      assert.deepEqual(completions && completions.prefixLength, 'Child.'.length);
+      assert.deepEqual(completions && getLabels(completions.suggestions), ['Child', 'Topic', 'Child.Outputs.FirstOutput']);
+    });
+    it('should suggest any referenceable inside ${ in a !Sub', async () => {
+      const completions = await complete('', '!Sub "arn:${');
+      assert.deepEqual(completions && getLabels(completions.suggestions), ['Env', 'Child', 'Topic', 'Child.Outputs.FirstOutput']);
+    });
+    it('should suggest missing sub stack parameters, required ones first', async () => {
+      const completions = await complete('Fi');
+      const suggestions = completions ? completions.suggestions : [];
+      suggestions.sort((a, b) => (a.sortText as string).localeCompare(b.sortText as string));
+      assert.deepEqual(getLabels(suggestions), ['FifthParameter', 'ThirdParameter', 'FourthParameter']);
+      assert.deepEqual(suggestions[0].insertText, 'FifthParameter: ');
+    });
+    it('should suggest parameters and resources in a JSON Ref', async () => {
+      const text = `{
+  "Parameters": {"Env": {"Type": "String"}},
+  "Resources": {
+    "Topic": {
+      "Type": "AWS::SNS::Topic",
+      "Properties": {"TopicName": {"Ref": "E"}}
+    }
+  }
+}
+`;
+      const completions = await Completions.getCompletions(text, filePath, text.indexOf('"E"') + 2);
+      assert.deepEqual(completions && completions.prefixLength, 1);
+      assert.deepEqual(completions && getLabels(completions.suggestions), ['Env', 'Topic']);
+    });
+    it('should suggest nothing elsewhere', async () => {
+      const completions = await complete('', 'plain text');
+      assert.deepEqual(completions, undefined);
+    });
+  });
+});
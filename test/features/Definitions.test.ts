@@ -0,0 +1,64 @@
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import { Definitions } from '../../src/features/Definitions';
+import { TemplateDocument } from '../../src/features/TemplateDocument';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+const before = (mocha as any).before;
+
+const validYaml = path.join(__dirname, '..', '..', '..', 'test', 'resources', 'valid_yaml');
+
+describe('Definitions', () => {
+  const filePath = path.join(validYaml, 'test.yml');
+  const fullText = fs.readFileSync(filePath, 'utf8');
+  let template: TemplateDocument;
+  before(async () => {
+    template = await TemplateDocument.load(fullText, filePath);
+  });
+
+  // The position of the first character of `search`, after `after`
+  function positionOf(search: string, after: string): number {
+    return fullText.indexOf(search, fullText.indexOf(after));
+  }
+
+  describe('findDefinition', () => {
+    it('should find the parameter a !Ref refers to', async () => {
+      const definition = Definitions.findDefinition(template, positionOf('FirstParameter', 'FirstParameter: !Ref') + 22);
+      assert.deepEqual(definition, {
+        filePath,
+        range: { start: { line: 5, character: 2 }, end: { line: 5, character: 16 } },
+      });
+    });
+    it('should find the condition of an !If', async () => {
+      const definition = Definitions.findDefinition(template, positionOf('FirstConditional', '!If [') + 3);
+      assert.deepEqual(definition && definition.range.start, { line: 24, character: 2 });
+    });
+    it('should find the map of a !FindInMap', async () => {
+      const definition = Definitions.findDefinition(template, positionOf('FirstMap', '!FindInMap'));
+      assert.deepEqual(definition && definition.range.start, { line: 27, character: 2 });
+    });
+    it('should find the resource of a native attribute in a !Sub', async () => {
+      const definition = Definitions.findDefinition(template, positionOf('FirstSubStack.NativeThing', '!Sub ${') + 16);
+      assert.deepEqual(definition && definition.range.start, { line: 32, character: 2 });
+    });
+    it('should find the sub stack output of a !GetAtt in the sub stack template', async () => {
+      const definition = Definitions.findDefinition(template, positionOf('Outputs.FirstOutput', '!GetAtt') + 10);
+      assert.deepEqual(definition, {
+        filePath: path.join(validYaml, 'subfolder', 'test_substack.yml'),
+        range: { start: { line: 30, character: 2 }, end: { line: 30, character: 13 } },
+      });
+    });
+    it('should find the sub stack resource when on the first part of a !GetAtt', async () => {
+      const definition = Definitions.findDefinition(template, positionOf('FirstSubStack.Outputs', '!GetAtt') + 2);
+      assert.deepEqual(definition && definition.filePath, filePath);
+      assert.deepEqual(definition && definition.range.start, { line: 32, character: 2 });
+    });
+    it('should find nothing when not on a reference', async () => {
+      const definition = Definitions.findDefinition(template, positionOf('Description', 'AWSTemplateFormatVersion'));
+      assert.deepEqual(definition, undefined);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import assert from 'assert';
+import path from 'path';
+import { Diagram, Diagrams, DiagramFormat } from '../../src/features/Diagrams';
+import { TemplateDocument } from '../../src/features/TemplateDocument';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+const before = (mocha as any).before;
+
+const validYaml = path.join(__dirname, '..', '..', '..', 'test', 'resources', 'valid_yaml');
+
+async function loadTemplate(filePath: string) {
+  try {
+    return await TemplateDocument.loadFile(filePath);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+describe('Diagrams', () => {
+  describe('build', () => {
+    let diagram: Diagram;
+    before(async () => {
+      diagram = await Diagrams.build(await TemplateDocument.loadFile(path.join(validYaml, 'test.yml')), loadTemplate);
+    });
+
+    function describeNode(id: string) {
+      const node = diagram.nodes.find(node => node.id === id);
+      return node ? `${node.clusterId}.${node.section}.${node.name}` : id;
+    }
+
+    it('should nest the sub stack template inside its parent', async () => {
+      assert.deepEqual(diagram.clusters.map(cluster => [cluster.id, cluster.label, cluster.parentId]), [
+        ['c0', 'test.yml', undefined],
+        ['c1', 'FirstSubStack (subfolder/test_substack.yml)', 'c0'],
+      ]);
+      assert.deepEqual(diagram.nodes.filter(node => node.clusterId === 'c1').map(node => node.name), [
+        'FirstParameter', 'SecondParameter', 'ThirdParameter', 'FourthParameter', 'FifthParameter', 'SixthParameter', 'FirstOutput',
+      ]);
+    });
+    it('should connect parameters, resources and outputs, including across templates', async () => {
+      assert.deepEqual(diagram.edges.map(edge => `${describeNode(edge.from)} -> ${describeNode(edge.to)}`), [
+        'c1.Outputs.FirstOutput -> c1.Parameters.FirstParameter',
+        'c1.Outputs.FirstOutput -> c1.Parameters.SecondParameter',
+        'c1.Outputs.FirstOutput -> c1.Parameters.ThirdParameter',
+        'c1.Outputs.FirstOutput -> c1.Parameters.FourthParameter',
+        'c1.Outputs.FirstOutput -> c1.Parameters.FifthParameter',
+        'c1.Outputs.FirstOutput -> c1.Parameters.SixthParameter',
+        'c1.Parameters.FirstParameter -> c0.Parameters.FirstParameter',
+        'c1.Parameters.SecondParameter -> c0.Parameters.SecondParameter',
+        'c1.Parameters.ThirdParameter -> c0.Parameters.FourthParameter',
+        'c0.Resources.FirstSubStack -> c0.Parameters.FirstParameter',
+        'c0.Resources.FirstSubStack -> c0.Parameters.SecondParameter',
+        'c0.Resources.FirstSubStack -> c0.Parameters.FourthParameter',
+        'c0.Resources.SecondSubStack -> c1.Outputs.FirstOutput',
+        'c0.Resources.SecondSubStack -> c0.Resources.FirstSubStack',
+        'c0.Resources.SecondSubStack -> c0.Parameters.ThirdParameter',
+      ]);
+    });
+  });
+
+  describe('render', () => {
+    const diagram: Diagram = {
+      clusters: [{ id: 'c0', label: 'parent.yml', filePath: 'parent.yml' }, { id: 'c1', label: 'Child (child.yml)', filePath: 'child.yml', parentId: 'c0' }],
+      nodes: [
+        { id: 'c0n0', name: 'Name', section: 'Parameters', clusterId: 'c0' },
+        { id: 'c0n1', name: 'Child', section: 'Resources', clusterId: 'c0' },
+        { id: 'c1n0', name: 'Input', section: 'Parameters', clusterId: 'c1' },
+        { id: 'c1n1', name: 'Output"', section: 'Outputs', clusterId: 'c1' },
+      ],
+      edges: [{ from: 'c1n0', to: 'c0n0' }, { from: 'c0n1', to: 'c0n0' }, { from: 'c1n1', to: 'c1n0' }],
+    };
+    it('should write Graphviz DOT with nested clusters', async () => {
+      assert.deepEqual(Diagrams.render(diagram, DiagramFormat.DOT), `digraph dependencies {
+  rankdir=RL;
+  subgraph cluster_c0 {
+    label="parent.yml";
+    c0n0 [label="Name", shape=ellipse];
+    c0n1 [label="Child", shape=box];
+    subgraph cluster_c1 {
+      label="Child (child.yml)";
+      c1n0 [label="Input", shape=ellipse];
+      c1n1 [label="Output\\"", shape=cds];
+    }
+  }
+  c1n0 -> c0n0;
+  c0n1 -> c0n0;
+  c1n1 -> c1n0;
+}
+`);
+    });
+    it('should write a Mermaid flowchart with nested subgraphs', async () => {
+      assert.deepEqual(Diagrams.render(diagram, DiagramFormat.MERMAID), `flowchart RL
+  subgraph c0 ["parent.yml"]
+    c0n0(["Name"])
+    c0n1["Child"]
+    subgraph c1 ["Child (child.yml)"]
+      c1n0(["Input"])
+      c1n1>"Output#quot;"]
+    end
+  end
+  c1n0 --> c0n0
+  c0n1 --> c0n0
+  c1n1 --> c1n0
+`);
+    });
+    it('should draw an SVG with a column for each step of use', async () => {
+      const svg = Diagrams.render(diagram, DiagramFormat.SVG);
+      assert.ok(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="740"'));
+      // Name uses nothing, Input and Child use Name, Output uses Input
+      assert.ok(svg.indexOf('<rect x="20" y="20" width="180" height="28" rx="14"') > -1);
+      assert.ok(svg.indexOf('<rect x="280" y="20" width="180" height="28" rx="3"') > -1);
+      assert.ok(svg.indexOf('<rect x="540" y="20" width="180" height="28" rx="3" fill="#d5e8d4" stroke="#333" stroke-dasharray="4 2"/>') > -1);
+      assert.ok(svg.indexOf('Output&quot;') > -1);
+      assert.deepEqual(svg.match(/<path d="M[0-9.]+,[0-9.]+ C/g)!.length, 3);
+    });
+  });
+});
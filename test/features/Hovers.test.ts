@@ -0,0 +1,73 @@
+import assert from 'assert';
+import path from 'path';
+import { Hovers } from '../../src/features/Hovers';
+import { TemplateDocument } from '../../src/features/TemplateDocument';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+const before = (mocha as any).before;
+
+// Sits next to the valid sub stack template
+const filePath = path.join(__dirname, '..', '..', '..', 'test', 'resources', 'valid_yaml', 'hovers.yml');
+
+const fullText = `Parameters:
+  Env:
+    Type: String
+    Description: The environment
+    Default: dev
+    AllowedValues: [dev, prod]
+Conditions:
+  IsProd: !Equals [!Ref Env, prod]
+Resources:
+  Child:
+    Type: AWS::CloudFormation::Stack
+    Condition: IsProd
+    Properties:
+      TemplateURL: subfolder/test_substack.yml
+  Topic:
+    Type: AWS::SNS::Topic
+    Properties:
+      TopicName: !Ref Env
+      DisplayName: !If [IsProd, !GetAtt Child.Outputs.FirstOutput, !Ref Child]
+`;
+
+describe('Hovers', () => {
+  let template: TemplateDocument;
+  before(async () => {
+    template = await TemplateDocument.load(fullText, filePath);
+  });
+
+  describe('getHover', () => {
+    it('should describe a parameter', async () => {
+      const hover = Hovers.getHover(template, fullText.indexOf('!Ref Env', fullText.indexOf('TopicName')) + 6);
+      assert.deepEqual(hover && hover.markdown.split('\n\n'), [
+        '**Parameter** `Env`',
+        'Type: `String`',
+        'Description: `The environment`',
+        'Default: `dev`',
+        'AllowedValues: `dev`, `prod`',
+      ]);
+      assert.deepEqual(hover && hover.range, { start: { line: 17, character: 22 }, end: { line: 17, character: 25 } });
+    });
+    it('should describe a condition with its expression', async () => {
+      const hover = Hovers.getHover(template, fullText.indexOf('IsProd, !GetAtt'));
+      assert.deepEqual(hover && hover.markdown, '**Condition** `IsProd`\n\n```yaml\n!Equals [!Ref Env, prod]\n```');
+    });
+    it('should describe a resource with its type', async () => {
+      const hover = Hovers.getHover(template, fullText.indexOf('!Ref Child') + 5);
+      assert.deepEqual(hover && hover.markdown, '**Resource** `Child`\n\nType: `AWS::CloudFormation::Stack`\n\nCondition: `IsProd`');
+    });
+    it('should describe a sub stack output from the sub stack template', async () => {
+      const hover = Hovers.getHover(template, fullText.indexOf('Child.Outputs.FirstOutput') + 15);
+      assert.deepEqual(hover && hover.markdown.split('\n\n'), [
+        '**Sub stack output** `Child.Outputs.FirstOutput`',
+        'Description:\n```yaml\n!Ref FirstParameter\n```',
+        'Value:\n```yaml\n!Sub "${SecondParameter}-${ThirdParameter}-asdf"\n```',
+      ]);
+    });
+    it('should not describe anything else', async () => {
+      assert.deepEqual(Hovers.getHover(template, fullText.indexOf('TopicName')), undefined);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import { Location } from '../../src/common/Location';
+import { Occurrences, Occurrence } from '../../src/features/Occurrences';
+import { TemplateDocument } from '../../src/features/TemplateDocument';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+const before = (mocha as any).before;
+
+const validYaml = path.join(__dirname, '..', '..', '..', 'test', 'resources', 'valid_yaml');
+
+describe('Occurrences', () => {
+  const parentPath = path.join(validYaml, 'test.yml');
+  const childPath = path.join(validYaml, 'subfolder', 'test_substack.yml');
+  const parentText = fs.readFileSync(parentPath, 'utf8');
+  const childText = fs.readFileSync(childPath, 'utf8');
+  let parent: TemplateDocument;
+  let child: TemplateDocument;
+  before(async () => {
+    parent = await TemplateDocument.load(parentText, parentPath);
+    child = await TemplateDocument.load(childText, childPath);
+  });
+
+  // The text each occurrence points at, so that ranges are checked as well as counts
+  function getTexts(occurrences: Occurrence[]): string[] {
+    return occurrences.map(occurrence => getText(occurrence.location));
+  }
+
+  function getText(location: Location): string {
+    const lines = (location.filePath === parentPath ? parentText : childText).split(/\r?\n/);
+    return lines[location.range.start.line].substring(location.range.start.character, location.range.end.character);
+  }
+
+  describe('findSymbolAt', () => {
+    it('should find a declaration', async () => {
+      const symbol = Occurrences.findSymbolAt(parent, parentText.indexOf('FirstMap:'));
+      assert.deepEqual(symbol && [symbol.filePath, symbol.section, symbol.name], [parentPath, 'Mappings', 'FirstMap']);
+    });
+    it('should find the sub stack output of a !GetAtt', async () => {
+      const symbol = Occurrences.findSymbolAt(parent, parentText.indexOf('FirstOutput'));
+      assert.deepEqual(symbol && [symbol.filePath, symbol.section, symbol.name], [childPath, 'Outputs', 'FirstOutput']);
+      assert.deepEqual(symbol && getText(symbol.location), 'FirstOutput');
+    });
+    it('should find the sub stack parameter of a sub stack Parameters key', async () => {
+      const symbol = Occurrences.findSymbolAt(parent, parentText.indexOf('ThirdParameter:', parentText.indexOf('TemplateURL')));
+      assert.deepEqual(symbol && [symbol.filePath, symbol.section, symbol.name], [childPath, 'Parameters', 'ThirdParameter']);
+    });
+    it('should find nothing on the attribute of a native attribute reference', async () => {
+      const symbol = Occurrences.findSymbolAt(parent, parentText.indexOf('NativeThing'));
+      assert.deepEqual(symbol, undefined);
+    });
+  });
+
+  describe('findOccurrences', () => {
+    it('should find local references of a parameter', async () => {
+      const symbol = Occurrences.findSymbolAt(parent, parentText.indexOf('!Ref FirstParameter') + 5);
+      const occurrences = Occurrences.findOccurrences(symbol as any, [parent, child]);
+      assert.deepEqual(occurrences.map(occurrence => occurrence.location.filePath), [parentPath, parentPath]);
+      assert.deepEqual(occurrences.map(occurrence => occurrence.isDeclaration), [true, false]);
+      assert.deepEqual(getTexts(occurrences), ['FirstParameter', 'FirstParameter']);
+    });
+    it('should find every form of reference to a resource', async () => {
+      const symbol = Occurrences.findSymbolAt(parent, parentText.indexOf('FirstSubStack:'));
+      const occurrences = Occurrences.findOccurrences(symbol as any, [parent, child]);
+      assert.deepEqual(occurrences.length, 5);
+      assert.deepEqual(getTexts(occurrences), ['FirstSubStack', 'FirstSubStack', 'FirstSubStack', 'FirstSubStack', 'FirstSubStack']);
+    });
+    it('should find sub stack parameters in parent templates and !Sub strings', async () => {
+      const symbol = Occurrences.findSymbolAt(child, childText.indexOf('ThirdParameter:'));
+      const occurrences = Occurrences.findOccurrences(symbol as any, [parent, child]);
+      assert.deepEqual(occurrences.map(occurrence => occurrence.location.filePath).sort(), [childPath, childPath, parentPath].sort());
+      assert.deepEqual(getTexts(occurrences), ['ThirdParameter', 'ThirdParameter', 'ThirdParameter']);
+    });
+    it('should find sub stack outputs referenced by parent templates', async () => {
+      const symbol = Occurrences.findSymbolAt(child, childText.indexOf('FirstOutput:'));
+      const occurrences = Occurrences.findOccurrences(symbol as any, [parent, child]);
+      assert.deepEqual(occurrences.map(occurrence => occurrence.location.filePath).sort(), [childPath, parentPath].sort());
+      assert.deepEqual(getTexts(occurrences), ['FirstOutput', 'FirstOutput']);
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import assert from 'assert';
+import childProcess from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CodeActionRequest,
+  createProtocolConnection,
+  DidChangeTextDocumentNotification,
+  DidChangeWatchedFilesNotification,
+  DidOpenTextDocumentNotification,
+  ExecuteCommandRequest,
+  ExitNotification,
+  FileChangeType,
+  InitializedNotification,
+  InitializeRequest,
+  ProtocolConnection,
+  PublishDiagnosticsNotification,
+  PublishDiagnosticsParams,
+  RenameRequest,
+  ShutdownRequest,
+  StreamMessageReader,
+  StreamMessageWriter,
+} from 'vscode-languageserver';
+
+import { Commands } from '../../src/common/Commands';
+import { Conversions } from '../../src/server/Conversions';
+
+import mocha from 'mocha';
+const describe = (mocha as any).describe;
+const it = (mocha as any).it;
+const before = (mocha as any).before;
+const after = (mocha as any).after;
+
+const resources = path.join(__dirname, '..', '..', '..', 'test', 'resources');
+const serverModule = path.join(__dirname, '..', '..', 'src', 'server', 'index.js');
+
+// A scripted client, talking to the server over stdio the way any editor would
+describe('LanguageServer', () => {
+  let server: childProcess.ChildProcess;
+  let connection: ProtocolConnection;
+  const published: { [uri: string]: PublishDiagnosticsParams } = {};
+  const waiting: { [uri: string]: (params: PublishDiagnosticsParams) => void } = {};
+
+  function nextDiagnostics(uri: string): Promise<PublishDiagnosticsParams> {
+    return new Promise(resolve => waiting[uri] = resolve);
+  }
+
+  function openDocument(filePath: string) {
+    const uri = Conversions.toUri(filePath);
+    const diagnosticsPromise = nextDiagnostics(uri);
+    connection.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: { uri, languageId: 'yaml', version: 1, text: fs.readFileSync(filePath, 'utf8') },
+    });
+    return diagnosticsPromise;
+  }
+
+  before(async () => {
+    server = childProcess.spawn(process.execPath, [serverModule, '--stdio']);
+    connection = createProtocolConnection(new StreamMessageReader(server.stdout), new StreamMessageWriter(server.stdin), console);
+    connection.onNotification(PublishDiagnosticsNotification.type, (params) => {
+      published[params.uri] = params;
+      const resolve = waiting[params.uri];
+      delete waiting[params.uri];
+      if (resolve) resolve(params);
+    });
+    connection.listen();
+    await connection.sendRequest(InitializeRequest.type, { processId: process.pid, rootUri: null, capabilities: {}, workspaceFolders: null });
+    connection.sendNotification(InitializedNotification.type, {});
+  });
+
+  after(async () => {
+    await connection.sendRequest(ShutdownRequest.type);
+    connection.sendNotification(ExitNotification.type);
+    connection.dispose();
+  });
+
+  it('should publish no diagnostics for a valid file', async () => {
+    const params = await openDocument(path.join(resources, 'valid_yaml', 'test.yml'));
+    assert.deepEqual(params.diagnostics, []);
+  });
+
+  it('should validate JSON templates, and ignore other JSON documents', async () => {
+    const otherUri = Conversions.toUri(path.join(resources, 'parameter_files', 'unnamed.json'));
+    connection.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: { uri: otherUri, languageId: 'json', version: 1, text: '{"compilerOptions": {"strict": true}}' },
+    });
+    const params = await openDocument(path.join(resources, 'json', 'parent.json'));
+    assert.deepEqual(params.diagnostics, []);
+    assert.deepEqual(published[otherUri], undefined);
+  });
+
+  it('should publish diagnostics with protocol severities when a file is opened', async () => {
+    const params = await openDocument(path.join(resources, 'invalid_yaml', 'test.yml'));
+    assert.deepEqual(params.diagnostics.length, 17);
+    const missingOutput = params.diagnostics.find((diagnostic) => {
+      return diagnostic.message === 'Unable to find referenced sub stack output, \'FirstSubStack.Outputs.SecondOutput\'';
+    });
+    assert.ok(missingOutput);
+    assert.deepEqual(missingOutput && missingOutput.severity, 1);
+    assert.deepEqual(missingOutput && missingOutput.range, { start: { line: 28, character: 20 }, end: { line: 28, character: 54 } });
+    const unusedParameter: any = params.diagnostics.find(diagnostic => diagnostic.message === 'Unused parameter, \'ThirdParameter\'');
+    assert.deepEqual(unusedParameter && unusedParameter.severity, 2);
+    assert.deepEqual(unusedParameter && unusedParameter.tags, [1]);
+  });
+
+  it('should revalidate a file when it changes', async () => {
+    const filePath = path.join(resources, 'invalid_yaml', 'subfolder', 'test_substack.yml');
+    const uri = Conversions.toUri(filePath);
+    const opened = await openDocument(filePath);
+    // The parent opened earlier doesn't use FirstOutput
+    assert.deepEqual(opened.diagnostics.length, 5);
+
+    const diagnosticsPromise = nextDiagnostics(uri);
+    const fixedText = fs.readFileSync(filePath, 'utf8').replace('${SecondParameter}-', '');
+    connection.sendNotification(DidChangeTextDocumentNotification.type, {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: fixedText }],
+    });
+    const changed = await diagnosticsPromise;
+    assert.deepEqual(changed.diagnostics.map(diagnostic => diagnostic.message).sort(), [
+      'Output is not used by any parent stack, \'FirstOutput\'',
+      'Unable to find referenced value, \'SixthParameter\'',
+      'Unused parameter, \'FifthParameter\'',
+      'Unused parameter, \'FourthParameter\'',
+    ]);
+  });
+
+  it('should only validate the last of several quick changes', async () => {
+    const filePath = path.join(resources, 'valid_yaml', 'test.yml');
+    const uri = Conversions.toUri(filePath);
+    const text = fs.readFileSync(filePath, 'utf8');
+    const diagnosticsPromise = nextDiagnostics(uri);
+    [text.replace('FirstSubStack.Outputs.FirstOutput', 'FirstSubStack.Outputs.MissingOutput'), text].forEach((changedText, index) => {
+      connection.sendNotification(DidChangeTextDocumentNotification.type, {
+        textDocument: { uri, version: index + 2 },
+        contentChanges: [{ text: changedText }],
+      });
+    });
+    assert.deepEqual((await diagnosticsPromise).diagnostics, []);
+  });
+
+  it('should publish sub stack diagnostics when recursively validating', async () => {
+    const uri = Conversions.toUri(path.join(resources, 'invalid_yaml', 'test.yml'));
+    const subStackUri = Conversions.toUri(path.join(resources, 'invalid_yaml', 'subfolder', 'test_substack.yml'));
+    const urisWithDiagnostics: string[] = await connection.sendRequest(ExecuteCommandRequest.type, {
+      command: Commands.VALIDATE_RECURSIVE,
+      arguments: [uri],
+    });
+    assert.deepEqual(urisWithDiagnostics.sort(), [subStackUri, uri].sort());
+    assert.deepEqual(published[subStackUri].diagnostics.length, 5);
+  });
+
+  it('should render the dependency diagram of a template and its sub stacks', async () => {
+    const uri = Conversions.toUri(path.join(resources, 'valid_yaml', 'test.yml'));
+    const mermaid: string = await connection.sendRequest(ExecuteCommandRequest.type, {
+      command: Commands.DEPENDENCY_DIAGRAM,
+      arguments: [uri, 'mermaid'],
+    });
+    assert.ok(mermaid.startsWith('flowchart RL\n  subgraph c0 ["test.yml"]'));
+    assert.ok(mermaid.indexOf('subgraph c1 ["FirstSubStack (subfolder/test_substack.yml)"]') > -1);
+  });
+
+  it('should rename a sub stack output in both templates', async () => {
+    const filePath = path.join(resources, 'valid_yaml', 'test.yml');
+    const uri = Conversions.toUri(filePath);
+    const subStackUri = Conversions.toUri(path.join(resources, 'valid_yaml', 'subfolder', 'test_substack.yml'));
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+    const line = lines.findIndex(text => text.indexOf('FirstSubStack.Outputs.FirstOutput') > -1);
+    const character = lines[line].indexOf('FirstOutput');
+    const workspaceEdit = await connection.sendRequest(RenameRequest.type, {
+      textDocument: { uri },
+      position: { line, character },
+      newName: 'RenamedOutput',
+    });
+    const changes = (workspaceEdit && workspaceEdit.changes) || {};
+    assert.deepEqual(Object.keys(changes).sort(), [subStackUri, uri].sort());
+    assert.deepEqual(changes[uri], [{ range: { start: { line, character }, end: { line, character: character + 11 } }, newText: 'RenamedOutput' }]);
+    assert.deepEqual(changes[subStackUri].length, 1);
+  });
+
+  it('should offer quick fixes for published diagnostics', async () => {
+    const uri = Conversions.toUri(path.join(resources, 'invalid_yaml', 'test.yml'));
+    const subStackUri = Conversions.toUri(path.join(resources, 'invalid_yaml', 'subfolder', 'test_substack.yml'));
+    const diagnostic = published[uri].diagnostics.find((diagnostic) => {
+      return diagnostic.message === 'Referenced file does not have parameter, \'SecondParameter\'';
+    });
+    assert.ok(diagnostic);
+    assert.deepEqual(diagnostic && diagnostic.code, 'unknown-sub-stack-parameter');
+
+    const codeActions = await connection.sendRequest(CodeActionRequest.type, {
+      textDocument: { uri },
+      range: (diagnostic as any).range,
+      context: { diagnostics: [diagnostic as any] },
+    }) as any[];
+    assert.deepEqual(codeActions.map(codeAction => codeAction.title), [
+      'Remove parameter \'SecondParameter\'',
+      'Add parameter \'SecondParameter\' to subfolder/test_substack.yml',
+    ]);
+    assert.deepEqual(codeActions[0].kind, 'quickfix');
+    assert.deepEqual(Object.keys(codeActions[1].edit.changes), [subStackUri]);
+  });
+
+  it('should revalidate imports when another document starts exporting them', async () => {
+    const importerUri = Conversions.toUri(path.join(resources, 'valid_yaml', 'importer.yml'));
+    const exporterUri = Conversions.toUri(path.join(resources, 'valid_yaml', 'exporter.yml'));
+    const imported = nextDiagnostics(importerUri);
+    connection.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: { uri: importerUri, languageId: 'yaml', version: 1, text: 'Resources:\n  Topic:\n    Type: AWS::SNS::Topic\nOutputs:\n  Vpc:\n    Value: !ImportValue network-vpc\n' },
+    });
+    assert.deepEqual((await imported).diagnostics.map(diagnostic => diagnostic.code), ['unknown-export']);
+
+    const revalidated = nextDiagnostics(importerUri);
+    connection.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: { uri: exporterUri, languageId: 'yaml', version: 1, text: 'Resources:\n  Topic:\n    Type: AWS::SNS::Topic\nOutputs:\n  Vpc:\n    Value: vpc\n    Export:\n      Name: network-vpc\n' },
+    });
+    assert.deepEqual((await revalidated).diagnostics, []);
+  });
+
+  it('should check parameter files against their template, and again when the template changes', async () => {
+    const parameterFileUri = Conversions.toUri(path.join(resources, 'parameter_files', 'app.prod.parameters.json'));
+    const templatePath = path.join(resources, 'parameter_files', 'app.yml');
+    const opened = await openDocument(path.join(resources, 'parameter_files', 'app.prod.parameters.json'));
+    assert.deepEqual(opened.diagnostics.map(diagnostic => diagnostic.code).sort(), [
+      'invalid-parameter-value',
+      'missing-required-parameter',
+      'missing-required-parameter',
+      'unknown-parameter-override',
+    ]);
+
+    const revalidated = nextDiagnostics(parameterFileUri);
+    connection.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: {
+        uri: Conversions.toUri(templatePath),
+        languageId: 'yaml',
+        version: 1,
+        text: fs.readFileSync(templatePath, 'utf8').replace('MaxLength: 8', 'MaxLength: 8\n    Default: orders'),
+      },
+    });
+    assert.deepEqual((await revalidated).diagnostics.length, 3);
+  });
+});
+
+// A workspace of its own, so that templates can be changed on disk the way a git checkout would
+describe('LanguageServer validating the workspace', () => {
+  let server: childProcess.ChildProcess;
+  let connection: ProtocolConnection;
+  const waiting: { [uri: string]: (params: PublishDiagnosticsParams) => void } = {};
+  const publishedUris: string[] = [];
+  let workspace: string;
+  let parentPath: string;
+  let childPath: string;
+  const childText = 'Parameters:\n  Name:\n    Type: String\nResources:\n  Queue:\n    Type: AWS::SQS::Queue\n    Properties:\n      QueueName: !Ref Name\n'
+    + 'Outputs:\n  QueueArn:\n    Value: !GetAtt Queue.Arn\n';
+
+  function nextDiagnostics(uri: string): Promise<PublishDiagnosticsParams> {
+    return new Promise(resolve => waiting[uri] = resolve);
+  }
+
+  function getMessages(params: PublishDiagnosticsParams): string[] {
+    return params.diagnostics.map(diagnostic => diagnostic.message).sort();
+  }
+
+  function changeFile(filePath: string, type: FileChangeType) {
+    connection.sendNotification(DidChangeWatchedFilesNotification.type, { changes: [{ type, uri: Conversions.toUri(filePath) }] });
+  }
+
+  before(async () => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-'));
+    parentPath = path.join(workspace, 'parent.yml');
+    childPath = path.join(workspace, 'stacks', 'child.yml');
+    fs.mkdirSync(path.join(workspace, 'stacks'));
+    fs.writeFileSync(parentPath, 'Resources:\n  Child:\n    Type: AWS::CloudFormation::Stack\n    Properties:\n      TemplateURL: stacks/child.yml\n'
+      + '      Parameters:\n        Name: jobs\nOutputs:\n  QueueArn:\n    Value: !GetAtt Child.Outputs.QueueArn\n');
+    fs.writeFileSync(childPath, childText);
+    fs.writeFileSync(path.join(workspace, 'package.json'), '{"name": "workspace"}');
+    fs.writeFileSync(path.join(workspace, 'docker-compose.yml'), 'services:\n  web:\n    image: nginx\n');
+
+    server = childProcess.spawn(process.execPath, [serverModule, '--stdio']);
+    connection = createProtocolConnection(new StreamMessageReader(server.stdout), new StreamMessageWriter(server.stdin), console);
+    connection.onNotification(PublishDiagnosticsNotification.type, (params) => {
+      publishedUris.push(params.uri);
+      const resolve = waiting[params.uri];
+      delete waiting[params.uri];
+      if (resolve) resolve(params);
+    });
+    connection.listen();
+    await connection.sendRequest(InitializeRequest.type, {
+      processId: process.pid,
+      rootUri: Conversions.toUri(workspace),
+      capabilities: {},
+      workspaceFolders: null,
+      initializationOptions: { validateWorkspace: true },
+    });
+  });
+
+  after(async () => {
+    await connection.sendRequest(ShutdownRequest.type);
+    connection.sendNotification(ExitNotification.type);
+    connection.dispose();
+    [parentPath, childPath, path.join(workspace, 'package.json'), path.join(workspace, 'docker-compose.yml')].forEach(filePath => fs.existsSync(filePath) && fs.unlinkSync(filePath));
+    fs.rmdirSync(path.join(workspace, 'stacks'));
+    fs.rmdirSync(workspace);
+  });
+
+  it('should publish diagnostics for every template without them being opened, and leave other files alone', async () => {
+    const parentDiagnostics = nextDiagnostics(Conversions.toUri(parentPath));
+    const childDiagnostics = nextDiagnostics(Conversions.toUri(childPath));
+    connection.sendNotification(InitializedNotification.type, {});
+    assert.deepEqual(getMessages(await parentDiagnostics), []);
+    assert.deepEqual(getMessages(await childDiagnostics), []);
+    assert.deepEqual(publishedUris.indexOf(Conversions.toUri(path.join(workspace, 'package.json'))), -1);
+    assert.deepEqual(publishedUris.indexOf(Conversions.toUri(path.join(workspace, 'docker-compose.yml'))), -1);
+  });
+
+  it('should revalidate the parents of a sub stack template changed on disk', async () => {
+    fs.writeFileSync(childPath, childText.replace('  Name:\n    Type: String\n', '  Name:\n    Type: String\n  Size:\n    Type: Number\n').replace(/Outputs:[^]*/, ''));
+    const parentDiagnostics = nextDiagnostics(Conversions.toUri(parentPath));
+    const childDiagnostics = nextDiagnostics(Conversions.toUri(childPath));
+    changeFile(childPath, FileChangeType.Changed);
+    assert.deepEqual(getMessages(await childDiagnostics), ['Unused parameter, \'Size\'']);
+    assert.deepEqual(getMessages(await parentDiagnostics), [
+      'Properties missing value for required parameter, \'Size\'',
+      'Unable to find referenced sub stack output, \'Child.Outputs.QueueArn\'',
+    ]);
+  });
+
+  it('should clear the diagnostics of deleted templates and report them missing from their parents', async () => {
+    fs.unlinkSync(childPath);
+    const parentDiagnostics = nextDiagnostics(Conversions.toUri(parentPath));
+    const childDiagnostics = nextDiagnostics(Conversions.toUri(childPath));
+    changeFile(childPath, FileChangeType.Deleted);
+    assert.deepEqual(getMessages(await childDiagnostics), []);
+    assert.deepEqual((await parentDiagnostics).diagnostics.map(diagnostic => diagnostic.code).sort(), [
+      'unknown-sub-stack-output',
+      'unknown-sub-stack-parameter',
+      'unloadable-template',
+    ]);
+  });
+});